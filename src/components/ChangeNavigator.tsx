@@ -0,0 +1,44 @@
+import React from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ChangeNavigatorProps {
+  current: number | null; // Index of the current change, null before navigating
+  total: number;
+  onStep: (step: 1 | -1) => void;
+}
+
+// Previous and next change buttons around a "Change 3 of 17" counter
+const ChangeNavigator: React.FC<ChangeNavigatorProps> = ({ current, total, onStep }) => {
+  if (total === 0) return null;
+
+  return (
+    <div className="flex items-center border border-border/50 rounded-md bg-background">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onStep(-1)}
+        className="h-7 w-7 p-0"
+        aria-label="Previous change"
+        title="Previous change (p, Shift+F7)"
+      >
+        <ChevronUp className="h-3.5 w-3.5" />
+      </Button>
+      <span className="px-1.5 text-xs tabular-nums whitespace-nowrap select-none" aria-live="polite">
+        {current === null ? `${total} ${total === 1 ? 'change' : 'changes'}` : `Change ${current + 1} of ${total}`}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onStep(1)}
+        className="h-7 w-7 p-0"
+        aria-label="Next change"
+        title="Next change (n, F7)"
+      >
+        <ChevronDown className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+};
+
+export default ChangeNavigator;
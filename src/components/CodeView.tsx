@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import Prism from 'prismjs';
 import 'prismjs/components/prism-markup';
 import 'prismjs/components/prism-css';
@@ -20,8 +20,17 @@ import 'prismjs/components/prism-rust';
 import 'prismjs/components/prism-sql';
 import 'prismjs/components/prism-xml-doc';
 import 'prismjs/components/prism-ini';
-import { type DiffResultWithLineNumbers } from '@/utils/diff/types';
+import { ChevronDown, ChevronUp, ChevronsUpDown } from 'lucide-react';
+import { type DiffResultWithLineNumbers, type UnifiedDiffLine } from '@/utils/diff/types';
+import { FOLD_EXPAND_STEP, type DisplayItem, type FoldDirection, type FoldRegion } from '@/utils/diff/folding';
+import { type Hunk } from '@/utils/diff/hunks';
+import { type SearchMatch } from '@/utils/diff/search';
+import { highlightLine, overlayRuns, sliceHighlight, type HighlightNode, type LineOverlay } from '@/utils/lineHighlight';
+import { ROW_HEIGHT_PX, VIRTUALIZE_MIN_ROWS, itemOffsets } from '@/utils/virtualRows';
+import { wrapLine } from '@/utils/softWrap';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useVirtualRows } from '@/hooks/use-virtual-rows';
+import { useWrapColumns } from '@/hooks/use-wrap-columns';
 
 // Load Prism CSS theme
 import 'prismjs/themes/prism.css';
@@ -34,13 +43,95 @@ interface CodeViewProps {
   title?: string;
   scrollRef?: React.RefObject<HTMLDivElement>;
   horizontalScrollRef?: React.RefObject<HTMLPreElement>;
-  position?: 'left' | 'right'; // To determine if it's the left or right view
+  position?: 'left' | 'right' | 'unified'; // To determine if it's the left or right view, or both interleaved
   isExpanded?: boolean; // Added to control expansion
   maxHeight?: string; // Added to control max height
+  activeMoveId?: number | null; // Moved block currently linked between the panes
+  onMoveClick?: (moveId: number, side: 'left' | 'right') => void; // Jump to the other end of a moved block
+  displayItems?: DisplayItem[]; // Rows to render with fold bars for collapsed unchanged rows, all rows when omitted
+  onExpandFold?: (region: FoldRegion, direction: FoldDirection) => void;
+  currentHunk?: Hunk; // Rows of the change navigated to, marked in the gutter
+  searchRanges?: Map<number, [number, number][]>; // Search match ranges of the pane by row
+  currentSearchMatch?: SearchMatch; // Match navigated to, when it is in this pane
+  wrap?: boolean; // Soft wrap long lines instead of scrolling horizontally
+  rowSpans?: number[]; // Visual rows of each row when wrapping, shared by the panes to keep them aligned
+  onWrapColumnsChange?: (columns: number | null) => void; // Characters that fit in a row of this pane
 }
 
 const LINE_HEIGHT = 'h-6'; // Consistent line height class
 
+const UNIFIED_SIGNS: Record<UnifiedDiffLine['side'], string> = { left: '-', right: '+', both: ' ' };
+
+// Side a row belongs to: the pane's side, or in the unified view the side stored on the row
+const sideOf = (line: DiffResultWithLineNumbers, position: CodeViewProps['position']): UnifiedDiffLine['side'] =>
+  position === 'unified' ? (line as UnifiedDiffLine).side : position;
+
+const formatLineNumber = (lineNumber?: number) => lineNumber === undefined || lineNumber <= 0 ? '\u00A0' : lineNumber;
+
+// Text of a row with its inline changes and masked tokens as overlays. Removed parts are highlighted in the
+// original (left), added parts in the modified (right), masked tokens are laid over them.
+function rowOverlays(line: DiffResultWithLineNumbers, side: UnifiedDiffLine['side']): { text: string; overlays: LineOverlay[] } {
+  const overlays: LineOverlay[] = [];
+  let text = line.value || ' ';
+
+  if (line.inlineChanges && line.inlineChanges.length > 0) {
+    text = '';
+    for (const part of line.inlineChanges) {
+      const className = side === 'left' && part.removed ? 'token-removed'
+        : side === 'right' && part.added ? 'token-added' : '';
+      if (className) overlays.push({ start: text.length, end: text.length + part.value.length, className });
+      text += part.value;
+    }
+  }
+
+  for (const [start, end] of line.maskedRanges ?? []) {
+    overlays.push({ start, end, className: 'token-masked' });
+  }
+
+  return { text, overlays };
+}
+
+// Spans of a highlighted line, tokens get the classes of the Prism theme
+const renderNodes = (nodes: HighlightNode[]): React.ReactNode[] => nodes.map((node, j) =>
+  typeof node === 'string' ? node : <span key={j} className={node.className}>{renderNodes(node.children)}</span>
+);
+
+// Characters [from, to) of a highlighted line, overlay spans wrap its syntax highlighting as it is
+const renderLine = (nodes: HighlightNode[], overlays: LineOverlay[], from: number, to: number) =>
+  overlayRuns(overlays, from, to).map(run => {
+    const children = renderNodes(sliceHighlight(nodes, run.start, run.end));
+    return run.className
+      ? <span key={run.start} className={run.className}>{children}</span>
+      : <React.Fragment key={run.start}>{children}</React.Fragment>;
+  });
+
+// Bar standing for collapsed unchanged rows, with controls to reveal them
+const FoldBar: React.FC<{ item: Extract<DisplayItem, { kind: 'fold' }>; onExpand?: CodeViewProps['onExpandFold'] }> = ({ item, onExpand }) => {
+  const hidden = item.to - item.from;
+  const button = (direction: FoldDirection, label: string, Icon: React.ElementType) => (
+    <button
+      type="button"
+      className="p-0.5 rounded hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-foreground"
+      onClick={() => onExpand?.(item.region, direction)}
+      aria-label={label}
+      title={label}
+    >
+      <Icon className="h-3.5 w-3.5" />
+    </button>
+  );
+
+  return (
+    <div className={`block ${LINE_HEIGHT} leading-6 fold-bar select-none`}>
+      <span className="sticky left-0 inline-flex items-center gap-1 px-1 text-xs text-muted-foreground font-sans">
+        {item.canExpandDown && hidden > FOLD_EXPAND_STEP && button('down', `Show ${FOLD_EXPAND_STEP} more lines below`, ChevronDown)}
+        {item.canExpandUp && hidden > FOLD_EXPAND_STEP && button('up', `Show ${FOLD_EXPAND_STEP} more lines above`, ChevronUp)}
+        {button('all', 'Show all unchanged lines', ChevronsUpDown)}
+        <span className="ml-1">⋯ {hidden} unchanged {hidden === 1 ? 'line' : 'lines'}</span>
+      </span>
+    </div>
+  );
+};
+
 const CodeView: React.FC<CodeViewProps> = ({
   content,
   language,
@@ -51,11 +142,53 @@ const CodeView: React.FC<CodeViewProps> = ({
   isExpanded = false, // Default to not expanded
   maxHeight = '70vh', // Default max height
   scrollRef,
-  horizontalScrollRef
+  horizontalScrollRef,
+  activeMoveId = null,
+  onMoveClick,
+  displayItems,
+  onExpandFold,
+  currentHunk,
+  searchRanges,
+  currentSearchMatch,
+  wrap = false,
+  rowSpans,
+  onWrapColumnsChange
 }) => {
   const codeRef = useRef<HTMLPreElement>(null);
+  const ownScrollRef = useRef<HTMLDivElement>(null);
+  const ownPaneRef = useRef<HTMLPreElement>(null);
+  const rowsRef = useRef<HTMLElement>(null);
+  const containerRef = scrollRef ?? ownScrollRef;
+  const paneRef = horizontalScrollRef ?? ownPaneRef;
   const isMobile = useIsMobile();
 
+  // Wrapped rows are split into visual rows here, so their heights are known before they are rendered
+  const wrapColumns = useWrapColumns(paneRef, rowsRef, wrap && !!lines && lines.length > 0);
+  useEffect(() => {
+    onWrapColumnsChange?.(wrapColumns);
+  }, [wrapColumns, onWrapColumnsChange]);
+  const spanOf = (row: number) => wrap && rowSpans ? rowSpans[row] ?? 1 : 1;
+
+  const items = useMemo(
+    () => displayItems ?? (lines ?? []).map((_, row): DisplayItem => ({ kind: 'row', row })),
+    [displayItems, lines]
+  );
+
+  // Large panes only render the rows on screen, the rows around them are stood in for by blank space
+  const virtualized = items.length >= VIRTUALIZE_MIN_ROWS;
+  const offsets = useMemo(() => wrap && rowSpans ? itemOffsets(items, rowSpans) : undefined, [wrap, rowSpans, items]);
+  const { start, end } = useVirtualRows(containerRef, rowsRef, items.length, virtualized, offsets);
+  const visibleItems = virtualized ? items.slice(start, end) : items;
+  const spaceAbove = (offsets ? offsets[start] : start) * ROW_HEIGHT_PX;
+  const spaceBelow = (offsets ? offsets[items.length] - offsets[end] : items.length - end) * ROW_HEIGHT_PX;
+
+  // Rendered rows change while scrolling, so the width comes from the longest line instead (tabs are 4 wide)
+  const minCodeWidth = useMemo(() => {
+    if (wrap || !virtualized || !lines) return '100%';
+    const longest = lines.reduce((max, line) => Math.max(max, line.value.replace(/\t/g, '    ').length), 0);
+    return `max(100%, ${longest}ch)`;
+  }, [wrap, virtualized, lines]);
+
   // Highlight code when component mounts or when content/language changes
   useEffect(() => {
     if (codeRef.current) {
@@ -67,7 +200,7 @@ const CodeView: React.FC<CodeViewProps> = ({
   if (lines && lines.length > 0) {
     return (
       <div
-        ref={scrollRef} // Assign scrollRef here
+        ref={containerRef} // Assign scrollRef here
         className="flex flex-col w-full relative scrollbar-none"
         style={{
           maxHeight: !isExpanded ? maxHeight : 'none',
@@ -83,92 +216,114 @@ const CodeView: React.FC<CodeViewProps> = ({
           {showLineNumbers && (
             <div className="line-numbers-container py-4 bg-slate-100 dark:bg-slate-800/95 sticky left-0 z-10 border-r border-border/50"
                  style={{ minWidth: isMobile ? "32px" : "48px", borderRight: "1px solid var(--border)" }}>
-              {lines.map((line, i) => (
-                <div
-                  key={i}
-                  className={`leading-6 ${LINE_HEIGHT} ${isMobile ? 'px-1' : 'px-2'} text-xs text-right text-muted-foreground ${line.spacer ? 'text-transparent' : ''}`}
-                  style={{ fontSize: isMobile ? '10px' : undefined }}
-                >
-                  {line.spacer ? '\u00A0' : line.lineNumber}
-                </div>
-              ))}
+              {spaceAbove > 0 && <div style={{ height: spaceAbove }} />}
+              {visibleItems.map(item => {
+                if (item.kind === 'fold') {
+                  return <div key={`fold-${item.from}`} className={`${LINE_HEIGHT} fold-bar`} />;
+                }
+                const i = item.row;
+                const line = lines[i];
+                const side = sideOf(line, position);
+                const isMoved = line.moved && line.moveId !== undefined && side !== 'both';
+                const unified = line as UnifiedDiffLine;
+                const isCurrent = currentHunk && i >= currentHunk.start && i < currentHunk.end;
+                return (
+                  <div
+                    key={i}
+                    className={`leading-6 ${LINE_HEIGHT} ${isMobile ? 'px-1' : 'px-2'} text-xs text-right ${line.spacer || line.extraLine ? 'text-transparent' : isMoved ? 'text-diff-moved-text cursor-pointer hover:underline' : 'text-muted-foreground'} ${position === 'unified' ? 'flex gap-1 justify-end' : ''} ${isCurrent ? 'hunk-current' : ''}`}
+                    style={{ fontSize: isMobile ? '10px' : undefined, height: wrap ? spanOf(i) * ROW_HEIGHT_PX : undefined }}
+                    title={isMoved ? `${side === 'left' ? 'Moved to' : 'Moved from'} block #${line.moveId}, click to jump` : undefined}
+                    onClick={isMoved && onMoveClick ? () => onMoveClick(line.moveId!, side as 'left' | 'right') : undefined}
+                  >
+                    {position === 'unified' ? (
+                      <>
+                        <span className="min-w-[2.5ch]">{formatLineNumber(unified.oldLineNumber)}</span>
+                        <span className="min-w-[2.5ch]">{formatLineNumber(unified.newLineNumber)}</span>
+                        <span className="w-[1ch] text-center">{line.extraLine ? '\u00A0' : UNIFIED_SIGNS[unified.side]}</span>
+                      </>
+                    ) : (
+                      line.spacer || line.extraLine ? '\u00A0' : formatLineNumber(line.lineNumber)
+                    )}
+                  </div>
+                );
+              })}
+              {spaceBelow > 0 && <div style={{ height: spaceBelow }} />}
             </div>
           )}
           <pre
-            ref={horizontalScrollRef}
+            ref={paneRef}
             className={`p-4 ${isMobile ? 'pl-1' : 'pl-2'} m-0 flex-grow overflow-x-auto scrollbar-thin`}
           >
             <code
+              ref={rowsRef}
+              data-rows
               className={`language-${language} whitespace-pre`}
-              style={{ display: 'table', width: 'max-content', minWidth: '100%' }}
+              style={{ display: 'table', width: wrap ? '100%' : 'max-content', minWidth: minCodeWidth }}
             >
-              {lines.map((line, i) => {
+              {spaceAbove > 0 && <div style={{ height: spaceAbove }} />}
+              {visibleItems.map(item => {
+                if (item.kind === 'fold') {
+                  return <FoldBar key={`fold-${item.from}`} item={item} onExpand={onExpandFold} />;
+                }
+                const i = item.row;
+                const line = lines[i];
+                const rowStyle = wrap ? { height: spanOf(i) * ROW_HEIGHT_PX } : undefined;
+
                 // Handle spacer lines
                 if (line.spacer) {
-                  return <div key={i} className={`block ${LINE_HEIGHT} leading-6`}>&nbsp;</div>;
+                  return <div key={i} className={`block ${LINE_HEIGHT} leading-6`} style={rowStyle} data-row={i}>&nbsp;</div>;
+                }
+
+                // Marker rows such as "No newline at end of file" are not highlighted as code
+                if (line.extraLine) {
+                  return <div key={i} className={`block ${LINE_HEIGHT} leading-6 line-extra`} style={rowStyle} data-row={i}>{line.value}</div>;
                 }
 
                 // Determine line class based on position and line type
+                const side = sideOf(line, position);
                 let className = `block ${LINE_HEIGHT} leading-6`;
 
-                if (position === 'left' && line.removed) {
+                if (line.masked) {
+                  className += " line-masked";
+                } else if (line.moved) {
+                  className += " line-moved";
+                  if (line.moveId === activeMoveId) {
+                    className += " line-moved-active";
+                  }
+                } else if (side === 'left' && line.removed) {
                   className += " line-removed";
-                } else if (position === 'right' && line.added) {
+                } else if (side === 'right' && line.added) {
                   className += " line-added";
                 }
 
-                // If this line has inline changes, render them
-                if (line.inlineChanges && line.inlineChanges.length > 0) {
-                  return (
-                    <div key={i} className={className}>
-                      {line.inlineChanges.map((part, j) => {
-                        // Skip rendering empty parts
-                        if (!part.value) return null;
-
-                        let spanClass = "";
-
-                        // Apply highlighting for removed parts in original (left)
-                        if (position === 'left' && part.removed) {
-                          spanClass = "token-removed";
-                        }
-                        // Apply highlighting for added parts in modified (right)
-                        else if (position === 'right' && part.added) {
-                          spanClass = "token-added";
-                        }
-
-                        return (
-                          <span
-                            key={j}
-                            className={spanClass}
-                            dangerouslySetInnerHTML={{
-                              __html: Prism.highlight(
-                                part.value,
-                                Prism.languages[language] || Prism.languages.plaintext,
-                                language
-                              )
-                            }}
-                          />
-                        );
-                      })}
-                    </div>
-                  );
+                // The line is highlighted as a whole, inline changes and masked tokens are laid over it
+                const { text, overlays } = rowOverlays(line, side);
+                const nodes = highlightLine(text, Prism.languages[language] || Prism.languages.plaintext);
+
+                // Search matches are laid over the masked, inline change and syntax highlighting
+                for (const [start, end] of searchRanges?.get(i) ?? []) {
+                  overlays.push({ start, end, className: 'search-match' });
                 }
+                if (currentSearchMatch?.row === i) {
+                  overlays.push({ start: currentSearchMatch.start, end: currentSearchMatch.end, className: 'search-match-current' });
+                }
+
+                // A wrapped line is cut into visual rows after highlighting, the row keeps the height of the taller pane
+                const rowStarts = wrap && wrapColumns ? wrapLine(text, wrapColumns) : [0];
 
-                // Regular line rendering (no inline changes)
                 return (
-                  <div key={i} className={className}>
-                    <span
-                      dangerouslySetInnerHTML={{
-                        __html: Prism.highlight(
-                          line.value || " ",
-                          Prism.languages[language] || Prism.languages.plaintext,
-                          language
-                        )
-                      }}
-                    />
+                  <div key={i} className={className} style={rowStyle} data-row={i}>
+                    {rowStarts.length === 1
+                      ? renderLine(nodes, overlays, 0, text.length)
+                      : rowStarts.map((from, k) => (
+                          <div key={k} className={`${LINE_HEIGHT} leading-6`}>
+                            {renderLine(nodes, overlays, from, rowStarts[k + 1] ?? text.length)}
+                          </div>
+                        ))}
                   </div>
                 );
               })}
+              {spaceBelow > 0 && <div style={{ height: spaceBelow }} />}
             </code>
           </pre>
         </div>
@@ -179,7 +334,7 @@ const CodeView: React.FC<CodeViewProps> = ({
   // Standard syntax highlighted view
   return (
     <div
-      ref={scrollRef}
+      ref={containerRef}
       className="flex flex-col w-full scrollbar-none"
       style={{
         maxHeight: !isExpanded ? maxHeight : 'none',
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { type ComparisonMode } from '@/utils/diff/types';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface ComparisonModeSelectorProps {
+  mode: ComparisonMode;
+  onModeChange: (mode: ComparisonMode) => void;
+  disabled?: boolean;
+}
+
+const MODE_OPTIONS: { value: ComparisonMode; label: string; title: string }[] = [
+  { value: 'lines', label: 'Lines', title: 'Compare line by line in order' },
+  { value: 'set', label: 'Set', title: 'Compare lists ignoring order and duplicates' },
+];
+
+const ComparisonModeSelector: React.FC<ComparisonModeSelectorProps> = ({ mode, onModeChange, disabled }) => {
+  const isMobile = useIsMobile();
+
+  return (
+    <ToggleGroup
+      type="single"
+      size={isMobile ? "sm" : "default"}
+      value={mode}
+      onValueChange={(value) => value && onModeChange(value as ComparisonMode)}
+      disabled={disabled}
+      className="gap-0 border border-border/50 rounded-md"
+      aria-label="Comparison mode"
+    >
+      {MODE_OPTIONS.map(option => (
+        <ToggleGroupItem key={option.value} value={option.value} className="px-3" title={option.title}>
+          {option.label}
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  );
+};
+
+export default ComparisonModeSelector;
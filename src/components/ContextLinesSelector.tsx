@@ -0,0 +1,34 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface ContextLinesSelectorProps {
+  contextLines: number | null; // null shows every line
+  onContextLinesChange: (contextLines: number | null) => void;
+}
+
+const CONTEXT_OPTIONS: { value: string; label: string }[] = [
+  { value: '0', label: 'No context' },
+  { value: '3', label: '3 lines context' },
+  { value: '5', label: '5 lines context' },
+  { value: '10', label: '10 lines context' },
+  { value: '25', label: '25 lines context' },
+  { value: 'all', label: 'Full file' },
+];
+
+const ContextLinesSelector: React.FC<ContextLinesSelectorProps> = ({ contextLines, onContextLinesChange }) => (
+  <Select
+    value={contextLines === null ? 'all' : String(contextLines)}
+    onValueChange={(value) => onContextLinesChange(value === 'all' ? null : Number(value))}
+  >
+    <SelectTrigger className="h-7 w-[135px] text-xs bg-background" aria-label="Unchanged lines shown around changes" title="Unchanged lines shown around each change">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {CONTEXT_OPTIONS.map(option => (
+        <SelectItem key={option.value} value={option.value} className="text-xs">{option.label}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default ContextLinesSelector;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { type DiffDiagnostics } from '@/utils/diff';
+
+interface DiffDiagnosticsBannerProps {
+  diagnostics?: DiffDiagnostics;
+}
+
+const formatTime = (ms: number) => (ms < 10 ? `${ms.toFixed(1)} ms` : `${Math.round(ms)} ms`);
+
+// Warn when the shown diff comes from a degraded fallback, with details on demand
+const DiffDiagnosticsBanner: React.FC<DiffDiagnosticsBannerProps> = ({ diagnostics }) => {
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (!diagnostics?.degraded) return null;
+
+  const degradedFallbacks = diagnostics.fallbacks.filter(fallback => fallback.degraded);
+
+  return (
+    <div
+      role="alert"
+      className="flex flex-col gap-1 px-3 py-2 text-xs border-b bg-amber-50 text-amber-900 dark:bg-amber-950/40 dark:text-amber-200 border-amber-200 dark:border-amber-900"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-px" />
+          <div>
+            <span className="font-medium">This diff is less precise than usual. </span>
+            {degradedFallbacks.map(fallback => fallback.message).join(' ')}
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowDetails(!showDetails)}
+          className="flex items-center gap-0.5 flex-shrink-0 underline-offset-2 hover:underline"
+          aria-expanded={showDetails}
+        >
+          Details
+          {showDetails ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+        </button>
+      </div>
+
+      {showDetails && (
+        <div className="pl-6 space-y-1 font-mono">
+          {diagnostics.fallbacks.map(fallback => (
+            <div key={fallback.kind}>
+              {fallback.kind}
+              {fallback.count && fallback.count > 1 ? ` ×${fallback.count}` : ''}
+              {fallback.threshold !== undefined && ` (value ${Math.round(fallback.value ?? 0)}, threshold ${Math.round(fallback.threshold)})`}
+            </div>
+          ))}
+          <div className="text-amber-800/80 dark:text-amber-200/70">
+            {Object.entries(diagnostics.timings)
+              .map(([phase, ms]) => `${phase} ${formatTime(ms)}`)
+              .join(' · ')}
+            {` · total ${formatTime(diagnostics.totalTime)}`}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiffDiagnosticsBanner;
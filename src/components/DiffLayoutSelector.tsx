@@ -0,0 +1,33 @@
+import React from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+export type DiffLayout = 'split' | 'unified';
+
+interface DiffLayoutSelectorProps {
+  layout: DiffLayout;
+  onLayoutChange: (layout: DiffLayout) => void;
+}
+
+const LAYOUT_OPTIONS: { value: DiffLayout; label: string; title: string }[] = [
+  { value: 'split', label: 'Split', title: 'Original and modified side by side' },
+  { value: 'unified', label: 'Unified', title: 'Removed and added lines interleaved in one column' },
+];
+
+const DiffLayoutSelector: React.FC<DiffLayoutSelectorProps> = ({ layout, onLayoutChange }) => (
+  <ToggleGroup
+    type="single"
+    size="sm"
+    value={layout}
+    onValueChange={(value) => value && onLayoutChange(value as DiffLayout)}
+    className="gap-0 border border-border/50 rounded-md bg-background"
+    aria-label="Diff layout"
+  >
+    {LAYOUT_OPTIONS.map(option => (
+      <ToggleGroupItem key={option.value} value={option.value} className="h-7 px-2.5 text-xs" title={option.title}>
+        {option.label}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
+
+export default DiffLayoutSelector;
@@ -1,15 +1,18 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { type DiffResultWithLineNumbers } from '@/utils/diff/types';
 
+type MinimapGroupType = 'added' | 'removed' | 'modified' | 'extra' | 'moved';
+
 interface DiffMinimapProps {
   lines: DiffResultWithLineNumbers[];
   containerRef: React.RefObject<HTMLDivElement>;
-  position: 'left' | 'right';
+  position: 'left' | 'right' | 'unified';
   isExpanded?: boolean;
   maxTotalLines?: number;
+  searchMarks?: boolean[]; // Lines with search matches, aligned with lines
 }
 
-const DiffMinimap: React.FC<DiffMinimapProps> = ({ lines, containerRef, position, isExpanded = false, maxTotalLines }) => {
+const DiffMinimap: React.FC<DiffMinimapProps> = ({ lines, containerRef, position, isExpanded = false, maxTotalLines, searchMarks }) => {
   const minimapRef = useRef<HTMLDivElement>(null);
   const [viewportPosition, setViewportPosition] = useState({ top: 0, height: 30 });
   const [isDragging, setIsDragging] = useState(false);
@@ -119,15 +122,18 @@ const DiffMinimap: React.FC<DiffMinimapProps> = ({ lines, containerRef, position
 
   // Function to find groups of consecutive added/removed/modified lines
   const findChangedLineGroups = () => {
-    const groups: { start: number; end: number; type: 'added' | 'removed' | 'modified' | 'extra' }[] = [];
-    let currentGroup: { start: number; end: number; type: 'added' | 'removed' | 'modified' | 'extra' } | null = null;
+    const groups: { start: number; end: number; type: MinimapGroupType }[] = [];
+    let currentGroup: { start: number; end: number; type: MinimapGroupType } | null = null;
 
     // If no real lines, return no groups
     if (nonSpacerLines.length === 0) return groups;
 
     nonSpacerLines.forEach((line, index) => {
-      let type: 'added' | 'removed' | 'modified' | 'extra' | null = null;
-      if (line.added) type = 'added';
+      let type: MinimapGroupType | null = null;
+      // Lines ignored by a mask are not changes
+      if (line.masked) type = null;
+      else if (line.moved) type = 'moved';
+      else if (line.added) type = 'added';
       else if (line.removed) type = 'removed';
       else if (line.modified) type = 'modified';
       else if (line.extraLine) type = 'extra';
@@ -156,6 +162,17 @@ const DiffMinimap: React.FC<DiffMinimapProps> = ({ lines, containerRef, position
 
   const changedGroups = findChangedLineGroups();
 
+  // Positions of search matches among the non-spacer lines
+  const searchMarkIndexes: number[] = [];
+  if (searchMarks) {
+    let index = 0;
+    lines.forEach((line, i) => {
+      if (line.spacer) return;
+      if (searchMarks[i]) searchMarkIndexes.push(index);
+      index++;
+    });
+  }
+
   // Only render minimap if we have meaningful content
   if (nonSpacerLines.length === 0) {
     return null;
@@ -173,8 +190,16 @@ const DiffMinimap: React.FC<DiffMinimapProps> = ({ lines, containerRef, position
 
           let colorClass = '';
 
-          // Only show relevant colors for each position
-          if (position === 'left') {
+          // Only show relevant colors for each position, moved blocks show on both sides
+          if (group.type === 'moved') {
+            colorClass = 'bg-purple-500/80';
+          } else if (position === 'unified') {
+            // The unified view shows both sides
+            if (group.type === 'removed') colorClass = 'bg-red-500/80';
+            else if (group.type === 'added') colorClass = 'bg-green-500/80';
+            else if (group.type === 'modified') colorClass = 'bg-blue-500/80';
+            else if (group.type === 'extra') colorClass = 'bg-yellow-500/80';
+          } else if (position === 'left') {
             // Left side shows removals and modifications
             if (group.type === 'removed') colorClass = 'bg-red-500/80';
             else if (group.type === 'modified') colorClass = 'bg-blue-500/80';
@@ -199,6 +224,18 @@ const DiffMinimap: React.FC<DiffMinimapProps> = ({ lines, containerRef, position
           );
         })}
 
+        {/* Search match ticks, drawn over the change blocks */}
+        {searchMarkIndexes.map(index => (
+          <div
+            key={`search-${index}`}
+            className="absolute bg-yellow-400 dark:bg-yellow-300 w-full"
+            style={{
+              top: `${Math.min(100, (index / totalLines) * 100)}%`,
+              height: 2,
+            }}
+          />
+        ))}
+
         {/* Current viewport indicator - only show when not expanded */}
         {!isExpanded && (
           <div
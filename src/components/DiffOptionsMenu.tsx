@@ -0,0 +1,199 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { type DiffOptions, type DiffAlgorithm, type DiffGranularity, type InlineCleanup } from '@/utils/diff/types';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface DiffOptionsMenuProps {
+  options: DiffOptions;
+  onOptionsChange: (options: DiffOptions) => void;
+  disabled?: boolean;
+}
+
+const WHITESPACE_OPTIONS: { key: keyof DiffOptions; label: string }[] = [
+  { key: 'ignoreTrailingWhitespace', label: 'Ignore trailing whitespace' },
+  { key: 'ignoreWhitespaceAmount', label: 'Ignore whitespace amount' },
+  { key: 'ignoreAllWhitespace', label: 'Ignore all whitespace' },
+  { key: 'ignoreBlankLines', label: 'Ignore blank lines' },
+];
+
+const ALGORITHM_OPTIONS: { value: DiffAlgorithm; label: string }[] = [
+  { value: 'myers', label: 'Myers (default)' },
+  { value: 'patience', label: 'Patience' },
+  { value: 'histogram', label: 'Histogram' },
+];
+
+const GRANULARITY_OPTIONS: { value: DiffGranularity; label: string }[] = [
+  { value: 'line', label: 'Lines (default)' },
+  { value: 'sentence', label: 'Sentences (prose)' },
+  { value: 'paragraph', label: 'Paragraphs (prose)' },
+];
+
+const UNICODE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'none', label: 'No normalization' },
+  { value: 'NFC', label: 'NFC (composed)' },
+  { value: 'NFKC', label: 'NFKC (compatibility)' },
+];
+
+const INLINE_CLEANUP_OPTIONS: { value: InlineCleanup; label: string }[] = [
+  { value: 'semantic', label: 'Merge fragments (default)' },
+  { value: 'efficiency', label: 'Merge short fragments' },
+  { value: 'none', label: 'Exact' },
+];
+
+const DiffOptionsMenu: React.FC<DiffOptionsMenuProps> = ({ options, onOptionsChange, disabled }) => {
+  const isMobile = useIsMobile();
+
+  const activeCount = WHITESPACE_OPTIONS.filter(option => options[option.key]).length +
+    (options.ignoreCase ? 1 : 0) +
+    (options.unicodeNormalization ? 1 : 0) +
+    (options.algorithm && options.algorithm !== 'myers' ? 1 : 0) +
+    (options.granularity && options.granularity !== 'line' ? 1 : 0) +
+    (options.detectMoves === false ? 1 : 0) +
+    (options.compareLineEndings ? 1 : 0) +
+    (options.inlineCleanup && options.inlineCleanup !== 'semantic' ? 1 : 0) +
+    (options.normalizeMarkup === false ? 1 : 0);
+
+  const handleUnicodeChange = (value: string) => {
+    onOptionsChange({
+      ...options,
+      unicodeNormalization: value === 'NFC' || value === 'NFKC' ? value : undefined,
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className="btn-transition border-border/50"
+          size={isMobile ? "sm" : "default"}
+          disabled={disabled}
+        >
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Options{activeCount > 0 ? ` (${activeCount})` : ''}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56 max-h-[70vh] overflow-y-auto">
+        <DropdownMenuLabel>Compare by</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={options.granularity || 'line'}
+          onValueChange={(value) => onOptionsChange({ ...options, granularity: value as DiffGranularity })}
+        >
+          {GRANULARITY_OPTIONS.map(option => (
+            <DropdownMenuRadioItem
+              key={option.value}
+              value={option.value}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Algorithm</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={options.algorithm || 'myers'}
+          onValueChange={(value) => onOptionsChange({ ...options, algorithm: value as DiffAlgorithm })}
+        >
+          {ALGORITHM_OPTIONS.map(option => (
+            <DropdownMenuRadioItem
+              key={option.value}
+              value={option.value}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuCheckboxItem
+          checked={options.detectMoves !== false}
+          onCheckedChange={(checked) => onOptionsChange({ ...options, detectMoves: checked })}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Detect moved blocks
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Whitespace</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {WHITESPACE_OPTIONS.map(option => (
+          <DropdownMenuCheckboxItem
+            key={option.key}
+            checked={!!options[option.key]}
+            onCheckedChange={(checked) => onOptionsChange({ ...options, [option.key]: checked })}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {option.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuCheckboxItem
+          checked={!!options.compareLineEndings}
+          onCheckedChange={(checked) => onOptionsChange({ ...options, compareLineEndings: checked })}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Show line endings
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={options.normalizeMarkup !== false}
+          onCheckedChange={(checked) => onOptionsChange({ ...options, normalizeMarkup: checked })}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Ignore markup formatting
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Characters</DropdownMenuLabel>
+        <DropdownMenuCheckboxItem
+          checked={!!options.ignoreCase}
+          onCheckedChange={(checked) => onOptionsChange({ ...options, ignoreCase: checked })}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Ignore case
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuRadioGroup
+          value={options.unicodeNormalization || 'none'}
+          onValueChange={handleUnicodeChange}
+        >
+          {UNICODE_OPTIONS.map(option => (
+            <DropdownMenuRadioItem
+              key={option.value}
+              value={option.value}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Inline changes</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={options.inlineCleanup || 'semantic'}
+          onValueChange={(value) => onOptionsChange({ ...options, inlineCleanup: value as InlineCleanup })}
+        >
+          {INLINE_CLEANUP_OPTIONS.map(option => (
+            <DropdownMenuRadioItem
+              key={option.value}
+              value={option.value}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {option.label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default DiffOptionsMenu;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { CaseSensitive, ChevronDown, ChevronUp, Regex, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { type SearchOptions, type SearchScope } from '@/utils/diff/search';
+
+interface DiffSearchBarProps {
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  current: number | null; // Index of the current match, null before navigating
+  total: number;
+  error?: string; // Invalid regular expression
+  onStep: (step: 1 | -1) => void;
+  onClose: () => void;
+  inputRef?: React.RefObject<HTMLInputElement>;
+}
+
+const SCOPE_OPTIONS: { value: SearchScope; label: string }[] = [
+  { value: 'both', label: 'Both sides' },
+  { value: 'left', label: 'Original only' },
+  { value: 'right', label: 'Modified only' },
+  { value: 'changed', label: 'Changed lines' },
+];
+
+// Find bar of the diff view: query, regex and case toggles, scope, and match navigation
+const DiffSearchBar: React.FC<DiffSearchBarProps> = ({ options, onOptionsChange, current, total, error, onStep, onClose, inputRef }) => {
+  const update = (changes: Partial<SearchOptions>) => onOptionsChange({ ...options, ...changes });
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      onStep(event.shiftKey ? -1 : 1);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  let status = '';
+  if (error) status = 'Invalid regex';
+  else if (options.query) status = current === null ? `${total} ${total === 1 ? 'match' : 'matches'}` : `${current + 1} of ${total}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 p-1.5 border-b bg-slate-50 dark:bg-slate-800/75" role="search">
+      <div className="relative flex-1 min-w-[10rem]">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+        <Input
+          ref={inputRef}
+          autoFocus
+          value={options.query}
+          onChange={(event) => update({ query: event.target.value })}
+          onKeyDown={handleKeyDown}
+          placeholder={options.regex ? 'Search with a regular expression' : 'Search in the diff'}
+          className={`h-7 pl-7 text-xs font-mono ${error ? 'border-destructive focus-visible:ring-destructive' : ''}`}
+          aria-label="Search in the diff"
+          aria-invalid={!!error}
+          title={error}
+        />
+      </div>
+      <Toggle
+        size="sm"
+        pressed={options.caseSensitive}
+        onPressedChange={(caseSensitive) => update({ caseSensitive })}
+        className="h-7 w-7 p-0"
+        aria-label="Match case"
+        title="Match case"
+      >
+        <CaseSensitive className="h-4 w-4" />
+      </Toggle>
+      <Toggle
+        size="sm"
+        pressed={options.regex}
+        onPressedChange={(regex) => update({ regex })}
+        className="h-7 w-7 p-0"
+        aria-label="Use regular expression"
+        title="Use regular expression"
+      >
+        <Regex className="h-4 w-4" />
+      </Toggle>
+      <Select value={options.scope} onValueChange={(scope) => update({ scope: scope as SearchScope })}>
+        <SelectTrigger className="h-7 w-[125px] text-xs bg-background" aria-label="Lines searched">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SCOPE_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value} className="text-xs">{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className={`min-w-[4.5rem] text-center text-xs tabular-nums select-none ${error ? 'text-destructive' : 'text-muted-foreground'}`} aria-live="polite">
+        {status}
+      </span>
+      <Button variant="ghost" size="sm" onClick={() => onStep(-1)} disabled={total === 0} className="h-7 w-7 p-0" aria-label="Previous match" title="Previous match (Shift+Enter)">
+        <ChevronUp className="h-3.5 w-3.5" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => onStep(1)} disabled={total === 0} className="h-7 w-7 p-0" aria-label="Next match" title="Next match (Enter)">
+        <ChevronDown className="h-3.5 w-3.5" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={onClose} className="h-7 w-7 p-0" aria-label="Close search" title="Close search (Escape)">
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+};
+
+export default DiffSearchBar;
@@ -1,27 +1,91 @@
 import React, { useEffect, useState, useRef, useLayoutEffect, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
 import { FileDiff, Sparkle, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { computeLineDiff, detectLanguage, type FormattedDiff } from "@/utils/diff";
+import { detectLanguage, type FormattedDiff, type DiffOptions, type DiffProgress } from "@/utils/diff";
+import { computeLineDiffAsync, isAbortError } from "@/utils/diff/diffClient";
+import { diffStructuredTexts, supportsStructuralDiff } from "@/utils/diff/structuredFormats";
+import { prettyPrint } from "@/utils/diff/prettyPrint";
+import { type ComparisonMode, type StructuralDiff } from "@/utils/diff/types";
 import DualCodeView from "@/components/DualCodeView";
+import StructuralDiffView from "@/components/StructuralDiffView";
+import TableDiffView from "@/components/TableDiffView";
+import SetDiffView from "@/components/SetDiffView";
+import MarkdownDiffView from "@/components/MarkdownDiffView";
+import MarkdownViewSelector, { type MarkdownView } from "@/components/MarkdownViewSelector";
+import ComparisonModeSelector from "@/components/ComparisonModeSelector";
+import DiffOptionsMenu from "@/components/DiffOptionsMenu";
+import PrettyPrintMenu from "@/components/PrettyPrintMenu";
+import MaskSettings from "@/components/MaskSettings";
 import FormatSelector from "@/components/FormatSelector";
 import LineNumberedTextarea from "@/components/LineNumberedTextarea";
 import Footer from "@/components/Footer";
 import { useIsMobile } from "@/hooks/use-mobile";
 
+// Labels shown under the progress bar for each diff phase
+const PHASE_LABELS: Record<DiffProgress['phase'], string> = {
+  preparing: "Preparing",
+  diffing: "Comparing lines",
+  aligning: "Aligning lines",
+  "detecting-moves": "Detecting moved blocks",
+  inline: "Highlighting changes",
+  done: "Finishing",
+};
+
+// What each structural comparison ignores
+const STRUCTURAL_DESCRIPTIONS: Record<string, string> = {
+  json: "Key order and formatting are ignored.",
+  yaml: "Key order, comments and formatting are ignored, aliases and merge keys are expanded and documents are matched by kind and metadata.name.",
+  xml: "Attribute order, whitespace between elements, comments and self-closing style are ignored. Paths are XPath.",
+  html: "Parsed the way a browser would. Attribute order, whitespace between elements and comments are ignored. Paths are XPath.",
+};
+
+// Structural comparison for formats such as JSON, null when the language has none or a side does not parse
+const computeStructuralDiff = (language: string, leftText: string, rightText: string): StructuralDiff | null => {
+  if (!supportsStructuralDiff(language)) return null;
+  try {
+    return diffStructuredTexts(language, leftText, rightText);
+  } catch (error) {
+    console.warn("Structural comparison skipped:", error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+// Pretty-print one input for the line diff, the text as entered is kept when it does not parse
+const formatForComparison = (text: string, language: string, sortKeys: boolean, side: string): { text: string; error?: string } => {
+  try {
+    return { text: prettyPrint(text, language, { sortKeys }) };
+  } catch (error) {
+    return { text, error: `The ${side} text could not be formatted (${error instanceof Error ? error.message : error})` };
+  }
+};
+
 const DiffViewer: React.FC = () => {
   const [leftText, setLeftText] = useState("");
   const [rightText, setRightText] = useState("");
   const [diff, setDiff] = useState<FormattedDiff | null>(null);
+  const [structuralDiff, setStructuralDiff] = useState<StructuralDiff | null>(null);
+  const [tableTexts, setTableTexts] = useState<{ left: string; right: string } | null>(null); // Texts of the last CSV comparison
+  const [markdownTexts, setMarkdownTexts] = useState<{ left: string; right: string } | null>(null); // Texts of the last Markdown comparison
+  const [markdownView, setMarkdownView] = useState<MarkdownView>("rendered");
+  const [listTexts, setListTexts] = useState<{ left: string; right: string } | null>(null); // Texts of the last set comparison
+  const [comparedTexts, setComparedTexts] = useState<{ left: string; right: string } | null>(null); // Diffed texts, pretty-printed when enabled
+  const [prettyPrintEnabled, setPrettyPrintEnabled] = useState(false);
+  const [sortKeys, setSortKeys] = useState(false);
   const [language, setLanguage] = useState("plaintext");
+  const [mode, setMode] = useState<ComparisonMode>("lines");
+  const [diffOptions, setDiffOptions] = useState<DiffOptions>({});
   const [isComparing, setIsComparing] = useState(false);
+  const [progress, setProgress] = useState<DiffProgress | null>(null);
   const [textareaHeight, setTextareaHeight] = useState("300px");
   const { toast } = useToast();
   const isMobile = useIsMobile();
 
   const leftScrollRef = useRef<HTMLDivElement>(null);
   const rightScrollRef = useRef<HTMLDivElement>(null);
+  const compareControllerRef = useRef<AbortController | null>(null);
 
   // Calculate optimal textarea height based on screen size
   const calculateTextareaHeight = () => {
@@ -60,6 +124,11 @@ const DiffViewer: React.FC = () => {
     }
   }, [leftText, rightText]);
 
+  // Cancel a running comparison when the component unmounts
+  useEffect(() => {
+    return () => compareControllerRef.current?.abort();
+  }, []);
+
   // Function to compute differences
   const handleCompare = useCallback(async () => {
     if (!leftText && !rightText) {
@@ -71,12 +140,51 @@ const DiffViewer: React.FC = () => {
       return;
     }
 
+    // Only one comparison runs at a time
+    compareControllerRef.current?.abort();
+
+    // Set comparisons are cheap, SetDiffView computes them from the compared texts
+    if (mode === "set") {
+      compareControllerRef.current = null;
+      setIsComparing(false);
+      setDiff(null);
+      setStructuralDiff(null);
+      setTableTexts(null);
+      setMarkdownTexts(null);
+      setComparedTexts(null);
+      setListTexts({ left: leftText, right: rightText });
+      return;
+    }
+
+    const controller = new AbortController();
+    compareControllerRef.current = controller;
+
     // Ensure we're using the current input values when comparing
     try {
       setIsComparing(true);
-      const result = await computeLineDiff(leftText, rightText);
+      setProgress(null);
+      const [left, right] = prettyPrintEnabled
+        ? [formatForComparison(leftText, language, sortKeys, "original"), formatForComparison(rightText, language, sortKeys, "modified")]
+        : [{ text: leftText }, { text: rightText }];
+      const result = await computeLineDiffAsync(left.text, right.text, { ...diffOptions, language }, {
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
       setDiff(result);
+      setListTexts(null);
+      setComparedTexts({ left: left.text, right: right.text });
+      const formatError = left.error || right.error;
+      if (formatError) {
+        toast({
+          title: "Could not format input",
+          description: `${formatError}. Compared as entered instead.`,
+        });
+      }
+      setStructuralDiff(computeStructuralDiff(language, leftText, rightText));
+      setTableTexts(language === 'csv' ? { left: leftText, right: rightText } : null);
+      setMarkdownTexts(language === 'markdown' ? { left: leftText, right: rightText } : null);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error computing diff:", error);
       toast({
         title: "Error computing diff",
@@ -84,15 +192,36 @@ const DiffViewer: React.FC = () => {
         variant: "destructive",
       });
     } finally {
-      setIsComparing(false);
+      // A newer comparison owns the loading state
+      if (compareControllerRef.current === controller) {
+        compareControllerRef.current = null;
+        setIsComparing(false);
+        setProgress(null);
+      }
     }
-  }, [leftText, rightText, toast]);
+  }, [leftText, rightText, diffOptions, language, mode, prettyPrintEnabled, sortKeys, toast]);
+
+  // Function to cancel a running comparison
+  const handleCancel = () => {
+    compareControllerRef.current?.abort();
+    compareControllerRef.current = null;
+    setIsComparing(false);
+    setProgress(null);
+    toast({
+      title: "Comparison cancelled",
+    });
+  };
 
   // Function to clear inputs
   const handleClear = () => {
     setLeftText("");
     setRightText("");
     setDiff(null);
+    setStructuralDiff(null);
+    setTableTexts(null);
+    setMarkdownTexts(null);
+    setComparedTexts(null);
+    setListTexts(null);
   };
 
   // Functions to handle scroll synchronization between textareas
@@ -124,14 +253,39 @@ const DiffViewer: React.FC = () => {
 
       <div className={`${isMobile ? 'space-y-4' : 'space-y-8'}`}>
         {/* Diff View (appears only when diff exists) */}
-        {diff && (
+        {(diff || listTexts) && (
           <div className={`space-y-4 ${isMobile ? 'mb-6' : 'mb-10'} glass-card rounded-xl p-4 shadow-lg`}>
-            <DualCodeView
-              leftContent={leftText}
-              rightContent={rightText}
-              diff={diff}
-              language={language}
-            />
+            {markdownTexts && (
+              <div className="flex justify-end select-none">
+                <MarkdownViewSelector view={markdownView} onViewChange={setMarkdownView} />
+              </div>
+            )}
+            {markdownTexts && markdownView === "rendered" && (
+              <MarkdownDiffView oldText={markdownTexts.left} newText={markdownTexts.right} />
+            )}
+            {diff && !(markdownTexts && markdownView === "rendered") && (
+              <DualCodeView
+                leftContent={comparedTexts?.left ?? leftText}
+                rightContent={comparedTexts?.right ?? rightText}
+                diff={diff}
+                language={language}
+              />
+            )}
+            {structuralDiff && (
+              <StructuralDiffView
+                key={language}
+                diff={structuralDiff}
+                title={`${language.toUpperCase()} structure`}
+                description={STRUCTURAL_DESCRIPTIONS[language]}
+                defaultView={language === 'json' ? 'tree' : 'paths'}
+              />
+            )}
+            {tableTexts && (
+              <TableDiffView oldText={tableTexts.left} newText={tableTexts.right} />
+            )}
+            {listTexts && (
+              <SetDiffView oldText={listTexts.left} newText={listTexts.right} options={diffOptions} />
+            )}
           </div>
         )}
 
@@ -140,7 +294,40 @@ const DiffViewer: React.FC = () => {
             <Sparkle className={`${isMobile ? 'h-3.5' : 'h-5'} text-primary`} />
             Input Text
           </div>
-          <div className="flex gap-2 select-none">
+          <div className="flex flex-wrap justify-end gap-2 select-none">
+            <ComparisonModeSelector
+              mode={mode}
+              onModeChange={setMode}
+              disabled={isComparing}
+            />
+            <MaskSettings
+              options={diffOptions}
+              onOptionsChange={setDiffOptions}
+              disabled={isComparing}
+            />
+            <PrettyPrintMenu
+              language={language}
+              enabled={prettyPrintEnabled}
+              sortKeys={sortKeys}
+              onEnabledChange={setPrettyPrintEnabled}
+              onSortKeysChange={setSortKeys}
+              disabled={isComparing}
+            />
+            <DiffOptionsMenu
+              options={diffOptions}
+              onOptionsChange={setDiffOptions}
+              disabled={isComparing}
+            />
+            {isComparing && (
+              <Button
+                variant="outline"
+                onClick={handleCancel}
+                className="btn-transition border-border/50"
+                size={isMobile ? "sm" : "default"}
+              >
+                Cancel
+              </Button>
+            )}
             <Button
               variant="outline"
               onClick={handleClear}
@@ -168,6 +355,17 @@ const DiffViewer: React.FC = () => {
           </div>
         </div>
 
+        {/* Progress of the running comparison */}
+        {isComparing && (
+          <div className="space-y-1 select-none" aria-live="polite">
+            <Progress value={progress?.percent ?? 0} className="h-2" />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{progress ? PHASE_LABELS[progress.phase] : "Starting"}...</span>
+              <span>{progress?.percent ?? 0}%</span>
+            </div>
+          </div>
+        )}
+
         {/* Text Input View with Line Numbers - with responsive height */}
         <div className={`grid md:grid-cols-2 ${isMobile ? 'gap-4' : 'gap-8'}`}>
           <div className="space-y-3 glass-card rounded-xl p-4 transition-all duration-300 hover:shadow-xl w-full">
@@ -1,10 +1,36 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import CodeView from '@/components/CodeView';
 import { type FormattedDiff } from '@/utils/diff';
+import { buildUnifiedLines } from '@/utils/diff/unified';
+import {
+  DEFAULT_CONTEXT_LINES,
+  FOLD_EXPAND_STEP,
+  buildDisplayItems,
+  changedRows,
+  changedUnifiedRows,
+  expandFold,
+  findFoldRegions,
+  revealRow,
+  type DisplayItem,
+  type FoldDirection,
+  type FoldExpansion,
+  type FoldRegion,
+} from '@/utils/diff/folding';
+import { findHunks, stepIndex } from '@/utils/diff/hunks';
+import { compileSearch, matchRangesByRow, searchDiff, searchUnified, type SearchOptions } from '@/utils/diff/search';
 import DiffMinimap from '@/components/DiffMinimap';
-import { Copy, Maximize, Minimize } from 'lucide-react';
+import DiffLayoutSelector, { type DiffLayout } from '@/components/DiffLayoutSelector';
+import ContextLinesSelector from '@/components/ContextLinesSelector';
+import ChangeNavigator from '@/components/ChangeNavigator';
+import DiffSearchBar from '@/components/DiffSearchBar';
+import DiffDiagnosticsBanner from '@/components/DiffDiagnosticsBanner';
+import FileFormatNotice from '@/components/FileFormatNotice';
+import { Copy, Maximize, Minimize, Search, WrapText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { itemOffsets, scrollToDisplayRows } from '@/utils/virtualRows';
+import { wrappedRowSpans } from '@/utils/softWrap';
+import { type DiffResultWithLineNumbers } from '@/utils/diff/types';
 
 interface DualCodeViewProps {
   leftContent: string;
@@ -15,6 +41,33 @@ interface DualCodeViewProps {
 
 const DUAL_CODE_VIEW_MAX_HEIGHT = '70vh';
 
+const DEFAULT_SEARCH_OPTIONS: SearchOptions = { query: '', regex: false, caseSensitive: false, scope: 'both' };
+
+// Minimap entry of a fold bar: a visible row that is not a change
+const FOLD_MINIMAP_LINE: DiffResultWithLineNumbers = { value: '', lineNumber: -1 };
+
+// Lines of one pane in display order, fold bars included
+const displayedLines = (lines: DiffResultWithLineNumbers[], items: DisplayItem[]) =>
+  items.map(item => item.kind === 'row' ? lines[item.row] : FOLD_MINIMAP_LINE);
+
+// Values of the displayed items repeated for each visual row the items take when lines wrap
+function perVisualRow<T>(values: T[], items: DisplayItem[], rowSpans?: number[]): T[] {
+  if (!rowSpans) return values;
+  return values.flatMap((value, i) => {
+    const item = items[i];
+    return new Array<T>(item.kind === 'row' ? rowSpans[item.row] ?? 1 : 1).fill(value);
+  });
+}
+
+// Whether each displayed row has a search match, fold bars when a hidden row has one
+const displayedMarks = (rows: Map<number, unknown>, items: DisplayItem[]) => items.map(item => {
+  if (item.kind === 'row') return rows.has(item.row);
+  for (let row = item.from; row < item.to; row++) {
+    if (rows.has(row)) return true;
+  }
+  return false;
+});
+
 const DualCodeView: React.FC<DualCodeViewProps> = ({
   leftContent,
   rightContent,
@@ -25,10 +78,197 @@ const DualCodeView: React.FC<DualCodeViewProps> = ({
   const rightScrollRef = useRef<HTMLDivElement>(null);
   const leftHorizScrollRef = useRef<HTMLPreElement>(null);
   const rightHorizScrollRef = useRef<HTMLPreElement>(null);
+  const unifiedScrollRef = useRef<HTMLDivElement>(null);
+  const [layoutChoice, setLayoutChoice] = useState<DiffLayout | null>(null); // null until the user picks a layout
+  const [contextLines, setContextLines] = useState<number | null>(DEFAULT_CONTEXT_LINES); // null shows every line
+  const [foldExpansions, setFoldExpansions] = useState<Record<number, FoldExpansion>>({});
   const [expanded, setExpanded] = useState(false);
   const [showExpandButton, setShowExpandButton] = useState(false);
+  const [activeMoveId, setActiveMoveId] = useState<number | null>(null);
+  const [currentHunk, setCurrentHunk] = useState<number | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [currentMatch, setCurrentMatch] = useState<number | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [wrap, setWrap] = useState(false);
+  const [leftColumns, setLeftColumns] = useState<number | null>(null);
+  const [rightColumns, setRightColumns] = useState<number | null>(null);
+  const [unifiedColumns, setUnifiedColumns] = useState<number | null>(null);
   const isMobile = useIsMobile();
 
+  // Stacked panes are cramped on small screens, so unified is the default there
+  const layout = layoutChoice ?? (isMobile ? 'unified' : 'split');
+  const unifiedLines = useMemo(() => buildUnifiedLines(diff), [diff]);
+
+  // Unchanged rows beyond the context fold into bars. Both panes share the rows, so they fold alike.
+  const rowCount = layout === 'unified' ? unifiedLines.length : Math.max(diff.left.length, diff.right.length);
+  // Lines hidden by masks or ignored blank lines are not changes: they fold and the change counter skips them
+  const changed = useMemo(
+    () => layout === 'unified' ? changedUnifiedRows(unifiedLines) : changedRows(diff),
+    [diff, unifiedLines, layout]
+  );
+  const foldRegions = useMemo(
+    () => contextLines === null ? [] : findFoldRegions(changed, contextLines),
+    [changed, contextLines]
+  );
+  const hunks = useMemo(() => findHunks(changed), [changed]);
+  const displayItems = useMemo(
+    () => buildDisplayItems(rowCount, foldRegions, foldExpansions),
+    [rowCount, foldRegions, foldExpansions]
+  );
+
+  // Wrapped rows take as many visual rows as their longest side needs, so the panes keep the same height
+  const rowSpans = useMemo(() => {
+    if (!wrap) return undefined;
+    return layout === 'unified'
+      ? wrappedRowSpans([{ lines: unifiedLines, columns: unifiedColumns }], rowCount)
+      : wrappedRowSpans([{ lines: diff.left, columns: leftColumns }, { lines: diff.right, columns: rightColumns }], rowCount);
+  }, [wrap, layout, diff, unifiedLines, rowCount, leftColumns, rightColumns, unifiedColumns]);
+
+  // Minimaps follow the displayed rows so that their marks line up with the scroll position
+  const minimapLines = useMemo(() => layout === 'unified'
+    ? { unified: perVisualRow(displayedLines(unifiedLines, displayItems), displayItems, rowSpans), left: [], right: [] }
+    : {
+        unified: [],
+        left: perVisualRow(displayedLines(diff.left, displayItems), displayItems, rowSpans),
+        right: perVisualRow(displayedLines(diff.right, displayItems), displayItems, rowSpans),
+      },
+  [layout, diff, unifiedLines, displayItems, rowSpans]);
+  const minimapTotalLines = Math.max(
+    minimapLines.left.filter(line => !line.spacer).length,
+    minimapLines.right.filter(line => !line.spacer).length
+  );
+
+  // Search matches of the shown layout, highlighted only while the search bar is open
+  const searchError = useMemo(() => compileSearch(searchOptions).error, [searchOptions]);
+  const matches = useMemo(() => {
+    if (!searchOpen) return [];
+    return layout === 'unified' ? searchUnified(unifiedLines, searchOptions) : searchDiff(diff, searchOptions);
+  }, [searchOpen, layout, diff, unifiedLines, searchOptions]);
+  const searchRanges = useMemo(() => ({
+    left: matchRangesByRow(matches, 'left'),
+    right: matchRangesByRow(matches, 'right'),
+    unified: matchRangesByRow(matches, 'unified'),
+  }), [matches]);
+  const searchMarks = useMemo(() => ({
+    left: perVisualRow(displayedMarks(searchRanges.left, displayItems), displayItems, rowSpans),
+    right: perVisualRow(displayedMarks(searchRanges.right, displayItems), displayItems, rowSpans),
+    unified: perVisualRow(displayedMarks(searchRanges.unified, displayItems), displayItems, rowSpans),
+  }), [searchRanges, displayItems, rowSpans]);
+  const activeMatch = currentMatch === null ? undefined : matches[currentMatch];
+
+  // Fold regions start over for each diff, layout and context size
+  useEffect(() => {
+    setFoldExpansions({});
+  }, [foldRegions]);
+
+  const handleExpandFold = useCallback((region: FoldRegion, direction: FoldDirection) => {
+    setFoldExpansions(previous => expandFold(previous, region, direction, FOLD_EXPAND_STEP));
+  }, []);
+
+  // Center count rows of a pane from the displayed row on, in visual rows when lines wrap
+  const scrollToRows = useCallback((container: HTMLElement, items: DisplayItem[], row: number, count = 1) => {
+    const index = items.findIndex(item => item.kind === 'row' && item.row === row);
+    if (index === -1) return;
+    const offsets = itemOffsets(items, rowSpans);
+    scrollToDisplayRows(container, offsets[index], offsets[index + count] - offsets[index]);
+  }, [rowSpans]);
+
+  // Jump from one end of a moved block to the other, the synced pane follows
+  const handleMoveClick = useCallback((moveId: number, from: 'left' | 'right') => {
+    const isTarget = (line: { moved?: boolean; moveId?: number }) => line.moved && line.moveId === moveId;
+    let targetContainer: HTMLDivElement | null;
+    let targetRow: number;
+    if (layout === 'unified') {
+      targetContainer = unifiedScrollRef.current;
+      targetRow = unifiedLines.findIndex(line => isTarget(line) && line.side !== from);
+    } else {
+      targetContainer = from === 'left' ? rightScrollRef.current : leftScrollRef.current;
+      targetRow = (from === 'left' ? diff.right : diff.left).findIndex(isTarget);
+    }
+
+    setActiveMoveId(moveId);
+    if (targetRow === -1 || !targetContainer) return;
+
+    // Unfold the target first, the panes have its space by the next frame
+    const container = targetContainer;
+    const expansions = revealRow(foldRegions, foldExpansions, targetRow);
+    const items = buildDisplayItems(rowCount, foldRegions, expansions);
+    setFoldExpansions(expansions);
+    requestAnimationFrame(() => scrollToRows(container, items, targetRow));
+  }, [diff, layout, unifiedLines, rowCount, foldRegions, foldExpansions, scrollToRows]);
+
+  // Match navigation starts over with each search
+  useEffect(() => {
+    setCurrentMatch(null);
+  }, [matches]);
+
+  // Make the next or previous match current, unfold it and center it in its pane
+  const stepMatch = useCallback((step: 1 | -1) => {
+    const next = stepIndex(matches.length, currentMatch, step);
+    setCurrentMatch(next);
+    if (next === null) return;
+
+    const match = matches[next];
+    const container = layout === 'unified' ? unifiedScrollRef.current : match.side === 'right' ? rightScrollRef.current : leftScrollRef.current;
+    const expansions = revealRow(foldRegions, foldExpansions, match.row);
+    const items = buildDisplayItems(rowCount, foldRegions, expansions);
+    setFoldExpansions(expansions);
+    if (container) requestAnimationFrame(() => scrollToRows(container, items, match.row));
+  }, [matches, currentMatch, layout, rowCount, foldRegions, foldExpansions, scrollToRows]);
+
+  const closeSearch = useCallback(() => setSearchOpen(false), []);
+
+  // Navigation starts over when the changes are regrouped
+  useEffect(() => {
+    setCurrentHunk(null);
+  }, [hunks]);
+
+  // Make the next or previous change current and center it. The synced pane follows the scrolled one.
+  const stepChange = useCallback((step: 1 | -1) => {
+    const next = stepIndex(hunks.length, currentHunk, step);
+    setCurrentHunk(next);
+    if (next === null) return;
+
+    const container = layout === 'unified' ? unifiedScrollRef.current : leftScrollRef.current;
+    const hunk = hunks[next];
+    if (container) scrollToRows(container, displayItems, hunk.start, hunk.end - hunk.start);
+  }, [hunks, currentHunk, layout, displayItems, scrollToRows]);
+
+  // n / F7 go to the next change and p / Shift+F7 to the previous one, unless typing in a field
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || event.defaultPrevented) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return;
+
+      // / opens the search bar
+      if (event.key === '/') {
+        event.preventDefault();
+        setSearchOpen(true);
+        requestAnimationFrame(() => searchInputRef.current?.focus());
+        return;
+      }
+
+      let step: 1 | -1 | null = null;
+      if (event.key === 'F7') step = event.shiftKey ? -1 : 1;
+      else if (event.key === 'n' && !event.shiftKey) step = 1;
+      else if (event.key === 'p' && !event.shiftKey) step = -1;
+      if (step === null) return;
+
+      event.preventDefault();
+      stepChange(step);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stepChange]);
+
+  // Clear the linked moved block when a new diff is shown
+  useEffect(() => {
+    setActiveMoveId(null);
+  }, [diff]);
+
   // Set up scroll synchronization
   useEffect(() => {
     const leftVertElement = leftScrollRef.current;
@@ -75,37 +315,20 @@ const DualCodeView: React.FC<DualCodeViewProps> = ({
       rightVertElement.removeEventListener('scroll', handleRightScroll);
       rightHorizElement.removeEventListener('scroll', handleRightScroll);
     };
-  }, []);
+  }, [layout]);
 
   // Check content height to determine if expand button should be shown
   useEffect(() => {
     const checkContentHeight = () => {
-      const leftElement = leftScrollRef.current;
-      const rightElement = rightScrollRef.current;
-
-      let overflows = false;
-      if (leftElement) {
-        // Check if scrollHeight is greater than clientHeight for the left CodeView
-        // clientHeight will be based on DUAL_CODE_VIEW_MAX_HEIGHT when not expanded
-        const leftMaxHeightVh = parseInt(DUAL_CODE_VIEW_MAX_HEIGHT);
-        const leftMaxHeightPx = (leftMaxHeightVh / 100) * window.innerHeight;
-        if (leftElement.scrollHeight > leftMaxHeightPx) {
-          overflows = true;
-        }
-      }
-      if (!overflows && rightElement) {
-        // Check for the right CodeView if left doesn't overflow
-        const rightMaxHeightVh = parseInt(DUAL_CODE_VIEW_MAX_HEIGHT);
-        const rightMaxHeightPx = (rightMaxHeightVh / 100) * window.innerHeight;
-        if (rightElement.scrollHeight > rightMaxHeightPx) {
-          overflows = true;
-        }
-      }
+      // clientHeight is based on DUAL_CODE_VIEW_MAX_HEIGHT when not expanded
+      const maxHeightPx = (parseInt(DUAL_CODE_VIEW_MAX_HEIGHT) / 100) * window.innerHeight;
+      const overflows = [leftScrollRef, rightScrollRef, unifiedScrollRef]
+        .some(ref => ref.current && ref.current.scrollHeight > maxHeightPx);
       setShowExpandButton(overflows || expanded);
     };
 
     checkContentHeight();
-  }, [leftContent, rightContent, expanded, diff]);
+  }, [leftContent, rightContent, expanded, diff, layout, wrap]);
 
   // Calculate accurate diff statistics
   const calculateStats = () => {
@@ -113,33 +336,37 @@ const DualCodeView: React.FC<DualCodeViewProps> = ({
     const leftLines = Array.isArray(diff.left) ? diff.left : [];
     const rightLines = Array.isArray(diff.right) ? diff.right : [];
 
-    // Only count real lines (not spacers)
-    const realLeftLines = leftLines.filter(line => !line.spacer);
-    const realRightLines = rightLines.filter(line => !line.spacer);
+    // Only count real lines (not spacers or marker rows)
+    const realLeftLines = leftLines.filter(line => !line.spacer && !line.extraLine);
+    const realRightLines = rightLines.filter(line => !line.spacer && !line.extraLine);
+
+    // Lines ignored by a mask are shown but not counted as changes
+    const changedLeftLines = realLeftLines.filter(line => !line.masked);
+    const changedRightLines = realRightLines.filter(line => !line.masked);
 
     // Get removed lines from left side
-    const removedCount = realLeftLines.filter(line => line.removed && !line.modified).length;
+    const removedCount = changedLeftLines.filter(line => line.removed && !line.modified).length;
 
     // Get modified lines (count only once)
-    const modifiedCount = realLeftLines.filter(line => line.modified).length;
+    const modifiedCount = changedLeftLines.filter(line => line.modified).length;
 
     // Get added lines from right side (excluding those that are marked as modified)
-    const addedCount = realRightLines.filter(line => line.added && !line.modified).length;
+    const addedCount = changedRightLines.filter(line => line.added && !line.modified).length;
 
     // Total lines in each side (excluding spacers)
     const leftLinesCount = realLeftLines.length;
     const rightLinesCount = realRightLines.length;
 
-    // Calculate the maximum total lines for minimap consistency
-    const maxTotalLines = Math.max(leftLinesCount, rightLinesCount);
+    // Count distinct moved blocks
+    const movedCount = new Set(realLeftLines.filter(line => line.moved).map(line => line.moveId)).size;
 
     return {
+      movedCount,
       removedCount,
       addedCount,
       modifiedCount,
       leftLinesCount,
-      rightLinesCount,
-      maxTotalLines
+      rightLinesCount
     };
   };
 
@@ -168,6 +395,11 @@ const DualCodeView: React.FC<DualCodeViewProps> = ({
   // Render the summary header for original (left) content
   const renderLeftSummary = () => (
     <div className="flex items-center">
+      {stats.movedCount > 0 && (
+        <span className="inline-flex items-center bg-diff-moved-bg text-diff-moved-text px-3 py-1 rounded-full mr-2 font-medium">
+          <span className="mr-1">↔</span> {stats.movedCount} moved
+        </span>
+      )}
       {showRemovedIndicator && (
         <span className="inline-flex items-center bg-diff-removed-bg text-diff-removed-text px-3 py-1 rounded-full mr-2 font-medium">
           <span className="mr-1">-</span> {displayRemovedCount} {displayRemovedCount === 1 ? 'removal' : 'removals'}
@@ -241,123 +473,242 @@ const DualCodeView: React.FC<DualCodeViewProps> = ({
     </div>
   );
 
+  // Button turning soft wrap on or off
+  const renderWrapToggle = () => (
+    <Button
+      variant={wrap ? 'secondary' : 'outline'}
+      size="sm"
+      onClick={() => setWrap(!wrap)}
+      className="h-7 w-7 p-0"
+      aria-label={wrap ? 'Turn off line wrapping' : 'Wrap long lines'}
+      aria-pressed={wrap}
+      title="Wrap long lines"
+    >
+      <WrapText className="h-3.5 w-3.5" />
+    </Button>
+  );
+
+  // Button showing or hiding the search bar
+  const renderSearchToggle = () => (
+    <Button
+      variant={searchOpen ? 'secondary' : 'outline'}
+      size="sm"
+      onClick={() => setSearchOpen(!searchOpen)}
+      className="h-7 w-7 p-0"
+      aria-label={searchOpen ? 'Close search' : 'Search in the diff'}
+      aria-pressed={searchOpen}
+      title="Search in the diff (/)"
+    >
+      <Search className="h-3.5 w-3.5" />
+    </Button>
+  );
+
   return (
     <div id="diff-view-container" className="flex flex-col bg-background border rounded-md shadow-sm overflow-hidden">
-      {/* Summary header - only show on desktop or if expand button is needed on mobile */}
-      {(!isMobile || (isMobile && showExpandButton)) && (
-        <div className={`flex ${isMobile ? 'flex-col' : 'justify-between'} items-center text-sm p-2 border-b bg-slate-100 dark:bg-slate-800/95 sticky top-0 z-30`}>
-          {isMobile ? (
-            <div className="flex justify-center items-center w-full">
+      {/* Summary header, on mobile only the layout toggle and expand button */}
+      <div className={`flex ${isMobile ? 'flex-col' : 'justify-between'} items-center text-sm p-2 border-b bg-slate-100 dark:bg-slate-800/95 sticky top-0 z-30`}>
+        {isMobile ? (
+          <div className="flex justify-between items-center w-full">
+            <div className="flex items-center gap-2">
+              <DiffLayoutSelector layout={layout} onLayoutChange={setLayoutChoice} />
+              <ContextLinesSelector contextLines={contextLines} onContextLinesChange={setContextLines} />
+              <ChangeNavigator current={currentHunk} total={hunks.length} onStep={stepChange} />
+              {renderWrapToggle()}
+              {renderSearchToggle()}
+            </div>
+            {showExpandButton && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={toggleExpand}
+                className="flex items-center gap-1 text-xs py-1 px-2 h-auto"
+                aria-label={expanded ? "Minimize diff view" : "Expand diff view"}
+              >
+                {expanded ? (
+                  <>
+                    <Minimize className="h-3 w-3" /> Minimize
+                  </>
+                ) : (
+                  <>
+                    <Maximize className="h-3 w-3" /> Expand
+                  </>
+                )}
+              </Button>
+            )}
+          </div>
+        ) : (
+          <>
+            {renderLeftSummary()}
+            <div className="flex items-center gap-2">
+              {renderWrapToggle()}
+              {renderSearchToggle()}
+              <ChangeNavigator current={currentHunk} total={hunks.length} onStep={stepChange} />
+              <ContextLinesSelector contextLines={contextLines} onContextLinesChange={setContextLines} />
+              <DiffLayoutSelector layout={layout} onLayoutChange={setLayoutChoice} />
               {showExpandButton && (
                 <Button
                   variant="outline"
                   size="sm"
                   onClick={toggleExpand}
-                  className="flex items-center gap-1 text-xs py-1 px-2 h-auto"
+                  className="flex items-center gap-1"
                   aria-label={expanded ? "Minimize diff view" : "Expand diff view"}
                 >
                   {expanded ? (
                     <>
-                      <Minimize className="h-3 w-3" /> Minimize
+                      <Minimize className="h-3.5 w-3.5" /> Minimize
                     </>
                   ) : (
                     <>
-                      <Maximize className="h-3 w-3" /> Expand
+                      <Maximize className="h-3.5 w-3.5" /> Expand
                     </>
                   )}
                 </Button>
               )}
+              {renderRightSummary()}
             </div>
-          ) : (
-            <>
-              {renderLeftSummary()}
-              <div className="flex items-center gap-2">
-                {showExpandButton && (
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={toggleExpand}
-                    className="flex items-center gap-1"
-                    aria-label={expanded ? "Minimize diff view" : "Expand diff view"}
-                  >
-                    {expanded ? (
-                      <>
-                        <Minimize className="h-3.5 w-3.5" /> Minimize
-                      </>
-                    ) : (
-                      <>
-                        <Maximize className="h-3.5 w-3.5" /> Expand
-                      </>
-                    )}
-                  </Button>
-                )}
-                {renderRightSummary()}
-              </div>
-            </>
-          )}
-        </div>
+          </>
+        )}
+      </div>
+
+      {searchOpen && (
+        <DiffSearchBar
+          options={searchOptions}
+          onOptionsChange={setSearchOptions}
+          current={currentMatch}
+          total={matches.length}
+          error={searchError}
+          onStep={stepMatch}
+          onClose={closeSearch}
+          inputRef={searchInputRef}
+        />
       )}
 
-      {/* Diff view - responsive grid */}
-      <div className={`${isMobile ? 'flex flex-col' : 'grid grid-cols-2'} gap-0 relative`}>
-        <div className={`relative ${isMobile ? 'border-b' : 'border-r'}`}>
+      {/* Warning when a fallback degraded the diff */}
+      <DiffDiagnosticsBanner diagnostics={diff.diagnostics} />
+
+      {/* Line ending, BOM and final newline differences */}
+      <FileFormatNotice formatSummary={diff.formatSummary} />
+
+      {/* Diff view - one interleaved column, or a responsive grid of both panes */}
+      {layout === 'unified' ? (
+        <div className="relative">
           {isMobile && (
             <div className="flex justify-between items-center w-full p-1.5 bg-slate-50 dark:bg-slate-800/75 border-b select-none">
-              <span className="text-xs font-medium text-muted-foreground">Original</span>
               {renderMobileLeftSummary()}
+              {renderMobileRightSummary()}
             </div>
           )}
-          <div className="w-full">
-            <CodeView
-              scrollRef={leftScrollRef}
-              horizontalScrollRef={leftHorizScrollRef}
-              content={leftContent}
-              language={language}
-              lines={diff.left}
-              title="Original"
-              position="left"
-              isExpanded={expanded}
-              maxHeight={isMobile ? '40vh' : DUAL_CODE_VIEW_MAX_HEIGHT}
-            />
-          </div>
+          <CodeView
+            scrollRef={unifiedScrollRef}
+            content={rightContent}
+            language={language}
+            lines={unifiedLines}
+            displayItems={displayItems}
+            onExpandFold={handleExpandFold}
+            currentHunk={currentHunk === null ? undefined : hunks[currentHunk]}
+            searchRanges={searchRanges.unified}
+            currentSearchMatch={activeMatch}
+            wrap={wrap}
+            rowSpans={rowSpans}
+            onWrapColumnsChange={setUnifiedColumns}
+            title="Unified"
+            position="unified"
+            isExpanded={expanded}
+            activeMoveId={activeMoveId}
+            onMoveClick={handleMoveClick}
+            maxHeight={DUAL_CODE_VIEW_MAX_HEIGHT}
+          />
           <DiffMinimap
-            lines={diff.left}
-            containerRef={leftScrollRef}
-            position="left"
+            lines={minimapLines.unified}
+            searchMarks={searchMarks.unified}
+            containerRef={unifiedScrollRef}
+            position="unified"
             isExpanded={expanded}
-            maxTotalLines={stats.maxTotalLines}
           />
         </div>
+      ) : (
+        <div className={`${isMobile ? 'flex flex-col' : 'grid grid-cols-2'} gap-0 relative`}>
+          <div className={`relative ${isMobile ? 'border-b' : 'border-r'}`}>
+            {isMobile && (
+              <div className="flex justify-between items-center w-full p-1.5 bg-slate-50 dark:bg-slate-800/75 border-b select-none">
+                <span className="text-xs font-medium text-muted-foreground">Original</span>
+                {renderMobileLeftSummary()}
+              </div>
+            )}
+            <div className="w-full">
+              <CodeView
+                scrollRef={leftScrollRef}
+                horizontalScrollRef={leftHorizScrollRef}
+                content={leftContent}
+                language={language}
+                lines={diff.left}
+                displayItems={displayItems}
+                onExpandFold={handleExpandFold}
+                currentHunk={currentHunk === null ? undefined : hunks[currentHunk]}
+                searchRanges={searchRanges.left}
+                currentSearchMatch={activeMatch?.side === 'left' ? activeMatch : undefined}
+                wrap={wrap}
+                rowSpans={rowSpans}
+                onWrapColumnsChange={setLeftColumns}
+                title="Original"
+                position="left"
+                isExpanded={expanded}
+                activeMoveId={activeMoveId}
+                onMoveClick={(moveId) => handleMoveClick(moveId, 'left')}
+                maxHeight={isMobile ? '40vh' : DUAL_CODE_VIEW_MAX_HEIGHT}
+              />
+            </div>
+            <DiffMinimap
+              lines={minimapLines.left}
+              searchMarks={searchMarks.left}
+              containerRef={leftScrollRef}
+              position="left"
+              isExpanded={expanded}
+              maxTotalLines={minimapTotalLines}
+            />
+          </div>
 
-        <div className="relative">
-          {isMobile && (
-            <div className="flex justify-between items-center w-full p-1.5 bg-slate-50 dark:bg-slate-800/75 border-b select-none">
-              <span className="text-xs font-medium text-muted-foreground">Modified</span>
-              {renderMobileRightSummary()}
+          <div className="relative">
+            {isMobile && (
+              <div className="flex justify-between items-center w-full p-1.5 bg-slate-50 dark:bg-slate-800/75 border-b select-none">
+                <span className="text-xs font-medium text-muted-foreground">Modified</span>
+                {renderMobileRightSummary()}
+              </div>
+            )}
+            <div className="w-full">
+              <CodeView
+                scrollRef={rightScrollRef}
+                horizontalScrollRef={rightHorizScrollRef}
+                content={rightContent}
+                language={language}
+                lines={diff.right}
+                displayItems={displayItems}
+                onExpandFold={handleExpandFold}
+                currentHunk={currentHunk === null ? undefined : hunks[currentHunk]}
+                searchRanges={searchRanges.right}
+                currentSearchMatch={activeMatch?.side === 'right' ? activeMatch : undefined}
+                wrap={wrap}
+                rowSpans={rowSpans}
+                onWrapColumnsChange={setRightColumns}
+                title="Modified"
+                position="right"
+                isExpanded={expanded}
+                activeMoveId={activeMoveId}
+                onMoveClick={(moveId) => handleMoveClick(moveId, 'right')}
+                maxHeight={isMobile ? '40vh' : DUAL_CODE_VIEW_MAX_HEIGHT}
+              />
             </div>
-          )}
-          <div className="w-full">
-            <CodeView
-              scrollRef={rightScrollRef}
-              horizontalScrollRef={rightHorizScrollRef}
-              content={rightContent}
-              language={language}
-              lines={diff.right}
-              title="Modified"
+            <DiffMinimap
+              lines={minimapLines.right}
+              searchMarks={searchMarks.right}
+              containerRef={rightScrollRef}
               position="right"
               isExpanded={expanded}
-              maxHeight={isMobile ? '40vh' : DUAL_CODE_VIEW_MAX_HEIGHT}
+              maxTotalLines={minimapTotalLines}
             />
           </div>
-          <DiffMinimap
-            lines={diff.right}
-            containerRef={rightScrollRef}
-            position="right"
-            isExpanded={expanded}
-            maxTotalLines={stats.maxTotalLines}
-          />
         </div>
-      </div>
+      )}
 
       {/* Mobile floating expand button when needed */}
       {isMobile && showExpandButton && !expanded && (
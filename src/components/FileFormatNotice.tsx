@@ -0,0 +1,39 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { type FormatSummary } from '@/utils/diff';
+import { type TextFormat } from '@/utils/diff/types';
+
+interface FileFormatNoticeProps {
+  formatSummary?: FormatSummary;
+}
+
+// Short description of a text's format, e.g. "CRLF, BOM, no final newline"
+const describeFormat = (format: TextFormat) => {
+  const parts: string[] = [format.lineEnding === 'none' ? 'no line breaks' : format.lineEnding];
+  if (format.bom) parts.push('BOM');
+  if (!format.finalNewline) parts.push('no final newline');
+  if (format.trailingBlankLines > 0) {
+    parts.push(`${format.trailingBlankLines} trailing blank ${format.trailingBlankLines === 1 ? 'line' : 'lines'}`);
+  }
+  return parts.join(', ');
+};
+
+// List file-level differences that the line view cannot show
+const FileFormatNotice: React.FC<FileFormatNoticeProps> = ({ formatSummary }) => {
+  if (!formatSummary || formatSummary.differences.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-2 px-3 py-2 text-xs border-b bg-slate-50 text-muted-foreground dark:bg-slate-800/50">
+      <FileText className="h-4 w-4 flex-shrink-0 mt-px" />
+      <div>
+        <span className="font-medium text-foreground">File format differs. </span>
+        {formatSummary.differences.map(difference => difference.message).join('. ')}.
+        <span className="ml-1 opacity-80">
+          (Original: {describeFormat(formatSummary.old)}; modified: {describeFormat(formatSummary.new)})
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default FileFormatNotice;
@@ -30,6 +30,7 @@ const LANGUAGE_OPTIONS = [
   { value: 'rust', label: 'Rust' },
   { value: 'sql', label: 'SQL' },
   { value: 'ini', label: 'INI' },
+  { value: 'csv', label: 'CSV / TSV' },
 ];
 
 const FormatSelector: React.FC<FormatSelectorProps> = ({
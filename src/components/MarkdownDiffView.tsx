@@ -0,0 +1,175 @@
+import React, { useMemo } from 'react';
+import { CheckSquare, FileText, Image as ImageIcon, Square } from 'lucide-react';
+import { type MarkdownBlock, type MarkdownBlockDiff, type MarkdownChange, type MarkdownSegment } from '@/utils/diff/types';
+import { diffMarkdown } from '@/utils/diff/markdownDiff';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface MarkdownDiffViewProps {
+  oldText: string;
+  newText: string;
+}
+
+const INDENT_PX = 24;
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-bold border-b pb-1',
+  2: 'text-xl font-semibold border-b pb-1',
+  3: 'text-lg font-semibold',
+  4: 'text-base font-semibold',
+  5: 'text-sm font-semibold',
+  6: 'text-sm font-semibold text-muted-foreground',
+};
+
+const CHANGE_CLASSES: Record<MarkdownChange, string> = {
+  added: 'bg-diff-added-bg text-diff-added-text no-underline',
+  removed: 'bg-diff-removed-bg text-diff-removed-text line-through',
+};
+
+const STATUS_SIGNS: Record<MarkdownBlockDiff['status'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+  unchanged: '',
+};
+
+// Links to scripts and data are rendered as plain text
+const safeHref = (href: string) => /^\s*(javascript|vbscript|data):/i.test(href) ? undefined : href;
+
+function renderSegment(segment: MarkdownSegment, key: number): React.ReactNode {
+  let content: React.ReactNode = segment.text;
+  if (segment.image) {
+    content = (
+      <span className="inline-flex items-center gap-1 rounded border px-1 text-muted-foreground" title={segment.href}>
+        <ImageIcon className="h-3 w-3" />
+        {segment.text || 'image'}
+      </span>
+    );
+  }
+  if (segment.code) content = <code className="rounded bg-muted px-1 font-mono text-[0.9em]">{content}</code>;
+  if (segment.bold) content = <strong>{content}</strong>;
+  if (segment.italic) content = <em>{content}</em>;
+  if (segment.strike) content = <s>{content}</s>;
+  if (segment.href && !segment.image) {
+    content = (
+      <a href={safeHref(segment.href)} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+        {content}
+      </a>
+    );
+  }
+
+  if (segment.change === 'added') return <ins key={key} className={CHANGE_CLASSES.added}>{content}</ins>;
+  if (segment.change === 'removed') return <del key={key} className={CHANGE_CLASSES.removed}>{content}</del>;
+  return <React.Fragment key={key}>{content}</React.Fragment>;
+}
+
+const Inline: React.FC<{ segments?: MarkdownSegment[] }> = ({ segments = [] }) => <>{segments.map(renderSegment)}</>;
+
+const ListMarker: React.FC<{ block: MarkdownBlock }> = ({ block }) => {
+  if (block.checked !== undefined) {
+    const Icon = block.checked ? CheckSquare : Square;
+    return <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />;
+  }
+  return <span className="flex-shrink-0 min-w-[1rem] text-muted-foreground">{block.ordered ? block.marker : '•'}</span>;
+};
+
+const BlockContent: React.FC<{ diff: MarkdownBlockDiff }> = ({ diff }) => {
+  const { block } = diff;
+  const change = diff.status === 'added' || diff.status === 'removed' ? diff.status : undefined;
+
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${block.level}` as keyof JSX.IntrinsicElements;
+      return <Heading className={HEADING_CLASSES[block.level]}><Inline segments={diff.segments} /></Heading>;
+    }
+    case 'list-item':
+      return (
+        <div className="flex gap-2" style={{ paddingLeft: block.level * INDENT_PX }}>
+          <ListMarker block={block} />
+          <div className="min-w-0"><Inline segments={diff.segments} /></div>
+        </div>
+      );
+    case 'code':
+      return (
+        <pre className="relative rounded-md bg-muted/60 p-3 font-mono text-xs overflow-x-auto" style={{ marginLeft: block.level * INDENT_PX }}>
+          {block.language && <span className="absolute right-2 top-1 text-[10px] text-muted-foreground select-none">{block.language}</span>}
+          {diff.codeLines!.map((line, i) => (
+            <div key={i} className={line.change ? CHANGE_CLASSES[line.change] : ''}>{line.text || ' '}</div>
+          ))}
+        </pre>
+      );
+    case 'table':
+      return (
+        <div className="overflow-x-auto" style={{ marginLeft: block.level * INDENT_PX }}>
+          <table className="border-collapse text-xs">
+            <tbody>
+              {diff.rows!.map((row, rowIndex) => {
+                const Cell = rowIndex === 0 ? 'th' : 'td';
+                return (
+                  <tr key={rowIndex} className={row.change ? CHANGE_CLASSES[row.change] : ''}>
+                    {row.cells.map((cell, column) => (
+                      <Cell
+                        key={column}
+                        className={`border px-2 py-1 ${rowIndex === 0 ? 'font-semibold bg-muted/50' : ''}`}
+                        style={{ textAlign: block.align?.[column] ?? undefined }}
+                      >
+                        <Inline segments={cell} />
+                      </Cell>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr className={`my-2 border-t-2 ${change === 'added' ? 'border-diff-added-text' : change === 'removed' ? 'border-diff-removed-text' : 'border-border'}`} />;
+    default:
+      return <p style={{ paddingLeft: block.level * INDENT_PX }}><Inline segments={diff.segments} /></p>;
+  }
+};
+
+// Blockquote bars around a block, one per nesting level
+const Quoted: React.FC<{ depth: number; children: React.ReactNode }> = ({ depth, children }) =>
+  depth > 0
+    ? <div className="border-l-4 border-muted-foreground/30 pl-3 text-muted-foreground"><Quoted depth={depth - 1}>{children}</Quoted></div>
+    : <>{children}</>;
+
+// Both Markdown documents rendered as one, insertions and deletions highlighted inside the rendered blocks
+const MarkdownDiffView: React.FC<MarkdownDiffViewProps> = ({ oldText, newText }) => {
+  const isMobile = useIsMobile();
+  const diffs = useMemo(() => diffMarkdown(oldText, newText), [oldText, newText]);
+
+  const counts = useMemo(() => {
+    const result = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+    diffs.forEach(diff => result[diff.status]++);
+    return result;
+  }, [diffs]);
+
+  return (
+    <div className="flex flex-col bg-background border rounded-md shadow-sm overflow-hidden">
+      <div className="flex items-center gap-2 text-sm p-2 border-b bg-slate-100 dark:bg-slate-800/95 select-none">
+        <FileText className="h-4 w-4 text-muted-foreground" />
+        <span className="font-medium">Rendered Markdown</span>
+        {counts.added > 0 && <span className="bg-diff-added-bg text-diff-added-text px-2 py-0.5 rounded-full text-xs font-medium">+ {counts.added} blocks</span>}
+        {counts.removed > 0 && <span className="bg-diff-removed-bg text-diff-removed-text px-2 py-0.5 rounded-full text-xs font-medium">- {counts.removed} blocks</span>}
+        {counts.changed > 0 && <span className="bg-diff-changed-bg px-2 py-0.5 rounded-full text-xs font-medium">~ {counts.changed} blocks</span>}
+        {counts.added + counts.removed + counts.changed === 0 && <span className="text-xs text-muted-foreground">No changes</span>}
+      </div>
+      <div className={`max-h-[70vh] overflow-auto ${isMobile ? 'px-2' : 'px-4'} py-4 text-sm leading-relaxed space-y-2`}>
+        {diffs.map((diff, i) => (
+          <div key={i} className="flex gap-2">
+            <span className="w-3 flex-shrink-0 text-center font-bold text-muted-foreground select-none">{STATUS_SIGNS[diff.status]}</span>
+            <div className="min-w-0 flex-1">
+              <Quoted depth={diff.block.quote}>
+                <BlockContent diff={diff} />
+              </Quoted>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownDiffView;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+
+export type MarkdownView = 'source' | 'rendered';
+
+interface MarkdownViewSelectorProps {
+  view: MarkdownView;
+  onViewChange: (view: MarkdownView) => void;
+}
+
+const VIEW_OPTIONS: { value: MarkdownView; label: string; title: string }[] = [
+  { value: 'source', label: 'Source', title: 'Compare the Markdown source line by line' },
+  { value: 'rendered', label: 'Rendered', title: 'Compare the rendered documents with inline insertions and deletions' },
+];
+
+const MarkdownViewSelector: React.FC<MarkdownViewSelectorProps> = ({ view, onViewChange }) => (
+  <ToggleGroup
+    type="single"
+    size="sm"
+    value={view}
+    onValueChange={(value) => value && onViewChange(value as MarkdownView)}
+    className="gap-0 border border-border/50 rounded-md"
+    aria-label="Markdown view"
+  >
+    {VIEW_OPTIONS.map(option => (
+      <ToggleGroupItem key={option.value} value={option.value} className="px-3 text-xs" title={option.title}>
+        {option.label}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
+
+export default MarkdownViewSelector;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { EyeOff, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { type DiffMask, type DiffOptions, type MaskMode, type MaskPreset } from '@/utils/diff/types';
+import { MASK_PRESETS, createPresetMask, validateMaskPattern } from '@/utils/diff/masks';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface MaskSettingsProps {
+  options: DiffOptions;
+  onOptionsChange: (options: DiffOptions) => void;
+  disabled?: boolean;
+}
+
+const PRESETS = Object.keys(MASK_PRESETS) as MaskPreset[];
+
+// Toggle between replacing tokens and ignoring whole lines
+const ModeToggle: React.FC<{ mode: MaskMode; onChange: (mode: MaskMode) => void; disabled?: boolean }> = ({ mode, onChange, disabled }) => (
+  <ToggleGroup
+    type="single"
+    size="sm"
+    value={mode}
+    onValueChange={(value) => value && onChange(value as MaskMode)}
+    disabled={disabled}
+    className="gap-0 border rounded-md"
+  >
+    <ToggleGroupItem value="token" className="h-6 px-2 text-xs" title="Replace matching text with a placeholder">
+      Tokens
+    </ToggleGroupItem>
+    <ToggleGroupItem value="line" className="h-6 px-2 text-xs" title="Ignore lines containing a match">
+      Lines
+    </ToggleGroupItem>
+  </ToggleGroup>
+);
+
+const MaskSettings: React.FC<MaskSettingsProps> = ({ options, onOptionsChange, disabled }) => {
+  const isMobile = useIsMobile();
+  const [pattern, setPattern] = useState('');
+  const [mode, setMode] = useState<MaskMode>('token');
+  const [caseInsensitive, setCaseInsensitive] = useState(false);
+
+  const masks = options.masks || [];
+  const customMasks = masks.filter(mask => !mask.preset);
+  const error = pattern ? validateMaskPattern(pattern, caseInsensitive ? 'i' : undefined) : null;
+
+  const updateMasks = (next: DiffMask[]) => {
+    onOptionsChange({ ...options, masks: next.length > 0 ? next : undefined });
+  };
+
+  const togglePreset = (preset: MaskPreset, enabled: boolean) => {
+    const others = masks.filter(mask => mask.preset !== preset);
+    updateMasks(enabled ? [...others, createPresetMask(preset)] : others);
+  };
+
+  const setPresetMode = (preset: MaskPreset, presetMode: MaskMode) => {
+    updateMasks(masks.map(mask => (mask.preset === preset ? { ...mask, mode: presetMode } : mask)));
+  };
+
+  const addCustomMask = () => {
+    if (!pattern || error) return;
+    updateMasks([...masks, { pattern, flags: caseInsensitive ? 'i' : undefined, mode }]);
+    setPattern('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className="btn-transition border-border/50"
+          size={isMobile ? "sm" : "default"}
+          disabled={disabled}
+        >
+          <EyeOff className="mr-2 h-4 w-4" />
+          Masks{masks.length > 0 ? ` (${masks.length})` : ''}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3 text-sm">
+        <div>
+          <div className="font-medium">Presets</div>
+          <p className="text-xs text-muted-foreground">Matches are ignored when comparing and shown dimmed.</p>
+        </div>
+        {PRESETS.map(preset => {
+          const active = masks.find(mask => mask.preset === preset);
+          return (
+            <div key={preset} className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`mask-${preset}`}
+                  checked={!!active}
+                  onCheckedChange={(checked) => togglePreset(preset, checked === true)}
+                />
+                <Label htmlFor={`mask-${preset}`} className="text-sm font-normal">{MASK_PRESETS[preset].label}</Label>
+              </div>
+              <ModeToggle
+                mode={active?.mode || 'token'}
+                onChange={(presetMode) => setPresetMode(preset, presetMode)}
+                disabled={!active}
+              />
+            </div>
+          );
+        })}
+
+        <div className="border-t pt-3 font-medium">Custom patterns</div>
+        {customMasks.map((mask, index) => (
+          <div key={`${mask.pattern}-${index}`} className="flex items-center justify-between gap-2">
+            <code className="text-xs truncate" title={mask.pattern}>
+              /{mask.pattern}/{mask.flags || ''}
+            </code>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              <span className="text-xs text-muted-foreground">{mask.mode === 'line' ? 'Lines' : 'Tokens'}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => updateMasks(masks.filter(other => other !== mask))}
+                aria-label={`Remove mask ${mask.pattern}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <div className="space-y-2">
+          <Input
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addCustomMask()}
+            placeholder="Regular expression, e.g. build-[0-9a-f]{7}"
+            className="h-8 font-mono text-xs"
+            aria-invalid={!!error}
+          />
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="mask-case-insensitive"
+                checked={caseInsensitive}
+                onCheckedChange={(checked) => setCaseInsensitive(checked === true)}
+              />
+              <Label htmlFor="mask-case-insensitive" className="text-xs font-normal">Ignore case</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <ModeToggle mode={mode} onChange={setMode} />
+              <Button size="sm" className="h-7" onClick={addCustomMask} disabled={!pattern || !!error}>
+                <Plus className="mr-1 h-3.5 w-3.5" /> Add
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MaskSettings;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { WandSparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { supportsPrettyPrint } from '@/utils/diff/prettyPrint';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface PrettyPrintMenuProps {
+  language: string;
+  enabled: boolean;
+  sortKeys: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onSortKeysChange: (sortKeys: boolean) => void;
+  disabled?: boolean;
+}
+
+const FORMATTER_NAMES: Record<string, string> = {
+  json: 'JSON',
+  xml: 'XML',
+  html: 'HTML',
+  css: 'CSS',
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+};
+
+// Reformat both inputs before comparing, the formatter follows the selected language
+const PrettyPrintMenu: React.FC<PrettyPrintMenuProps> = ({
+  language,
+  enabled,
+  sortKeys,
+  onEnabledChange,
+  onSortKeysChange,
+  disabled,
+}) => {
+  const isMobile = useIsMobile();
+  const supported = supportsPrettyPrint(language);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={enabled ? "secondary" : "outline"}
+          className="btn-transition border-border/50"
+          size={isMobile ? "sm" : "default"}
+          disabled={disabled}
+        >
+          <WandSparkles className="mr-2 h-4 w-4" />
+          Format{enabled ? ' (on)' : ''}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Before comparing</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+          onSelect={(e) => e.preventDefault()}
+        >
+          Pretty-print both inputs
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={sortKeys}
+          onCheckedChange={onSortKeysChange}
+          onSelect={(e) => e.preventDefault()}
+          disabled={!enabled || language !== 'json'}
+        >
+          Sort JSON keys
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSeparator />
+        <div className="px-2 py-1.5 text-xs text-muted-foreground">
+          {supported
+            ? `Uses the ${FORMATTER_NAMES[language]} formatter. The editors keep your original text.`
+            : 'No formatter for the selected format, texts are compared as entered.'}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default PrettyPrintMenu;
@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { Copy } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { type DiffOptions } from '@/utils/diff/types';
+import { compareLineSets } from '@/utils/diff/lineSet';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface SetDiffViewProps {
+  oldText: string;
+  newText: string;
+  options: DiffOptions; // Case, Unicode, whitespace and mask options decide which lines are equal
+}
+
+interface SetColumnProps {
+  title: string;
+  lines: string[];
+  className: string; // Header colors
+}
+
+// One column of lines with its count and a copy button
+const SetColumn: React.FC<SetColumnProps> = ({ title, lines, className }) => (
+  <div className="flex flex-col border rounded-md overflow-hidden min-w-0">
+    <div className={`flex justify-between items-center px-3 py-1.5 text-xs font-medium border-b select-none ${className}`}>
+      <span>{title} ({lines.length})</span>
+      <button
+        onClick={() => navigator.clipboard.writeText(lines.join('\n'))}
+        className="p-1 opacity-80 hover:opacity-100 flex items-center"
+        aria-label={`Copy lines ${title.toLowerCase()}`}
+        disabled={lines.length === 0}
+      >
+        Copy <Copy className="h-3.5 w-3.5 ml-1" />
+      </button>
+    </div>
+    <div className="max-h-[50vh] overflow-auto py-1 font-mono text-xs leading-5">
+      {lines.length === 0 ? (
+        <div className="px-3 text-muted-foreground italic select-none">None</div>
+      ) : lines.map(line => (
+        <div key={line} className="px-3 whitespace-pre break-all">{line}</div>
+      ))}
+    </div>
+  </div>
+);
+
+// Two lists compared as sets: sorted, deduplicated lines only in the original, only in the modified and in both
+const SetDiffView: React.FC<SetDiffViewProps> = ({ oldText, newText, options }) => {
+  const [ignoreCase, setIgnoreCase] = useState(!!options.ignoreCase);
+  const isMobile = useIsMobile();
+
+  const comparison = useMemo(
+    () => compareLineSets(oldText, newText, { ...options, ignoreCase }),
+    [oldText, newText, options, ignoreCase]
+  );
+
+  const duplicates = [
+    comparison.leftDuplicates > 0 && `${comparison.leftDuplicates} in the original`,
+    comparison.rightDuplicates > 0 && `${comparison.rightDuplicates} in the modified text`,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className={`flex ${isMobile ? 'flex-col gap-2 items-start' : 'justify-between items-center'} text-sm select-none`}>
+        <div className="flex items-center gap-2">
+          <span className="font-medium">Set comparison</span>
+          <span className="text-muted-foreground text-xs">
+            Line order is ignored{duplicates.length > 0 ? `, duplicate lines removed: ${duplicates.join(', ')}` : ''}
+          </span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Checkbox id="set-ignore-case" checked={ignoreCase} onCheckedChange={(checked) => setIgnoreCase(checked === true)} />
+          <Label htmlFor="set-ignore-case" className="text-xs font-normal">Ignore case</Label>
+        </div>
+      </div>
+      <div className={`grid ${isMobile ? 'grid-cols-1' : 'grid-cols-3'} gap-3`}>
+        <SetColumn title="Only in original" lines={comparison.onlyLeft} className="bg-diff-removed-bg text-diff-removed-text" />
+        <SetColumn title="Only in modified" lines={comparison.onlyRight} className="bg-diff-added-bg text-diff-added-text" />
+        <SetColumn title="In both" lines={comparison.both} className="bg-slate-100 dark:bg-slate-800/95" />
+      </div>
+    </div>
+  );
+};
+
+export default SetDiffView;
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { type StructuralChange, type StructuralDiff, type StructuralNode } from '@/utils/diff/types';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+type StructuralView = 'tree' | 'paths';
+
+interface StructuralDiffViewProps {
+  diff: StructuralDiff;
+  title: string;
+  description?: string; // What the comparison ignores, shown under the header
+  defaultView?: StructuralView;
+}
+
+const MAX_PREVIEW_LENGTH = 80;
+const INDENT_PX = 16;
+
+const STATUS_CLASSES: Record<StructuralNode['status'], string> = {
+  added: 'bg-diff-added-bg text-diff-added-text',
+  removed: 'bg-diff-removed-bg text-diff-removed-text',
+  changed: 'bg-diff-changed-bg',
+  'contains-changes': '',
+  unchanged: 'text-muted-foreground',
+};
+
+const STATUS_SIGNS: Record<StructuralChange['kind'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+};
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null;
+
+// One-line preview of a value, containers show their size
+function previewValue(value: unknown): string {
+  if (Array.isArray(value)) return `[…] ${value.length} ${value.length === 1 ? 'item' : 'items'}`;
+  if (isContainer(value)) {
+    const size = Object.keys(value).length;
+    return `{…} ${size} ${size === 1 ? 'key' : 'keys'}`;
+  }
+  const text = value === undefined ? 'undefined' : JSON.stringify(value) ?? String(value);
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text;
+}
+
+// Entries of a container as [key label, value] pairs
+function containerEntries(value: Record<string, unknown> | unknown[]): [string, unknown][] {
+  return Array.isArray(value)
+    ? value.map((item, i) => [`[${i}]`, item])
+    : Object.entries(value);
+}
+
+interface RowProps {
+  depth: number;
+  label: string;
+  expandable: boolean;
+  expanded: boolean;
+  onToggle: () => void;
+  className?: string;
+  title?: string;
+  children: React.ReactNode;
+}
+
+const TreeRow: React.FC<RowProps> = ({ depth, label, expandable, expanded, onToggle, className, title, children }) => (
+  <div
+    className={`flex items-start gap-1 px-2 py-0.5 font-mono text-xs leading-5 ${expandable ? 'cursor-pointer' : ''} ${className || ''}`}
+    style={{ paddingLeft: depth * INDENT_PX + 8 }}
+    onClick={expandable ? onToggle : undefined}
+    title={title}
+  >
+    <span className="w-3.5 flex-shrink-0 mt-0.5">
+      {expandable && (expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />)}
+    </span>
+    <span className="font-medium flex-shrink-0">{label}:</span>
+    <span className="break-all">{children}</span>
+  </div>
+);
+
+// Unchanged value, containers expand on demand
+const ValueTree: React.FC<{ label: string; value: unknown; depth: number }> = ({ label, value, depth }) => {
+  const [expanded, setExpanded] = useState(false);
+  const expandable = isContainer(value);
+
+  return (
+    <>
+      <TreeRow
+        depth={depth}
+        label={label}
+        expandable={expandable}
+        expanded={expanded}
+        onToggle={() => setExpanded(!expanded)}
+        className={STATUS_CLASSES.unchanged}
+      >
+        {previewValue(value)}
+      </TreeRow>
+      {expandable && expanded && containerEntries(value).map(([key, item]) => (
+        <ValueTree key={key} label={key} value={item} depth={depth + 1} />
+      ))}
+    </>
+  );
+};
+
+// Node of the diff tree, branches with changes start expanded
+const DiffTreeNode: React.FC<{ node: StructuralNode; depth: number }> = ({ node, depth }) => {
+  const [expanded, setExpanded] = useState(true);
+
+  if (node.status === 'unchanged') {
+    return <ValueTree label={node.key} value={node.newValue} depth={depth} />;
+  }
+
+  if (node.children) {
+    return (
+      <>
+        <TreeRow
+          depth={depth}
+          label={node.key}
+          expandable
+          expanded={expanded}
+          onToggle={() => setExpanded(!expanded)}
+          title={node.path}
+        >
+          <span className="text-muted-foreground">{previewValue(node.newValue)}</span>
+        </TreeRow>
+        {expanded && node.children.map(child => (
+          <DiffTreeNode key={child.path + child.status} node={child} depth={depth + 1} />
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <TreeRow
+      depth={depth}
+      label={`${STATUS_SIGNS[node.status]} ${node.key}`}
+      expandable={false}
+      expanded={false}
+      onToggle={() => undefined}
+      className={STATUS_CLASSES[node.status]}
+      title={node.path}
+    >
+      {node.status === 'changed' ? (
+        <>
+          <span className="line-through text-diff-removed-text">{previewValue(node.oldValue)}</span>
+          <span className="mx-1">→</span>
+          <span className="text-diff-added-text">{previewValue(node.newValue)}</span>
+        </>
+      ) : (
+        previewValue(node.status === 'removed' ? node.oldValue : node.newValue)
+      )}
+    </TreeRow>
+  );
+};
+
+// Flat list of changes by path
+const ChangeList: React.FC<{ changes: StructuralChange[] }> = ({ changes }) => (
+  <div className="divide-y divide-border/50">
+    {changes.map(change => (
+      <div key={`${change.kind}:${change.path}`} className="flex items-start gap-2 px-3 py-1 font-mono text-xs leading-5">
+        <span className={`w-3 flex-shrink-0 font-bold ${change.kind === 'added' ? 'text-diff-added-text' : change.kind === 'removed' ? 'text-diff-removed-text' : ''}`}>
+          {STATUS_SIGNS[change.kind]}
+        </span>
+        <span className="font-medium flex-shrink-0">{change.path}</span>
+        <span className="text-muted-foreground break-all">
+          {change.kind === 'changed'
+            ? `${previewValue(change.oldValue)} → ${previewValue(change.newValue)}`
+            : previewValue(change.kind === 'removed' ? change.oldValue : change.newValue)}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+// Structural changes of two parsed documents as a tree or a list of paths
+const StructuralDiffView: React.FC<StructuralDiffViewProps> = ({ diff, title, description, defaultView = 'tree' }) => {
+  const [view, setView] = useState<StructuralView>(defaultView);
+  const isMobile = useIsMobile();
+
+  const counts = { added: 0, removed: 0, changed: 0 };
+  diff.changes.forEach(change => counts[change.kind]++);
+
+  const copyPaths = () => {
+    navigator.clipboard.writeText(diff.changes.map(change => `${STATUS_SIGNS[change.kind]} ${change.path}`).join('\n'));
+  };
+
+  return (
+    <div className="flex flex-col bg-background border rounded-md shadow-sm overflow-hidden">
+      <div className={`flex ${isMobile ? 'flex-col gap-2' : 'justify-between'} items-center text-sm p-2 border-b bg-slate-100 dark:bg-slate-800/95 select-none`}>
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{title}</span>
+          {diff.changes.length === 0 ? (
+            <span className="text-muted-foreground">No structural changes</span>
+          ) : (
+            <>
+              {counts.added > 0 && <span className="bg-diff-added-bg text-diff-added-text px-2 py-0.5 rounded-full text-xs font-medium">+ {counts.added}</span>}
+              {counts.removed > 0 && <span className="bg-diff-removed-bg text-diff-removed-text px-2 py-0.5 rounded-full text-xs font-medium">- {counts.removed}</span>}
+              {counts.changed > 0 && <span className="bg-diff-changed-bg px-2 py-0.5 rounded-full text-xs font-medium">~ {counts.changed}</span>}
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={view}
+            onValueChange={(value) => value && setView(value as StructuralView)}
+            className="gap-0 border rounded-md"
+          >
+            <ToggleGroupItem value="tree" className="h-7 px-2 text-xs">Tree</ToggleGroupItem>
+            <ToggleGroupItem value="paths" className="h-7 px-2 text-xs">Paths</ToggleGroupItem>
+          </ToggleGroup>
+          <button
+            onClick={copyPaths}
+            className="p-1 text-muted-foreground hover:text-foreground flex items-center text-xs"
+            aria-label="Copy changed paths"
+            disabled={diff.changes.length === 0}
+          >
+            Copy <Copy className="h-3.5 w-3.5 ml-1" />
+          </button>
+        </div>
+      </div>
+      {description && (
+        <div className="px-3 py-1.5 text-xs text-muted-foreground border-b select-none">{description}</div>
+      )}
+      <div className="max-h-[50vh] overflow-auto py-1">
+        {view === 'tree' ? <DiffTreeNode node={diff.root} depth={0} /> : <ChangeList changes={diff.changes} />}
+      </div>
+    </div>
+  );
+};
+
+export default StructuralDiffView;
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Table2 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { type TableColumn, type TableDelimiter, type TableRowDiff } from '@/utils/diff/types';
+import { detectDelimiter, diffTables, parseTable, suggestKeyColumn } from '@/utils/diff/tableDiff';
+import { useIsMobile } from '@/hooks/use-mobile';
+
+interface TableDiffViewProps {
+  oldText: string;
+  newText: string;
+}
+
+type DelimiterChoice = TableDelimiter | 'auto';
+
+const DELIMITER_OPTIONS: { value: DelimiterChoice; label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+  { value: '|', label: 'Pipe' },
+];
+
+const ROW_CLASSES: Record<TableRowDiff['status'], string> = {
+  added: 'bg-diff-added-bg text-diff-added-text',
+  removed: 'bg-diff-removed-bg text-diff-removed-text',
+  changed: '',
+  unchanged: 'text-muted-foreground',
+};
+
+const COLUMN_CLASSES: Record<TableColumn['status'], string> = {
+  added: 'bg-diff-added-bg text-diff-added-text',
+  removed: 'bg-diff-removed-bg text-diff-removed-text line-through',
+  unchanged: '',
+};
+
+const ROW_SIGNS: Record<TableRowDiff['status'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+  unchanged: '',
+};
+
+// Row label: key values when matched by key, otherwise original → modified row numbers
+const rowLabel = (row: TableRowDiff) => {
+  if (row.key !== undefined) return row.key;
+  if (row.oldRow === row.newRow || row.newRow === undefined) return String(row.oldRow);
+  if (row.oldRow === undefined) return String(row.newRow);
+  return `${row.oldRow}→${row.newRow}`;
+};
+
+// CSV/TSV comparison as a grid: rows matched by key columns, changed cells show both values
+const TableDiffView: React.FC<TableDiffViewProps> = ({ oldText, newText }) => {
+  const [delimiter, setDelimiter] = useState<DelimiterChoice>('auto');
+  const [keyColumns, setKeyColumns] = useState<string[] | null>(null); // null until the user picks keys
+  const [changedOnly, setChangedOnly] = useState(false);
+  const isMobile = useIsMobile();
+
+  const parsed = useMemo(() => {
+    const separator = delimiter === 'auto' ? detectDelimiter(oldText || newText) : delimiter;
+    try {
+      return { old: parseTable(oldText, separator, 'Original'), new: parseTable(newText, separator, 'Modified') };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }, [oldText, newText, delimiter]);
+
+  const tables = 'error' in parsed ? null : parsed;
+  const sharedColumns = tables ? tables.old.header.filter(name => tables.new.header.includes(name)) : [];
+  const suggestedKey = useMemo(() => tables ? suggestKeyColumn(tables.old, tables.new) : undefined, [tables]);
+  const selectedKeys = useMemo(() => keyColumns ?? (suggestedKey ? [suggestedKey] : []), [keyColumns, suggestedKey]);
+  const tableDiff = useMemo(() => tables ? diffTables(tables.old, tables.new, selectedKeys) : null, [tables, selectedKeys]);
+
+  const visibleRows = tableDiff
+    ? tableDiff.rows.filter(row => !changedOnly || row.status !== 'unchanged')
+    : [];
+
+  return (
+    <div className="flex flex-col bg-background border rounded-md shadow-sm overflow-hidden">
+      <div className={`flex ${isMobile ? 'flex-col gap-2' : 'justify-between'} items-center text-sm p-2 border-b bg-slate-100 dark:bg-slate-800/95 select-none`}>
+        <div className="flex items-center gap-2">
+          <Table2 className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">Table</span>
+          {tableDiff && (
+            <>
+              {tableDiff.summary.addedRows > 0 && <span className="bg-diff-added-bg text-diff-added-text px-2 py-0.5 rounded-full text-xs font-medium">+ {tableDiff.summary.addedRows} rows</span>}
+              {tableDiff.summary.removedRows > 0 && <span className="bg-diff-removed-bg text-diff-removed-text px-2 py-0.5 rounded-full text-xs font-medium">- {tableDiff.summary.removedRows} rows</span>}
+              {tableDiff.summary.changedRows > 0 && (
+                <span className="bg-diff-changed-bg px-2 py-0.5 rounded-full text-xs font-medium">
+                  ~ {tableDiff.summary.changedRows} rows, {tableDiff.summary.changedCells} cells
+                </span>
+              )}
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1.5">
+            <Checkbox id="table-changed-only" checked={changedOnly} onCheckedChange={(checked) => setChangedOnly(checked === true)} />
+            <Label htmlFor="table-changed-only" className="text-xs font-normal">Changed rows only</Label>
+          </div>
+          <Select value={delimiter} onValueChange={(value) => setDelimiter(value as DelimiterChoice)}>
+            <SelectTrigger className="h-7 w-[130px] text-xs" aria-label="Delimiter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DELIMITER_OPTIONS.map(option => (
+                <SelectItem key={option.label} value={option.value} className="text-xs">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {'error' in parsed ? (
+        <div className="px-3 py-2 text-xs text-destructive">{parsed.error}</div>
+      ) : tableDiff && (
+        <>
+          <div className="flex flex-wrap items-center gap-1.5 px-3 py-1.5 text-xs border-b select-none">
+            <span className="text-muted-foreground mr-1">Match rows by</span>
+            {sharedColumns.length > 0 ? (
+              <ToggleGroup
+                type="multiple"
+                size="sm"
+                value={selectedKeys}
+                onValueChange={setKeyColumns}
+                className="flex-wrap justify-start gap-1"
+              >
+                {sharedColumns.map(name => (
+                  <ToggleGroupItem key={name} value={name} className="h-6 px-2 text-xs border">{name}</ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            ) : (
+              <span className="text-muted-foreground">no shared columns</span>
+            )}
+            {selectedKeys.length === 0 && <span className="text-muted-foreground">(row content)</span>}
+          </div>
+
+          {(tableDiff.summary.addedColumns.length > 0 || tableDiff.summary.removedColumns.length > 0 || tableDiff.summary.duplicateKeys.length > 0) && (
+            <div className="flex flex-col gap-0.5 px-3 py-1.5 text-xs border-b text-muted-foreground">
+              {tableDiff.summary.addedColumns.length > 0 && (
+                <span><span className="text-diff-added-text font-medium">Added columns:</span> {tableDiff.summary.addedColumns.join(', ')}</span>
+              )}
+              {tableDiff.summary.removedColumns.length > 0 && (
+                <span><span className="text-diff-removed-text font-medium">Removed columns:</span> {tableDiff.summary.removedColumns.join(', ')}</span>
+              )}
+              {tableDiff.summary.duplicateKeys.length > 0 && (
+                <span className="flex items-center gap-1">
+                  <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />
+                  Keys used by several rows, matched in order: {tableDiff.summary.duplicateKeys.slice(0, 5).join(', ')}
+                  {tableDiff.summary.duplicateKeys.length > 5 && '…'}
+                </span>
+              )}
+            </div>
+          )}
+
+          <div className="max-h-[50vh] overflow-auto">
+            <table className="w-full border-collapse font-mono text-xs">
+              <thead className="sticky top-0 bg-slate-50 dark:bg-slate-900 z-10">
+                <tr>
+                  <th className="w-4 border-b" />
+                  <th className="px-2 py-1 text-left font-medium border-b whitespace-nowrap">
+                    {tableDiff.keyColumns.length > 0 ? tableDiff.keyColumns.join(' / ') : 'Row'}
+                  </th>
+                  {tableDiff.columns.map(column => (
+                    <th key={column.name} className={`px-2 py-1 text-left font-medium border-b whitespace-nowrap ${COLUMN_CLASSES[column.status]}`}>
+                      {column.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map(row => (
+                  <tr key={`${row.oldRow}:${row.newRow}`} className={`border-b border-border/50 ${ROW_CLASSES[row.status]}`}>
+                    <td className="px-1 text-center font-bold">{ROW_SIGNS[row.status]}</td>
+                    <td className="px-2 py-0.5 whitespace-nowrap font-medium">{rowLabel(row)}</td>
+                    {row.cells.map((cell, i) => (
+                      <td
+                        key={tableDiff.columns[i].name}
+                        className={`px-2 py-0.5 align-top whitespace-pre-wrap ${cell.changed ? 'bg-diff-changed-bg' : ''} ${row.status === 'changed' || row.status === 'unchanged' ? COLUMN_CLASSES[tableDiff.columns[i].status] : ''}`}
+                      >
+                        {cell.changed ? (
+                          <>
+                            <span className="line-through text-diff-removed-text">{cell.oldValue}</span>
+                            <span className="mx-1">→</span>
+                            <span className="text-diff-added-text">{cell.newValue}</span>
+                          </>
+                        ) : (
+                          cell.newValue ?? cell.oldValue
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleRows.length === 0 && (
+              <div className="px-3 py-2 text-xs text-muted-foreground">No row changes</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TableDiffView;
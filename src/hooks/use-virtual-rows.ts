@@ -0,0 +1,47 @@
+import * as React from "react"
+import { visibleRowRange, type RowRange } from "@/utils/virtualRows"
+
+// Rows of a list that are on screen, all rows when not enabled. Rows are one row height tall, or take
+// the visual rows given by offsets. The list scrolls in its container, or with the page when the container is expanded.
+export function useVirtualRows(
+  containerRef: React.RefObject<HTMLElement>,
+  rowsRef: React.RefObject<HTMLElement>,
+  rowCount: number,
+  enabled: boolean,
+  offsets?: number[]
+): RowRange {
+  const [range, setRange] = React.useState<RowRange>(() => visibleRowRange(rowCount, 0, window.innerHeight))
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const container = containerRef.current
+    const update = () => {
+      const rows = rowsRef.current
+      if (!rows || !container) return
+      const rowsTop = rows.getBoundingClientRect().top
+      const bounds = container.getBoundingClientRect()
+      const top = Math.max(bounds.top, 0)
+      const bottom = Math.min(bounds.bottom, window.innerHeight)
+      const next = visibleRowRange(rowCount, top - rowsTop, bottom - rowsTop, offsets)
+      setRange(previous => previous.start === next.start && previous.end === next.end ? previous : next)
+    }
+
+    update()
+    container?.addEventListener("scroll", update, { passive: true })
+    window.addEventListener("scroll", update, { passive: true })
+    window.addEventListener("resize", update)
+    const observer = typeof ResizeObserver !== "undefined" ? new ResizeObserver(update) : null
+    if (container) observer?.observe(container)
+
+    return () => {
+      container?.removeEventListener("scroll", update)
+      window.removeEventListener("scroll", update)
+      window.removeEventListener("resize", update)
+      observer?.disconnect()
+    }
+  }, [containerRef, rowsRef, rowCount, enabled, offsets])
+
+  if (!enabled) return { start: 0, end: rowCount }
+  return { start: Math.min(range.start, rowCount), end: Math.min(range.end, rowCount) }
+}
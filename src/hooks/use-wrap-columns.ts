@@ -0,0 +1,41 @@
+import * as React from "react"
+
+// Characters measured to get the width of one
+const PROBE_LENGTH = 100
+
+// Characters of the code font that fit in a row of a pane, null when not enabled or not laid out.
+// Measured again whenever the pane is resized.
+export function useWrapColumns(
+  paneRef: React.RefObject<HTMLElement>,
+  codeRef: React.RefObject<HTMLElement>,
+  enabled: boolean
+): number | null {
+  const [columns, setColumns] = React.useState<number | null>(null)
+
+  React.useEffect(() => {
+    const pane = paneRef.current
+    const code = codeRef.current
+    if (!enabled || !pane || !code) return
+
+    const probe = document.createElement("span")
+    probe.textContent = "0".repeat(PROBE_LENGTH)
+    probe.style.cssText = "position: absolute; visibility: hidden; white-space: pre;"
+
+    const measure = () => {
+      code.appendChild(probe)
+      const charWidth = probe.getBoundingClientRect().width / PROBE_LENGTH
+      probe.remove()
+
+      const style = window.getComputedStyle(pane)
+      const width = pane.clientWidth - parseFloat(style.paddingLeft || "0") - parseFloat(style.paddingRight || "0")
+      setColumns(charWidth > 0 && width > 0 ? Math.max(1, Math.floor(width / charWidth)) : null)
+    }
+
+    measure()
+    const observer = typeof ResizeObserver !== "undefined" ? new ResizeObserver(measure) : null
+    observer?.observe(pane)
+    return () => observer?.disconnect()
+  }, [paneRef, codeRef, enabled])
+
+  return enabled ? columns : null
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createDiagnostics, createPhaseTimer, recordFallback } from '@/utils/diff/diagnostics';
+import { computeLineDiff } from '@/utils/diff/index';
+import * as lineAlgorithms from '@/utils/diff/lineAlgorithms';
+
+vi.mock('@/utils/diff/lineAlgorithms', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/utils/diff/lineAlgorithms')>();
+  return { ...actual, diffLinesWithAlgorithm: vi.fn(actual.diffLinesWithAlgorithm) };
+});
+
+describe('Diff Diagnostics', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('recordFallback', () => {
+    it('should count repeated fallbacks of the same kind once', () => {
+      const diagnostics = createDiagnostics();
+
+      recordFallback(diagnostics, { kind: 'chunked-inline-diff', message: 'a', degraded: false, threshold: 10, value: 12 });
+      recordFallback(diagnostics, { kind: 'chunked-inline-diff', message: 'b', degraded: false, threshold: 10, value: 20 });
+
+      expect(diagnostics.fallbacks).toHaveLength(1);
+      expect(diagnostics.fallbacks[0]).toMatchObject({ count: 2, value: 20, threshold: 10 });
+      expect(diagnostics.degraded).toBe(false);
+    });
+
+    it('should mark the diagnostics as degraded', () => {
+      const diagnostics = createDiagnostics();
+      recordFallback(diagnostics, { kind: 'empty-changes', message: 'x', degraded: true });
+
+      expect(diagnostics.degraded).toBe(true);
+    });
+
+    it('should ignore missing diagnostics', () => {
+      expect(() => recordFallback(undefined, { kind: 'empty-changes', message: 'x', degraded: true })).not.toThrow();
+    });
+  });
+
+  describe('createPhaseTimer', () => {
+    it('should time each phase and the total', () => {
+      const diagnostics = createDiagnostics();
+      const now = vi.spyOn(performance, 'now');
+      now.mockReturnValueOnce(0).mockReturnValueOnce(0).mockReturnValueOnce(5).mockReturnValueOnce(12);
+
+      const timePhase = createPhaseTimer(diagnostics);
+      timePhase('preparing');
+      timePhase('diffing');
+      timePhase('done');
+
+      expect(diagnostics.timings).toEqual({ preparing: 5, diffing: 7 });
+      expect(diagnostics.totalTime).toBe(12);
+    });
+  });
+
+  describe('computeLineDiff diagnostics', () => {
+    it('should report no fallbacks for a regular diff', () => {
+      const result = computeLineDiff('a\nb\nc', 'a\nB\nc');
+
+      expect(result.diagnostics?.fallbacks).toEqual([]);
+      expect(result.diagnostics?.degraded).toBe(false);
+      expect(result.diagnostics?.timings.diffing).toBeGreaterThanOrEqual(0);
+      expect(result.diagnostics?.totalTime).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report a degraded result when the line diff fails', () => {
+      vi.mocked(lineAlgorithms.diffLinesWithAlgorithm).mockImplementationOnce(() => {
+        throw new Error('boom');
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = computeLineDiff('a\nb', 'a\nc');
+
+      expect(result.diagnostics?.degraded).toBe(true);
+      expect(result.diagnostics?.fallbacks[0].kind).toBe('line-diff-error');
+      expect(result.diagnostics?.fallbacks[0].message).toContain('boom');
+      expect(result.left.every(line => line.removed || line.spacer)).toBe(true);
+    });
+
+    it('should report a degraded result when the line diff returns nothing', () => {
+      vi.mocked(lineAlgorithms.diffLinesWithAlgorithm).mockImplementationOnce(() => []);
+
+      const result = computeLineDiff('a', 'b');
+
+      expect(result.diagnostics?.fallbacks.map(fallback => fallback.kind)).toEqual(['empty-changes']);
+    });
+
+    it('should report the chunked line diff with its threshold', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const content = Array(6000).fill('x'.repeat(50)).join('\n');
+
+      const result = computeLineDiff(content, content + '\nextra');
+      const fallback = result.diagnostics?.fallbacks.find(entry => entry.kind === 'chunked-line-diff');
+
+      expect(fallback).toMatchObject({ degraded: false, threshold: 500000 });
+      expect(fallback?.value).toBeGreaterThan(500000);
+      expect(result.diagnostics?.degraded).toBe(false);
+    });
+
+    it('should not report the chunked line diff when no lines are skipped', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const content = Array(6).fill('x'.repeat(100000)).join('\n');
+
+      const result = computeLineDiff(content, content + '\nextra');
+
+      expect(result.diagnostics?.fallbacks.map(fallback => fallback.kind)).not.toContain('chunked-line-diff');
+    });
+
+    it('should report chunked inline diffs of very long lines', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const oldLine = 'p'.repeat(30000) + ' old';
+      const newLine = 'p'.repeat(30000) + ' new';
+
+      const result = computeLineDiff(oldLine, newLine);
+      const fallback = result.diagnostics?.fallbacks.find(entry => entry.kind === 'chunked-inline-diff');
+
+      expect(fallback).toMatchObject({ degraded: false, threshold: 50000 });
+      expect(result.diagnostics?.degraded).toBe(false);
+    });
+  });
+});
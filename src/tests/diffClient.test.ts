@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { computeLineDiffAsync, isAbortError, terminateDiffWorker } from '@/utils/diff/diffClient';
+import { runDiffRequest, type DiffWorkerRequest, type DiffWorkerResponse } from '@/utils/diff/workerProtocol';
+import { computeLineDiff } from '@/utils/diff/index';
+import type { DiffProgress, FormattedDiff } from '@/utils/diff/types';
+
+// Worker stand-in that runs the shared request handler asynchronously
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: { data: DiffWorkerResponse }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  terminated = false;
+  received: DiffWorkerRequest[] = [];
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: DiffWorkerRequest) {
+    this.received.push(request);
+    setTimeout(() => {
+      if (this.terminated) return;
+      runDiffRequest(request, response => this.onmessage?.({ data: response }));
+    }, 5);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+// Timings in the diagnostics differ between runs
+const withoutDiagnostics = ({ left, right }: FormattedDiff) => ({ left, right });
+
+const oldText = 'line one\nline two\nline three';
+const newText = 'line one\nline 2\nline three\nline four';
+
+describe('Diff Client', () => {
+  const originalWorker = globalThis.Worker;
+
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    globalThis.Worker = FakeWorker as unknown as typeof Worker;
+  });
+
+  afterEach(() => {
+    terminateDiffWorker();
+    globalThis.Worker = originalWorker;
+  });
+
+  describe('runDiffRequest', () => {
+    it('should post progress and then the result', () => {
+      const responses: DiffWorkerResponse[] = [];
+      runDiffRequest({ id: 7, oldText, newText, options: {} }, response => responses.push(response));
+
+      const last = responses[responses.length - 1];
+      expect(last.type).toBe('result');
+      expect(responses.every(response => response.id === 7)).toBe(true);
+
+      const percents = responses
+        .filter(response => response.type === 'progress')
+        .map(response => (response as { progress: DiffProgress }).progress.percent);
+      expect(percents.length).toBeGreaterThan(0);
+      expect(percents).toEqual([...percents].sort((a, b) => a - b));
+      expect(percents[percents.length - 1]).toBe(100);
+    });
+  });
+
+  describe('computeLineDiffAsync', () => {
+    it('should resolve with the same result as computeLineDiff', async () => {
+      const progress: DiffProgress[] = [];
+      const result = await computeLineDiffAsync(oldText, newText, {}, { onProgress: p => progress.push(p) });
+
+      expect(withoutDiagnostics(result)).toEqual(withoutDiagnostics(computeLineDiff(oldText, newText)));
+      expect(progress.length).toBeGreaterThan(0);
+      expect(progress[progress.length - 1].phase).toBe('done');
+    });
+
+    it('should reuse one worker for consecutive requests', async () => {
+      await computeLineDiffAsync(oldText, newText);
+      await computeLineDiffAsync(newText, oldText);
+
+      expect(FakeWorker.instances).toHaveLength(1);
+      expect(FakeWorker.instances[0].received).toHaveLength(2);
+    });
+
+    it('should reject with an AbortError and terminate the worker on abort', async () => {
+      const controller = new AbortController();
+      const promise = computeLineDiffAsync(oldText, newText, {}, { signal: controller.signal });
+      controller.abort();
+
+      const error = await promise.catch(e => e);
+      expect(isAbortError(error)).toBe(true);
+      expect(FakeWorker.instances[0].terminated).toBe(true);
+    });
+
+    it('should resend other pending requests after cancelling one', async () => {
+      const controller = new AbortController();
+      const cancelled = computeLineDiffAsync(oldText, newText, {}, { signal: controller.signal });
+      const other = computeLineDiffAsync(newText, oldText);
+      controller.abort();
+
+      await expect(cancelled).rejects.toThrow();
+      expect(withoutDiagnostics(await other)).toEqual(withoutDiagnostics(computeLineDiff(newText, oldText)));
+      expect(FakeWorker.instances).toHaveLength(2);
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await computeLineDiffAsync(oldText, newText, {}, { signal: controller.signal }).catch(e => e);
+      expect(isAbortError(error)).toBe(true);
+      expect(FakeWorker.instances).toHaveLength(0);
+    });
+
+    it('should fall back to the main thread without Worker support', async () => {
+      globalThis.Worker = undefined as unknown as typeof Worker;
+      const onProgress = vi.fn();
+
+      const result = await computeLineDiffAsync(oldText, newText, { ignoreCase: true }, { onProgress });
+
+      expect(withoutDiagnostics(result)).toEqual(withoutDiagnostics(computeLineDiff(oldText, newText, { ignoreCase: true })));
+      expect(onProgress).toHaveBeenCalled();
+    });
+  });
+});
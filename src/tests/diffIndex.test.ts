@@ -268,4 +268,102 @@ describe('Diff Index (Main Logic)', () => {
       expect(addedLine?.value).toBe('modified content');
     });
   });
+
+  describe('computeLineDiff with whitespace options', () => {
+    it('should ignore trailing whitespace', () => {
+      const result = computeLineDiff('line 1  \nline 2', 'line 1\nline 2\t', { ignoreTrailingWhitespace: true });
+
+      expect(result.left.some(line => line.removed)).toBe(false);
+      expect(result.right.some(line => line.added)).toBe(false);
+      // Displayed lines keep the original text
+      expect(result.left[0].value).toBe('line 1  ');
+      expect(result.right[0].value).toBe('line 1');
+      expect(result.right[1].value).toBe('line 2\t');
+    });
+
+    it('should ignore changes in whitespace amount', () => {
+      const oldText = 'const  a =  1;\n  b';
+      const newText = 'const a = 1;\nb';
+
+      const result = computeLineDiff(oldText, newText, { ignoreWhitespaceAmount: true });
+
+      expect(result.left[0].removed).toBeUndefined();
+      expect(result.right[0].added).toBeUndefined();
+      // Leading whitespace versus none is still a change, like git diff -b
+      expect(result.left[1].removed).toBe(true);
+      expect(result.right[1].added).toBe(true);
+    });
+
+    it('should ignore all whitespace', () => {
+      const result = computeLineDiff('a b c\nx', 'abc\ny', { ignoreAllWhitespace: true });
+
+      expect(result.left[0].removed).toBeUndefined();
+      expect(result.right[0].value).toBe('abc');
+      expect(result.left[1].removed).toBe(true);
+      expect(result.right[1].added).toBe(true);
+    });
+
+    it('should ignore added and removed blank lines', () => {
+      const oldText = 'a\n\nb\nc';
+      const newText = 'a\nb\n\n\nc';
+
+      const result = computeLineDiff(oldText, newText, { ignoreBlankLines: true });
+
+      expect(result.left.length).toBe(result.right.length);
+      expect(result.left.some(line => line.removed)).toBe(false);
+      expect(result.right.some(line => line.added)).toBe(false);
+      expect(result.left.filter(line => !line.spacer).map(line => line.value)).toEqual(['a', '', 'b', 'c']);
+      expect(result.right.filter(line => !line.spacer).map(line => line.value)).toEqual(['a', 'b', '', '', 'c']);
+    });
+
+    it('should still report real changes when ignoring blank lines', () => {
+      const result = computeLineDiff('a\n\nb', 'a\nx\n\nb', { ignoreBlankLines: true });
+
+      const addedLines = result.right.filter(line => line.added);
+      expect(addedLines.map(line => line.value)).toEqual(['x']);
+      expect(result.left.some(line => line.removed)).toBe(false);
+    });
+
+    it('should pair a changed line that follows an ignored blank line', () => {
+      const result = computeLineDiff('a\n\nold value', 'a\nnew value', { ignoreBlankLines: true });
+
+      expect(result.left.filter(line => line.modified).map(line => line.value)).toEqual(['old value']);
+      expect(result.right.filter(line => line.modified).map(line => line.value)).toEqual(['new value']);
+    });
+
+    it('should behave like the default diff without options', () => {
+      const oldText = 'line 1\nline 2 \nline 3';
+      const newText = 'line 1\nline 2\nline 3';
+
+      const withOptions = computeLineDiff(oldText, newText, {});
+      const withoutOptions = computeLineDiff(oldText, newText);
+
+      expect(withOptions.left).toEqual(withoutOptions.left);
+      expect(withOptions.right).toEqual(withoutOptions.right);
+    });
+  });
+
+  describe('computeLineDiff with case and Unicode options', () => {
+    it('should ignore case differences', () => {
+      const result = computeLineDiff('SELECT *\nFROM Users', 'select *\nfrom users', { ignoreCase: true });
+
+      expect(result.left.some(line => line.removed)).toBe(false);
+      expect(result.right.map(line => line.value)).toEqual(['select *', 'from users']);
+    });
+
+    it('should treat NFC and NFD text as identical', () => {
+      const result = computeLineDiff('cafe\u0301', 'caf\u00e9', { unicodeNormalization: 'NFC' });
+
+      expect(result.left[0].removed).toBeUndefined();
+      expect(result.left[0].value).toBe('cafe\u0301');
+      expect(result.right[0].value).toBe('caf\u00e9');
+    });
+
+    it('should map inline changes back onto the original text', () => {
+      const result = computeLineDiff('Host: EXAMPLE.com:80', 'host: example.COM:8080', { ignoreCase: true });
+
+      expect(result.left[0].inlineChanges!.map(part => part.value).join('')).toBe('Host: EXAMPLE.com:80');
+      expect(result.right[0].inlineChanges!.map(part => part.value).join('')).toBe('host: example.COM:8080');
+    });
+  });
 });
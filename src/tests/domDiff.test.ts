@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { diffHtmlTexts, diffXmlTexts } from '@/utils/diff/domDiff';
+import { normalizeMarkupLine, usesMarkupNormalization } from '@/utils/diff/markup';
+import { supportsStructuralDiff } from '@/utils/diff/structuredFormats';
+import { computeLineDiff } from '@/utils/diff';
+
+const changeList = (changes: { kind: string; path: string }[]) =>
+  changes.map(change => `${change.kind} ${change.path}`);
+
+describe('DOM Diff', () => {
+  describe('diffXmlTexts', () => {
+    it('should report attribute and text changes by XPath', () => {
+      const result = diffXmlTexts(
+        '<catalog><book id="1">A</book><book id="2">B</book></catalog>',
+        '<catalog><book id="1">A</book><book id="3" lang="en">C</book></catalog>'
+      );
+
+      expect(result.changes).toEqual([
+        { path: '/catalog/book[2]/@id', kind: 'changed', oldValue: '2', newValue: '3' },
+        { path: '/catalog/book[2]/@lang', kind: 'added', newValue: 'en' },
+        { path: '/catalog/book[2]/text()', kind: 'changed', oldValue: 'B', newValue: 'C' },
+      ]);
+    });
+
+    it('should report added and removed elements', () => {
+      const result = diffXmlTexts(
+        '<root><a/><b/></root>',
+        '<root><a/><c x="1">text</c></root>'
+      );
+
+      expect(changeList(result.changes)).toEqual(['removed /root/b', 'added /root/c']);
+      expect(result.changes[1].newValue).toBe('<c x="1">text</c>');
+    });
+
+    it('should ignore attribute order, formatting and comments', () => {
+      const result = diffXmlTexts(
+        '<root><item b="2" a="1"></item><!-- note --></root>',
+        '<root>\n  <item a="1" b="2"/>\n</root>\n'
+      );
+
+      expect(result.changes).toEqual([]);
+      expect(result.root.status).toBe('unchanged');
+    });
+
+    it('should use removed elements\' positions in the original document', () => {
+      const result = diffXmlTexts(
+        '<list><item>1</item><item>2</item><item>3</item></list>',
+        '<list><item>1</item><item>3</item></list>'
+      );
+
+      expect(changeList(result.changes)).toEqual(['removed /list/item[2]']);
+    });
+
+    it('should report a changed root element', () => {
+      const result = diffXmlTexts('<a/>', '<b/>');
+      expect(changeList(result.changes)).toEqual(['changed /']);
+    });
+
+    it('should throw for invalid XML', () => {
+      expect(() => diffXmlTexts('<root>', '<root/>')).toThrow(/Original is not valid XML/);
+    });
+  });
+
+  describe('diffHtmlTexts', () => {
+    it('should compare HTML the way a browser parses it', () => {
+      const result = diffHtmlTexts(
+        '<p class="a" id="x">Hello <b>world</b><br>',
+        '<p id="x" class="a">Hello <b>there</b><br/></p>'
+      );
+
+      expect(result.changes).toEqual([
+        { path: '/html/body/p/b/text()', kind: 'changed', oldValue: 'world', newValue: 'there' },
+      ]);
+    });
+
+    it('should be registered for structural comparison', () => {
+      expect(supportsStructuralDiff('xml')).toBe(true);
+      expect(supportsStructuralDiff('html')).toBe(true);
+    });
+  });
+
+  describe('markup line normalization', () => {
+    it('should canonicalize attribute order, quotes and self-closing tags', () => {
+      expect(normalizeMarkupLine('<a y=\'2\'   x="1"></a>')).toBe('<a x="1" y="2"/>');
+      expect(normalizeMarkupLine('<br>')).toBe('<br/>');
+      expect(normalizeMarkupLine('<item id="1"> </item >')).toBe('<item id="1"/>');
+    });
+
+    it('should only apply to markup languages unless disabled', () => {
+      expect(usesMarkupNormalization({ language: 'xml' })).toBe(true);
+      expect(usesMarkupNormalization({ language: 'html', normalizeMarkup: false })).toBe(false);
+      expect(usesMarkupNormalization({ language: 'json' })).toBe(false);
+    });
+
+    it('should highlight only real changes in the line view', () => {
+      const result = computeLineDiff(
+        '<root>\n  <a x="1" y="2"></a>\n\n  <b>text</b>\n</root>',
+        '<root>\n    <a y=\'2\' x="1"/>\n    <b>changed</b>\n</root>',
+        { language: 'xml', ignoreWhitespaceAmount: true }
+      );
+
+      const changedLeft = result.left.filter(line => line.removed || line.modified).map(line => line.value);
+      const changedRight = result.right.filter(line => line.added || line.modified).map(line => line.value);
+      expect(changedLeft).toEqual(['  <b>text</b>']);
+      expect(changedRight).toEqual(['    <b>changed</b>']);
+    });
+
+    it('should report indentation changes inside <pre>', () => {
+      const result = computeLineDiff(
+        '<pre>\nif (x) {\n  run();\n}\n</pre>',
+        '<pre>\nif (x) {\n    run();\n}\n</pre>',
+        { language: 'html' }
+      );
+
+      expect(result.right.filter(line => line.added || line.modified).map(line => line.value)).toEqual(['    run();']);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { computeLineDiff } from '@/utils/diff';
+import { buildUnifiedLines } from '@/utils/diff/unified';
+import { createPresetMask } from '@/utils/diff/masks';
+import {
+  buildDisplayItems,
+  changedRows,
+  changedUnifiedRows,
+  expandFold,
+  findFoldRegions,
+  revealRow,
+} from '@/utils/diff/folding';
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+// Changed flags from a pattern such as '..x..', x marks a change
+const pattern = (rows: string) => rows.split('').map(char => char === 'x');
+
+describe('Folding', () => {
+  describe('findFoldRegions', () => {
+    it('should fold unchanged runs beyond the context lines', () => {
+      // The trailing run keeps three of its four rows, a single folded row is not worth a bar
+      expect(findFoldRegions(pattern('..........x..........x....'), 3)).toEqual([
+        { start: 0, end: 7 },
+        { start: 14, end: 18 },
+      ]);
+    });
+
+    it('should keep short runs between changes visible', () => {
+      expect(findFoldRegions(pattern('x......x'), 3)).toEqual([]);
+      expect(findFoldRegions(pattern('x........x'), 3)).toEqual([{ start: 4, end: 6 }]);
+    });
+
+    it('should fold everything when nothing changed and nothing with zero unchanged rows', () => {
+      expect(findFoldRegions(pattern('.....'), 3)).toEqual([{ start: 0, end: 5 }]);
+      expect(findFoldRegions(pattern('xxx'), 3)).toEqual([]);
+    });
+  });
+
+  describe('buildDisplayItems', () => {
+    const regions = [{ start: 0, end: 7 }, { start: 14, end: 40 }];
+
+    it('should replace hidden rows with one fold bar per region', () => {
+      const items = buildDisplayItems(44, regions, {});
+
+      expect(items).toHaveLength(44 - 7 - 26 + 2);
+      expect(items[0]).toEqual({ kind: 'fold', region: regions[0], from: 0, to: 7, canExpandUp: true, canExpandDown: false });
+      expect(items[1]).toEqual({ kind: 'row', row: 7 });
+      expect(items.find(item => item.kind === 'fold' && item.from === 14)).toMatchObject({ to: 40, canExpandUp: true, canExpandDown: true });
+    });
+
+    it('should reveal rows next to the changes when expanding down and up', () => {
+      let expansions = expandFold({}, regions[1], 'down', 20);
+      expansions = expandFold(expansions, regions[1], 'up', 20);
+
+      const items = buildDisplayItems(44, regions, expansions);
+      expect(items.some(item => item.kind === 'fold' && item.region === regions[1])).toBe(false);
+      expect(items.filter(item => item.kind === 'row')).toHaveLength(44 - 7);
+
+      const partly = buildDisplayItems(44, regions, expandFold({}, regions[1], 'up', 20));
+      expect(partly.find(item => item.kind === 'fold' && item.region === regions[1])).toMatchObject({ from: 14, to: 20 });
+    });
+
+    it('should expand a whole region and reveal the region containing a row', () => {
+      expect(buildDisplayItems(44, regions, expandFold({}, regions[0], 'all', 20))[0]).toEqual({ kind: 'row', row: 0 });
+      expect(revealRow(regions, {}, 30)).toEqual({ 14: { top: 26, bottom: 0 } });
+      expect(revealRow(regions, {}, 10)).toEqual({});
+    });
+  });
+
+  describe('changed rows', () => {
+    const oldText = lines(50).join('\n') + '\n';
+    const newText = oldText.replace('line 25\n', 'line twenty-five\n');
+
+    it('should fold both panes of a side-by-side diff alike', () => {
+      const diff = computeLineDiff(oldText, newText);
+      const regions = findFoldRegions(changedRows(diff), 3);
+
+      expect(regions).toEqual([{ start: 0, end: 21 }, { start: 28, end: 50 }]);
+    });
+
+    it('should fold the unified view around each change', () => {
+      const unified = buildUnifiedLines(computeLineDiff(oldText, newText));
+      const regions = findFoldRegions(changedUnifiedRows(unified), 3);
+
+      expect(regions).toEqual([{ start: 0, end: 21 }, { start: 29, end: 51 }]);
+    });
+  });
+
+  describe('ignored rows', () => {
+    const context = lines(10).join('\n') + '\n';
+
+    it('should fold lines removed under a line mask', () => {
+      const oldText = context + 'log 2024-05-01T12:30:45Z\n' + context;
+      const diff = computeLineDiff(oldText, context + context, { masks: [createPresetMask('iso-timestamp', 'line')] });
+
+      expect(changedRows(diff).some(Boolean)).toBe(false);
+      expect(findFoldRegions(changedRows(diff), 3)).toEqual([{ start: 0, end: 21 }]);
+      expect(changedUnifiedRows(buildUnifiedLines(diff)).some(Boolean)).toBe(false);
+    });
+
+    it('should fold blank lines removed with ignoreBlankLines', () => {
+      const diff = computeLineDiff(context + '\n' + context, context + context, { ignoreBlankLines: true });
+
+      expect(changedRows(diff).some(Boolean)).toBe(false);
+      expect(findFoldRegions(changedRows(diff), 3)).toEqual([{ start: 0, end: 21 }]);
+      expect(changedUnifiedRows(buildUnifiedLines(diff)).some(Boolean)).toBe(false);
+    });
+
+    it('should still count real changes next to ignored lines', () => {
+      const diff = computeLineDiff(context + '\n' + context, context + context.replace('line 5\n', 'line five\n'), { ignoreBlankLines: true });
+
+      expect(changedRows(diff).filter(Boolean).length).toBeGreaterThan(0);
+      expect(changedRows(diff)[10]).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { computeLineDiff } from '@/utils/diff';
+import { changedRows, changedUnifiedRows } from '@/utils/diff/folding';
+import { createPresetMask } from '@/utils/diff/masks';
+import { buildUnifiedLines } from '@/utils/diff/unified';
+import { findHunks, stepIndex } from '@/utils/diff/hunks';
+
+describe('Hunks', () => {
+  it('should group consecutive changed rows', () => {
+    const changed = [true, true, false, false, true, false, true];
+    expect(findHunks(changed)).toEqual([{ start: 0, end: 2 }, { start: 4, end: 5 }, { start: 6, end: 7 }]);
+    expect(findHunks([false, false])).toEqual([]);
+  });
+
+  it('should find one hunk per change of a diff', () => {
+    const oldText = 'a\nb\nc\nd\ne\nf\n';
+    const newText = 'a\nB\nc\nd\ne\nf\ng\n';
+    expect(findHunks(changedRows(computeLineDiff(oldText, newText)))).toEqual([{ start: 1, end: 2 }, { start: 6, end: 7 }]);
+  });
+
+  it('should not count lines hidden by a line mask as changes', () => {
+    const oldText = 'a\nb\nlog 2024-05-01T12:30:45Z\nc\nd\ne\n';
+    const newText = 'a\nb\nc\nD\ne\n';
+    const diff = computeLineDiff(oldText, newText, { masks: [createPresetMask('iso-timestamp', 'line')] });
+
+    expect(findHunks(changedRows(diff))).toHaveLength(1);
+    expect(findHunks(changedUnifiedRows(buildUnifiedLines(diff)))).toHaveLength(1);
+  });
+
+  it('should not count blank lines ignored with ignoreBlankLines as changes', () => {
+    const oldText = 'a\n\nb\nc\nd\n';
+    const newText = 'a\nb\nc\nD\n';
+    const diff = computeLineDiff(oldText, newText, { ignoreBlankLines: true });
+
+    expect(findHunks(changedRows(diff))).toHaveLength(1);
+    expect(findHunks(changedUnifiedRows(buildUnifiedLines(diff)))).toHaveLength(1);
+    expect(findHunks(changedRows(computeLineDiff(oldText, newText)))).toHaveLength(2);
+  });
+
+  it('should step through hunks and wrap around', () => {
+    expect(stepIndex(3, null, 1)).toBe(0);
+    expect(stepIndex(3, null, -1)).toBe(2);
+    expect(stepIndex(3, 1, 1)).toBe(2);
+    expect(stepIndex(3, 2, 1)).toBe(0);
+    expect(stepIndex(3, 0, -1)).toBe(2);
+    expect(stepIndex(0, null, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cleanupEfficiency,
+  cleanupInlineOps,
+  cleanupSemantic,
+  mergeInlineOps,
+  type InlineOp,
+} from '@/utils/diff/inlineCleanup';
+
+const equal = (text: string): InlineOp => ({ type: 'equal', left: text, right: text });
+const del = (text: string): InlineOp => ({ type: 'delete', left: text, right: '' });
+const ins = (text: string): InlineOp => ({ type: 'insert', left: '', right: text });
+
+describe('Inline Cleanup', () => {
+  describe('mergeInlineOps', () => {
+    it('should put one delete before one insert between equalities', () => {
+      expect(mergeInlineOps([equal('a'), ins('x'), del('b'), ins('y'), del('c'), equal('d'), equal('e')])).toEqual([
+        equal('a'), del('bc'), ins('xy'), equal('de'),
+      ]);
+    });
+
+    it('should drop empty steps', () => {
+      expect(mergeInlineOps([equal(''), del('a'), equal('')])).toEqual([del('a')]);
+    });
+  });
+
+  describe('cleanupSemantic', () => {
+    it('should eliminate equalities no longer than the surrounding edits', () => {
+      const ops = [equal('a'), del('b'), ins('X'), equal('c'), del('d'), ins('Y'), equal('e'), del('f'), ins('Z'), equal('ghij')];
+      expect(cleanupSemantic(ops)).toEqual([equal('a'), del('bcdef'), ins('XcYeZ'), equal('ghij')]);
+    });
+
+    it('should keep equalities longer than an edit on either side', () => {
+      const ops = [equal('a'), del('b'), ins('X'), equal('cd'), del('e'), ins('Y'), equal('f')];
+      expect(cleanupSemantic(ops)).toEqual(ops);
+    });
+
+    it('should keep the leading and trailing equality', () => {
+      const ops = [equal('a'), del('bcd'), equal('e')];
+      expect(cleanupSemantic(ops)).toEqual(ops);
+    });
+
+    it('should keep each side of an equality with different whitespace', () => {
+      const ops: InlineOp[] = [del('ab'), { type: 'equal', left: '  ', right: ' ' }, ins('cd')];
+      expect(cleanupSemantic(ops)).toEqual([del('ab  '), ins(' cd')]);
+    });
+  });
+
+  describe('cleanupEfficiency', () => {
+    it('should eliminate short equalities surrounded by edits on all four sides', () => {
+      const ops = [equal('ab'), del('c'), ins('x'), equal('de'), del('f'), ins('y'), equal('gh')];
+      expect(cleanupEfficiency(ops)).toEqual([equal('ab'), del('cdef'), ins('xdey'), equal('gh')]);
+      expect(cleanupSemantic(ops)).toEqual(ops);
+    });
+
+    it('should eliminate very short equalities with edits on three sides', () => {
+      const ops = [equal('ab'), ins('x'), equal('c'), del('d'), ins('y'), equal('ef')];
+      expect(cleanupEfficiency(ops)).toEqual([equal('ab'), del('cd'), ins('xcy'), equal('ef')]);
+    });
+
+    it('should keep equalities as long as the edit cost', () => {
+      const ops = [equal('ab'), del('c'), ins('x'), equal('defg'), del('h'), ins('y'), equal('ij')];
+      expect(cleanupEfficiency(ops)).toEqual(ops);
+    });
+  });
+
+  describe('cleanupInlineOps', () => {
+    it('should leave raw steps untouched when disabled', () => {
+      const ops = [del('a'), equal('b'), ins('c')];
+      expect(cleanupInlineOps(ops, 'none')).toBe(ops);
+    });
+  });
+});
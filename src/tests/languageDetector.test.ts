@@ -286,5 +286,12 @@ describe('Language Detector', () => {
       return 42`;
       expect(detectLanguage(pythonCode)).toBe('python');
     });
+
+    it('should only parse a sample of large pastes when looking for tables', () => {
+      const rows = Array.from({ length: 60 }, (_, i) => `${i},item ${i}\n`).join('');
+
+      // The unclosed quote is past the sampled rows, parsing the whole text would reject the table
+      expect(detectLanguage(`id,name\n${rows}60,"unclosed\n`)).toBe('csv');
+    });
   });
 }); 
\ No newline at end of file
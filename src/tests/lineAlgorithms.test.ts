@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenizeLines,
+  diffLinesPatience,
+  diffLinesHistogram,
+  diffLinesWithAlgorithm,
+  type LineDiffPart,
+} from '@/utils/diff/lineAlgorithms';
+import { computeLineDiff } from '@/utils/diff/index';
+import type { DiffAlgorithm } from '@/utils/diff/types';
+
+const ALGORITHMS: DiffAlgorithm[] = ['myers', 'patience', 'histogram'];
+
+// Rebuild both input texts from the diff parts
+const reconstruct = (parts: LineDiffPart[]) => ({
+  oldText: parts.filter(part => !part.added).map(part => part.value).join(''),
+  newText: parts.filter(part => !part.removed).map(part => part.value).join(''),
+});
+
+// Count contiguous groups of changed parts
+const countHunks = (parts: LineDiffPart[]) => {
+  let hunks = 0;
+  let inHunk = false;
+  for (const part of parts) {
+    const changed = !!(part.added || part.removed);
+    if (changed && !inHunk) hunks++;
+    inHunk = changed;
+  }
+  return hunks;
+};
+
+// A function replaced by another one with more nested blocks
+const braceHeavyOld = `function beta() {
+  if (beta0) {
+    run();
+  }
+}
+
+function gamma() {
+  if (gamma0) {
+    run();
+  }
+}
+
+function delta() {
+  if (delta0) {
+    run();
+  }
+}
+`;
+
+const braceHeavyNew = `function beta() {
+  if (beta0) {
+    run();
+  }
+}
+
+function zeta() {
+  if (z0) {
+    stop();
+  }
+  if (z1) {
+    stop();
+  }
+}
+
+function delta() {
+  if (delta0) {
+    run();
+  }
+}
+`;
+
+describe('Line Algorithms', () => {
+  describe('tokenizeLines', () => {
+    it('should keep line breaks on each token', () => {
+      expect(tokenizeLines('a\nb\nc')).toEqual(['a\n', 'b\n', 'c']);
+      expect(tokenizeLines('a\n\n')).toEqual(['a\n', '\n']);
+    });
+
+    it('should handle empty text', () => {
+      expect(tokenizeLines('')).toEqual([]);
+    });
+  });
+
+  describe('diffLinesWithAlgorithm', () => {
+    const cases = [
+      { old: '', new: '' },
+      { old: '', new: 'a\nb\n' },
+      { old: 'a\nb\n', new: '' },
+      { old: 'a\nb\nc', new: 'a\nc' },
+      { old: 'a\nb\nc\n', new: 'c\nb\na\n' },
+      { old: '}\n}\n}\n', new: '}\n{\n}\n}\n' },
+      { old: 'x\ny\nz', new: 'x\ny\nz\n' },
+    ];
+
+    ALGORITHMS.forEach(algorithm => {
+      it(`should produce a complete edit script with ${algorithm}`, () => {
+        cases.forEach(({ old, new: newText }) => {
+          const result = reconstruct(diffLinesWithAlgorithm(old, newText, algorithm));
+          expect(result.oldText).toBe(old);
+          expect(result.newText).toBe(newText);
+        });
+      });
+
+      it(`should return a single unchanged part for identical text with ${algorithm}`, () => {
+        const parts = diffLinesWithAlgorithm('a\nb\n', 'a\nb\n', algorithm);
+        expect(parts).toHaveLength(1);
+        expect(parts[0].added).toBeUndefined();
+        expect(parts[0].removed).toBeUndefined();
+      });
+    });
+
+    it('should default to Myers', () => {
+      const oldText = 'a\nb\nc\n';
+      const newText = 'a\nx\nc\n';
+      expect(diffLinesWithAlgorithm(oldText, newText)).toEqual(diffLinesWithAlgorithm(oldText, newText, 'myers'));
+    });
+  });
+
+  describe('Histogram on large inputs', () => {
+    it('should diff interleaved edits quickly', () => {
+      const oldLines: string[] = [];
+      const newLines: string[] = [];
+      for (let i = 0; i < 20000; i++) {
+        oldLines.push(`line ${i}\n`);
+        newLines.push(i % 2 ? `changed ${i}\n` : `line ${i}\n`);
+      }
+      const oldText = oldLines.join('');
+      const newText = newLines.join('');
+
+      const startTime = performance.now();
+      const parts = diffLinesHistogram(oldText, newText);
+      const endTime = performance.now();
+
+      expect(endTime - startTime).toBeLessThan(1000); // Splitting at the first region overflowed the stack
+      expect(reconstruct(parts)).toEqual({ oldText, newText });
+      expect(countHunks(parts)).toBe(10000);
+    });
+  });
+
+  describe('Alignment on brace-heavy code', () => {
+    it('should split the replaced function into several hunks with Myers', () => {
+      const parts = diffLinesWithAlgorithm(braceHeavyOld, braceHeavyNew, 'myers');
+      expect(countHunks(parts)).toBeGreaterThan(1);
+    });
+
+    it('should keep the replaced function in one hunk with patience', () => {
+      const parts = diffLinesPatience(braceHeavyOld, braceHeavyNew);
+
+      expect(countHunks(parts)).toBe(1);
+      expect(parts.find(part => part.removed)!.value).toContain('function gamma() {');
+      expect(parts.find(part => part.added)!.value).toContain('function zeta() {');
+    });
+
+    it('should keep the replaced function in one hunk with histogram', () => {
+      const parts = diffLinesHistogram(braceHeavyOld, braceHeavyNew);
+
+      expect(countHunks(parts)).toBe(1);
+      expect(reconstruct(parts)).toEqual({ oldText: braceHeavyOld, newText: braceHeavyNew });
+    });
+
+    it('should anchor on unique lines when blocks are reordered', () => {
+      const oldText = 'function a() {\n}\n\nfunction b() {\n}\n\nfunction c() {\n}\n';
+      const newText = 'function a() {\n}\n\nfunction c() {\n}\n\nfunction b() {\n}\n';
+
+      const parts = diffLinesPatience(oldText, newText);
+      const unchanged = parts.filter(part => !part.added && !part.removed).map(part => part.value).join('');
+
+      expect(unchanged).toContain('function a() {\n');
+      expect(reconstruct(parts)).toEqual({ oldText, newText });
+    });
+
+    it('should fall back to Myers when no line is unique', () => {
+      const oldText = '}\n}\n\n}\n';
+      const newText = '}\n\n}\n}\n';
+
+      expect(reconstruct(diffLinesPatience(oldText, newText))).toEqual({ oldText, newText });
+      expect(reconstruct(diffLinesHistogram(oldText, newText))).toEqual({ oldText, newText });
+    });
+  });
+
+  describe('Integration with computeLineDiff', () => {
+    it('should align the replaced function as one modified block', () => {
+      ALGORITHMS.filter(algorithm => algorithm !== 'myers').forEach(algorithm => {
+        const result = computeLineDiff(braceHeavyOld, braceHeavyNew, { algorithm });
+        const modifiedLeft = result.left.filter(line => line.modified).map(line => line.value);
+
+        expect(result.left.length).toBe(result.right.length);
+        expect(modifiedLeft[0]).toBe('function gamma() {');
+        expect(result.right.find(line => line.modified)!.value).toBe('function zeta() {');
+      });
+    });
+
+    it('should keep line numbers consistent for every algorithm', () => {
+      ALGORITHMS.forEach(algorithm => {
+        const result = computeLineDiff(braceHeavyOld, braceHeavyNew, { algorithm });
+        const leftNumbers = result.left.filter(line => !line.spacer).map(line => line.lineNumber);
+        const rightNumbers = result.right.filter(line => !line.spacer).map(line => line.lineNumber);
+
+        expect(leftNumbers).toEqual(leftNumbers.map((_, i) => i + 1));
+        expect(rightNumbers).toEqual(rightNumbers.map((_, i) => i + 1));
+      });
+    });
+  });
+});
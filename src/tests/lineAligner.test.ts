@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { prepareLineDiff, alignLines } from '@/utils/diff/lineAligner';
+import { prepareLineDiff, alignLines, pairModifiedLines } from '@/utils/diff/lineAligner';
+import { computeLineDiff } from '@/utils/diff/index';
 
 describe('Line Aligner', () => {
   describe('prepareLineDiff', () => {
@@ -237,4 +238,65 @@ describe('Line Aligner', () => {
       expect(result.alignedRight[0]).toHaveProperty('lineNumber');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('pairModifiedLines', () => {
+    it('should pair lines by similarity when a line is inserted at the top', () => {
+      const oldLines = ['const total = price * quantity;', 'return total.toFixed(2);'];
+      const newLines = ['// Compute the order total', 'const total = price * quantity * tax;', 'return total.toFixed(3);'];
+
+      expect(pairModifiedLines(oldLines, newLines)).toEqual([
+        [null, 0],
+        [0, 1],
+        [1, 2],
+      ]);
+    });
+
+    it('should leave dissimilar lines unpaired', () => {
+      const oldLines = ['alpha beta gamma', 'return value;'];
+      const newLines = ['return value + 1;'];
+
+      expect(pairModifiedLines(oldLines, newLines)).toEqual([
+        [0, null],
+        [1, 0],
+      ]);
+    });
+
+    it('should pair a rewritten block of the same size by index', () => {
+      expect(pairModifiedLines(['foo', 'bar'], ['something else', 'entirely'])).toEqual([
+        [0, 0],
+        [1, 1],
+      ]);
+    });
+
+    it('should honour comparison options when measuring similarity', () => {
+      const oldLines = ['HEADER', 'SELECT NAME FROM USERS'];
+      const newLines = ['select name from users where id = 1'];
+
+      expect(pairModifiedLines(oldLines, newLines, { ignoreCase: true })).toEqual([
+        [0, null],
+        [1, 0],
+      ]);
+    });
+  });
+
+  describe('computeLineDiff pairing', () => {
+    it('should keep pairs aligned after a line inserted at the top of a hunk', () => {
+      const oldText = 'start\nconst a = compute(1);\nconst b = compute(2);\nend';
+      const newText = 'start\nlog("computing");\nconst a = compute(10);\nconst b = compute(20);\nend';
+
+      const result = computeLineDiff(oldText, newText);
+
+      expect(result.left.length).toBe(result.right.length);
+      expect(result.left[1].spacer).toBe(true);
+      expect(result.right[1].added).toBe(true);
+      expect(result.right[1].modified).toBeUndefined();
+
+      expect(result.left[2].value).toBe('const a = compute(1);');
+      expect(result.right[2].value).toBe('const a = compute(10);');
+      expect(result.left[2].modified).toBe(true);
+      expect(result.left[3].value).toBe('const b = compute(2);');
+      expect(result.right[3].value).toBe('const b = compute(20);');
+      expect(result.right[3].inlineChanges?.some(part => part.added)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import Prism from 'prismjs';
+import { highlightLine, overlayRuns, sliceHighlight, type HighlightNode } from '@/utils/lineHighlight';
+import { wrapLine } from '@/utils/softWrap';
+
+// Text of a highlighted line with the classes of the innermost token around each piece
+const pieces = (nodes: HighlightNode[], className = ''): [string, string][] => nodes.flatMap(node =>
+  typeof node === 'string' ? [[node, className] as [string, string]] : pieces(node.children, node.className)
+);
+
+const javascript = Prism.languages.javascript;
+
+describe('Line Highlight', () => {
+  describe('highlightLine', () => {
+    it('should keep the text of the line', () => {
+      const line = "const s = 'hello'; // done";
+      expect(pieces(highlightLine(line, javascript)).map(([text]) => text).join('')).toBe(line);
+      expect(highlightLine('', javascript)).toEqual([]);
+    });
+
+    it('should give tokens their Prism classes', () => {
+      expect(pieces(highlightLine("const s = 'hello';", javascript))).toEqual([
+        ['const', 'token keyword'],
+        [' s ', ''],
+        ['=', 'token operator'],
+        [' ', ''],
+        ["'hello'", 'token string'],
+        [';', 'token punctuation'],
+      ]);
+    });
+  });
+
+  describe('sliceHighlight', () => {
+    it('should keep the classes of a token cut by the range', () => {
+      const nodes = highlightLine("const s = 'hello';", javascript);
+      expect(pieces(sliceHighlight(nodes, 0, 12))).toEqual([
+        ['const', 'token keyword'],
+        [' s ', ''],
+        ['=', 'token operator'],
+        [' ', ''],
+        ["'h", 'token string'],
+      ]);
+      expect(pieces(sliceHighlight(nodes, 12, 18))).toEqual([["ello'", 'token string'], [';', 'token punctuation']]);
+    });
+
+    it('should keep a string highlighted on both visual rows of a wrapped line', () => {
+      const line = "log('the quick brown fox');";
+      const nodes = highlightLine(line, javascript);
+      const starts = wrapLine(line, 14);
+
+      expect(starts.map((from, i) => pieces(sliceHighlight(nodes, from, starts[i + 1] ?? line.length)))).toEqual([
+        [['log', 'token function'], ['(', 'token punctuation'], ["'the ", 'token string']],
+        [['quick brown ', 'token string']],
+        [["fox'", 'token string'], [')', 'token punctuation'], [';', 'token punctuation']],
+      ]);
+    });
+
+    it('should return nothing for an empty range', () => {
+      expect(sliceHighlight(highlightLine('a + b', javascript), 2, 2)).toEqual([]);
+    });
+  });
+
+  describe('overlayRuns', () => {
+    it('should split a line at the overlay boundaries', () => {
+      expect(overlayRuns([{ start: 2, end: 5, className: 'token-added' }], 0, 8)).toEqual([
+        { start: 0, end: 2, className: '' },
+        { start: 2, end: 5, className: 'token-added' },
+        { start: 5, end: 8, className: '' },
+      ]);
+    });
+
+    it('should join the classes of overlapping overlays in order', () => {
+      const overlays = [
+        { start: 0, end: 6, className: 'token-added' },
+        { start: 4, end: 8, className: 'token-masked' },
+      ];
+      expect(overlayRuns(overlays, 0, 8).map(run => run.className)).toEqual(['token-added', 'token-added token-masked', 'token-masked']);
+      expect(overlayRuns(overlays, 5, 7)).toEqual([{ start: 5, end: 6, className: 'token-added token-masked' }, { start: 6, end: 7, className: 'token-masked' }]);
+    });
+
+    it('should keep the string highlighting around a masked token inside it', () => {
+      const line = "log('at 2024-05-01T12:30:45Z done')";
+      const nodes = highlightLine(line, javascript);
+      const runs = overlayRuns([{ start: 8, end: 28, className: 'token-masked' }], 0, line.length);
+
+      expect(runs.map(run => pieces(sliceHighlight(nodes, run.start, run.end)))).toEqual([
+        [['log', 'token function'], ['(', 'token punctuation'], ["'at ", 'token string']],
+        [['2024-05-01T12:30:45Z', 'token string']],
+        [[" done'", 'token string'], [')', 'token punctuation']],
+      ]);
+    });
+
+    it('should keep the string highlighting around a search match inside it', () => {
+      const nodes = highlightLine("const s = 'hello';", javascript);
+      const runs = overlayRuns([{ start: 12, end: 13, className: 'search-match' }], 0, 18);
+
+      expect(runs.map(run => [run.className, pieces(sliceHighlight(nodes, run.start, run.end))])).toEqual([
+        ['', [['const', 'token keyword'], [' s ', ''], ['=', 'token operator'], [' ', ''], ["'h", 'token string']]],
+        ['search-match', [['e', 'token string']]],
+        ['', [["llo'", 'token string'], [';', 'token punctuation']]],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { compareLineSets } from '@/utils/diff/lineSet';
+
+describe('Line Set', () => {
+  describe('compareLineSets', () => {
+    it('should split lines into only left, only right and both, ignoring order', () => {
+      const result = compareLineSets('react\nlodash\nvite\n', 'vite\nzod\nreact\n');
+
+      expect(result.onlyLeft).toEqual(['lodash']);
+      expect(result.onlyRight).toEqual(['zod']);
+      expect(result.both).toEqual(['react', 'vite']);
+    });
+
+    it('should dedupe lines, skip blank lines and trim whitespace', () => {
+      const result = compareLineSets('b\n  a  \n\nb\r\na\n', 'a\n\n\n');
+
+      expect(result.onlyLeft).toEqual(['b']);
+      expect(result.both).toEqual(['a']);
+      expect(result.leftDuplicates).toBe(2);
+      expect(result.rightDuplicates).toBe(0);
+    });
+
+    it('should sort numbers naturally', () => {
+      const result = compareLineSets('10.0.0.10\n10.0.0.2\nflag-10\nflag-9\n', '');
+      expect(result.onlyLeft).toEqual(['10.0.0.2', '10.0.0.10', 'flag-9', 'flag-10']);
+    });
+
+    it('should compare case-insensitively when asked', () => {
+      expect(compareLineSets('Alpha\nbeta\n', 'alpha\nBETA\n').both).toEqual([]);
+
+      const result = compareLineSets('Alpha\nbeta\nALPHA\n', 'alpha\nBETA\n', { ignoreCase: true });
+      expect(result.both).toEqual(['Alpha', 'beta']);
+      expect(result.onlyLeft).toEqual([]);
+      expect(result.onlyRight).toEqual([]);
+      expect(result.leftDuplicates).toBe(1);
+    });
+
+    it('should apply masks and whitespace options to decide equality', () => {
+      const result = compareLineSets(
+        'bucket/a  b\nbucket/2024-01-01.log\n',
+        'bucket/a b\nbucket/2024-02-02.log\n',
+        { ignoreWhitespaceAmount: true, masks: [{ pattern: '\\d{4}-\\d{2}-\\d{2}', mode: 'token' }] }
+      );
+
+      expect(result.both).toEqual(['bucket/2024-01-01.log', 'bucket/a  b']);
+      expect(result.onlyLeft).toEqual([]);
+    });
+  });
+});
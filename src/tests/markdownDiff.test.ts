@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown } from '@/utils/diff/markdown';
+import { diffMarkdown } from '@/utils/diff/markdownDiff';
+import { type MarkdownSegment } from '@/utils/diff/types';
+
+const changes = (segments: MarkdownSegment[] = []) =>
+  segments.filter(segment => segment.change).map(segment => `${segment.change === 'added' ? '+' : '-'}${segment.text}`);
+
+describe('Markdown Diff', () => {
+  describe('parseMarkdown', () => {
+    it('should parse headings, paragraphs, lists, quotes, tables, code and rules', () => {
+      const blocks = parseMarkdown([
+        '# Guide', '', 'Intro text', 'wrapped here.', '',
+        '- one', '  - nested', '1. first', '- [x] done', '',
+        '> quoted', '',
+        '| Name | Size |', '|:-----|-----:|', '| a | 1 |', '',
+        '```ts', 'const x = 1;', '```', '', '---', 'Setup', '=====',
+      ].join('\n'));
+
+      expect(blocks.map(block => [block.type, block.text, block.level, block.quote])).toEqual([
+        ['heading', 'Guide', 1, 0],
+        ['paragraph', 'Intro text wrapped here.', 0, 0],
+        ['list-item', 'one', 0, 0],
+        ['list-item', 'nested', 1, 0],
+        ['list-item', 'first', 0, 0],
+        ['list-item', 'done', 0, 0],
+        ['paragraph', 'quoted', 0, 1],
+        ['table', 'Name | Size\na | 1', 0, 0],
+        ['code', 'const x = 1;', 0, 0],
+        ['rule', '', 0, 0],
+        ['heading', 'Setup', 1, 0],
+      ]);
+      expect(blocks[4]).toMatchObject({ ordered: true, marker: '1.' });
+      expect(blocks[5].checked).toBe(true);
+      expect(blocks[7].align).toEqual(['left', 'right']);
+      expect(blocks[8].language).toBe('ts');
+    });
+  });
+
+  describe('parseInline', () => {
+    it('should parse emphasis, code spans, links and images', () => {
+      expect(parseInline('a **b *c*** `x*y` [site](https://example.com) ![logo](logo.png) snake_case_name')).toEqual([
+        { text: 'a ' },
+        { text: 'b ', bold: true },
+        { text: 'c', bold: true, italic: true },
+        { text: ' ' },
+        { text: 'x*y', code: true },
+        { text: ' ' },
+        { text: 'site', href: 'https://example.com' },
+        { text: ' ' },
+        { text: 'logo', href: 'logo.png', image: true },
+        { text: ' snake_case_name' },
+      ]);
+    });
+
+    it('should treat escaped characters and entities as text', () => {
+      expect(parseInline('\\*not italic\\* &amp; more')).toEqual([{ text: '*not italic* & more' }]);
+    });
+  });
+
+  describe('diffMarkdown', () => {
+    it('should show edited paragraphs with inline insertions and deletions', () => {
+      const diffs = diffMarkdown('Install the **old** package.\n', 'Install the **new** package first.\n');
+
+      expect(diffs).toHaveLength(1);
+      expect(diffs[0].status).toBe('changed');
+      expect(changes(diffs[0].segments)).toEqual(['-old', '+new', '+ first']);
+      expect(diffs[0].segments!.find(segment => segment.change === 'added')!.bold).toBe(true);
+    });
+
+    it('should ignore re-wrapping and list renumbering', () => {
+      const diffs = diffMarkdown('Some text\nwrapped.\n\n1. a\n2. b\n', 'Some text wrapped.\n\n3. a\n4. b\n');
+      expect(diffs.every(diff => diff.status === 'unchanged')).toBe(true);
+    });
+
+    it('should report blocks with nothing in common as removed and added', () => {
+      const diffs = diffMarkdown('# Title\n\nFirst paragraph here.\n', '# Title\n\nCompletely unrelated words.\n');
+      expect(diffs.map(diff => diff.status)).toEqual(['unchanged', 'removed', 'added']);
+    });
+
+    it('should mark formatting changes of the same text', () => {
+      const [diff] = diffMarkdown('Read this.\n', 'Read *this*.\n');
+      expect(changes(diff.segments)).toEqual(['-Read this.', '+Read ', '+this', '+.']);
+    });
+
+    it('should compare list items, headings and code blocks', () => {
+      const diffs = diffMarkdown(
+        '## Steps\n\n- build\n- test\n\n```sh\nnpm ci\nnpm test\n```\n',
+        '## Steps to ship\n\n- build\n- test\n- deploy\n\n```sh\nnpm ci\nnpm run test\n```\n'
+      );
+
+      expect(diffs.map(diff => [diff.block.type, diff.status])).toEqual([
+        ['heading', 'changed'],
+        ['list-item', 'unchanged'],
+        ['list-item', 'unchanged'],
+        ['list-item', 'added'],
+        ['code', 'changed'],
+      ]);
+      expect(changes(diffs[0].segments)).toEqual(['+ to ship']);
+      expect(diffs[4].codeLines).toEqual([
+        { text: 'npm ci', change: undefined },
+        { text: 'npm test', change: 'removed' },
+        { text: 'npm run test', change: 'added' },
+      ]);
+    });
+
+    it('should compare table rows cell by cell', () => {
+      const [diff] = diffMarkdown(
+        '| Name | Size |\n| --- | --- |\n| a | 1 |\n| b | 2 |\n',
+        '| Name | Size |\n| --- | --- |\n| a | 1 |\n| b | 3 |\n| c | 4 |\n'
+      );
+
+      expect(diff.status).toBe('changed');
+      expect(diff.rows!.map(row => row.change)).toEqual([undefined, undefined, undefined, 'added']);
+      expect(changes(diff.rows![2].cells[0])).toEqual([]);
+      expect(changes(diff.rows![2].cells[1])).toEqual(['-2', '+3']);
+    });
+
+    it('should show the cells of a deleted column as removed', () => {
+      const [diff] = diffMarkdown(
+        '| Name | Size | Owner |\n| --- | --- | --- |\n| a | 1 | Ann |\n',
+        '| Name | Size |\n| --- | --- |\n| a | 1 |\n'
+      );
+
+      expect(diff.rows!.map(row => row.cells.length)).toEqual([3, 3]);
+      expect(changes(diff.rows![0].cells[2])).toEqual(['-Owner']);
+      expect(changes(diff.rows![1].cells[2])).toEqual(['-Ann']);
+      expect(changes(diff.rows![1].cells[1])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MASK_PLACEHOLDER,
+  applyTokenMasks,
+  createPresetMask,
+  findMaskedRanges,
+  matchesLineMask,
+  validateMaskPattern,
+} from '@/utils/diff/masks';
+import { normalizeWithOffsets } from '@/utils/diff/normalizer';
+import { computeLineDiff } from '@/utils/diff/index';
+import type { DiffMask, DiffOptions } from '@/utils/diff/types';
+
+const withMasks = (...masks: DiffMask[]): DiffOptions => ({ masks });
+
+describe('Masks', () => {
+  describe('presets', () => {
+    it('should match ISO timestamps', () => {
+      const options = withMasks(createPresetMask('iso-timestamp'));
+      expect(applyTokenMasks('at 2024-05-01T12:30:45.123Z done', options)).toBe(`at ${MASK_PLACEHOLDER} done`);
+      expect(applyTokenMasks('at 2024-05-01 12:30+02:00', options)).toBe(`at ${MASK_PLACEHOLDER}`);
+    });
+
+    it('should match UUIDs case-insensitively', () => {
+      const options = withMasks(createPresetMask('uuid'));
+      expect(applyTokenMasks('id=123E4567-E89B-12D3-A456-426614174000;', options)).toBe(`id=${MASK_PLACEHOLDER};`);
+    });
+
+    it('should match hex addresses and semantic versions', () => {
+      const options = withMasks(createPresetMask('hex-address'), createPresetMask('semver'));
+      expect(applyTokenMasks('ptr 0x7ffee4b8 in v1.2.3-beta.1', options))
+        .toBe(`ptr ${MASK_PLACEHOLDER} in ${MASK_PLACEHOLDER}`);
+    });
+  });
+
+  describe('findMaskedRanges', () => {
+    it('should merge overlapping matches from several masks', () => {
+      const options = withMasks({ pattern: 'abc', mode: 'token' }, { pattern: 'bcd', mode: 'token' });
+      expect(findMaskedRanges('xabcdx abc', options)).toEqual([[1, 5], [7, 10]]);
+    });
+
+    it('should skip empty matches and invalid patterns', () => {
+      const options = withMasks({ pattern: 'x*', mode: 'token' }, { pattern: '(', mode: 'token' });
+      expect(findMaskedRanges('abxxc', options)).toEqual([[2, 4]]);
+    });
+  });
+
+  describe('validateMaskPattern', () => {
+    it('should report invalid patterns', () => {
+      expect(validateMaskPattern('[a-')).not.toBeNull();
+      expect(validateMaskPattern('')).not.toBeNull();
+      expect(validateMaskPattern('\\d+', 'i')).toBeNull();
+    });
+  });
+
+  describe('matchesLineMask', () => {
+    it('should only use line masks', () => {
+      const options = withMasks({ pattern: '^DEBUG', mode: 'line' }, { pattern: 'INFO', mode: 'token' });
+      expect(matchesLineMask('DEBUG start', options)).toBe(true);
+      expect(matchesLineMask('INFO start', options)).toBe(false);
+    });
+  });
+
+  describe('normalizeWithOffsets', () => {
+    it('should map the placeholder back to the masked token', () => {
+      const options = withMasks(createPresetMask('hex-address'));
+      const { text, offsets } = normalizeWithOffsets('at 0xff!', options);
+
+      expect(text).toBe(`at ${MASK_PLACEHOLDER}!`);
+      expect(offsets[3]).toBe(3);
+      expect(offsets[3 + MASK_PLACEHOLDER.length]).toBe(7);
+      expect(offsets[offsets.length - 1]).toBe(8);
+    });
+  });
+
+  describe('computeLineDiff with masks', () => {
+    it('should treat lines differing only in masked tokens as unchanged', () => {
+      const oldText = '2024-01-01T10:00:00Z started job 1\nresult ok';
+      const newText = '2024-03-05T08:15:00Z started job 1\nresult ok';
+
+      const result = computeLineDiff(oldText, newText, withMasks(createPresetMask('iso-timestamp')));
+
+      expect(result.left.some(line => line.removed)).toBe(false);
+      expect(result.right[0].value).toBe('2024-03-05T08:15:00Z started job 1');
+      expect(result.left[0].maskedRanges).toEqual([[0, 20]]);
+      expect(result.right[0].maskedRanges).toEqual([[0, 20]]);
+    });
+
+    it('should not highlight masked tokens inside modified lines', () => {
+      const oldText = 'build 0xdeadbeef finished in 10s';
+      const newText = 'build 0xcafe finished in 12s';
+
+      const result = computeLineDiff(oldText, newText, withMasks(createPresetMask('hex-address')));
+      const removedParts = result.left[0].inlineChanges!.filter(part => part.removed).map(part => part.value);
+
+      expect(result.left[0].modified).toBe(true);
+      expect(removedParts.join('')).not.toContain('0xdeadbeef');
+      expect(result.left[0].inlineChanges!.map(part => part.value).join('')).toBe(oldText);
+      expect(result.right[0].inlineChanges!.map(part => part.value).join('')).toBe(newText);
+    });
+
+    it('should ignore lines matching a line mask', () => {
+      const oldText = 'start\nDEBUG cache warm\nend';
+      const newText = 'start\nend\nDEBUG cache cold';
+
+      const result = computeLineDiff(oldText, newText, withMasks({ pattern: '^DEBUG', mode: 'line' }));
+
+      expect(result.left.length).toBe(result.right.length);
+      expect(result.left.some(line => line.removed)).toBe(false);
+      expect(result.right.some(line => line.added)).toBe(false);
+      expect(result.left.find(line => line.value === 'DEBUG cache warm')?.masked).toBe(true);
+      expect(result.right.find(line => line.value === 'DEBUG cache cold')?.masked).toBe(true);
+    });
+
+    it('should still report real changes next to masked lines', () => {
+      const oldText = 'DEBUG a\nvalue 1';
+      const newText = 'DEBUG b\nvalue 2';
+
+      const result = computeLineDiff(oldText, newText, withMasks({ pattern: '^DEBUG', mode: 'line' }));
+
+      expect(result.left.filter(line => line.modified).map(line => line.value)).toEqual(['value 1']);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { findMovedBlocks, markMovedBlocks } from '@/utils/diff/moveDetector';
+import { computeLineDiff } from '@/utils/diff/index';
+import type { DiffResultWithLineNumbers } from '@/utils/diff/types';
+
+const helperFn = [
+  'function formatPrice(value) {',
+  '  const rounded = Math.round(value * 100) / 100;',
+  '  return `$${rounded.toFixed(2)}`;',
+  '}',
+];
+
+const mainFn = [
+  'function render(items) {',
+  '  const rows = items.map(item => item.name);',
+  '  const total = items.reduce((sum, item) => sum + item.price, 0);',
+  '  rows.push(formatPrice(total));',
+  '  console.log(rows.length);',
+  '  return rows.join("\\n");',
+  '}',
+];
+
+describe('Move Detector', () => {
+  describe('computeLineDiff with moved blocks', () => {
+    it('should mark a function moved within the file', () => {
+      const oldText = [...helperFn, '', ...mainFn, ''].join('\n');
+      const newText = [...mainFn, '', ...helperFn, ''].join('\n');
+
+      const result = computeLineDiff(oldText, newText);
+
+      const movedLeft = result.left.filter(line => line.moved);
+      const movedRight = result.right.filter(line => line.moved);
+
+      expect(movedLeft.map(line => line.value)).toEqual(helperFn);
+      expect(movedLeft.length).toBe(movedRight.length);
+      expect(movedLeft.every(line => line.removed && line.moveId === movedLeft[0].moveId)).toBe(true);
+      expect(movedRight.every(line => line.added && line.moveId === movedLeft[0].moveId)).toBe(true);
+    });
+
+    it('should detect moved blocks with small edits', () => {
+      const oldText = ['header', ...helperFn, ...mainFn, 'footer'].join('\n');
+      const editedHelper = [...helperFn];
+      editedHelper[1] = '  const rounded = Math.round(value * 1000) / 1000;';
+      const newText = ['header', ...mainFn, ...editedHelper, 'footer'].join('\n');
+
+      const result = computeLineDiff(oldText, newText);
+      const editedLeft = result.left.find(line => line.value === helperFn[1]);
+      const editedRight = result.right.find(line => line.value === editedHelper[1]);
+
+      expect(editedLeft?.moved).toBe(true);
+      expect(editedRight?.moved).toBe(true);
+      expect(editedLeft?.moveId).toBe(editedRight?.moveId);
+
+      // The edited line is compared with its moved counterpart
+      expect(editedLeft?.inlineChanges?.some(part => part.removed)).toBe(true);
+      expect(editedRight?.inlineChanges?.some(part => part.added)).toBe(true);
+    });
+
+    it('should not mark in-place modifications as moved', () => {
+      const oldText = 'alpha one\nbeta two\ngamma three\ndelta four';
+      const newText = 'alpha one!\nbeta two!\ngamma three!\ndelta four!';
+
+      const result = computeLineDiff(oldText, newText);
+
+      expect(result.left.some(line => line.moved)).toBe(false);
+      expect(result.left.every(line => line.modified)).toBe(true);
+    });
+
+    it('should ignore blocks made only of braces and blank lines', () => {
+      const oldText = 'a\n}\n}\n\n}\nb';
+      const newText = 'b\n}\n}\n\n}\na';
+
+      const result = computeLineDiff(oldText, newText);
+
+      expect(result.left.some(line => line.moved)).toBe(false);
+    });
+
+    it('should respect detectMoves: false', () => {
+      const oldText = [...helperFn, '', ...mainFn].join('\n');
+      const newText = [...mainFn, '', ...helperFn].join('\n');
+
+      const result = computeLineDiff(oldText, newText, { detectMoves: false });
+
+      expect(result.left.some(line => line.moved)).toBe(false);
+      expect(result.right.some(line => line.moved)).toBe(false);
+    });
+  });
+
+  describe('findMovedBlocks', () => {
+    const removedLine = (value: string, lineNumber: number): DiffResultWithLineNumbers =>
+      ({ value, lineNumber, removed: true });
+    const addedLine = (value: string, lineNumber: number): DiffResultWithLineNumbers =>
+      ({ value, lineNumber, added: true });
+    const spacer = (): DiffResultWithLineNumbers => ({ value: '', lineNumber: -1, spacer: true });
+
+    it('should require contiguous source lines', () => {
+      const leftLines = [
+        removedLine('first statement();', 1),
+        removedLine('second statement();', 3),
+        removedLine('third statement();', 4),
+        spacer(), spacer(), spacer(),
+      ];
+      const rightLines = [
+        spacer(), spacer(), spacer(),
+        addedLine('first statement();', 10),
+        addedLine('second statement();', 11),
+        addedLine('third statement();', 12),
+      ];
+
+      expect(findMovedBlocks(leftLines, rightLines).blocks).toHaveLength(0);
+    });
+
+    it('should report each moved block once', () => {
+      const leftLines = [
+        removedLine('first statement();', 1),
+        removedLine('second statement();', 2),
+        removedLine('third statement();', 3),
+        spacer(), spacer(), spacer(),
+      ];
+      const rightLines = [
+        spacer(), spacer(), spacer(),
+        addedLine('first statement();', 5),
+        addedLine('second statement();', 6),
+        addedLine('third statement();', 7),
+      ];
+
+      const { blocks } = findMovedBlocks(leftLines, rightLines);
+      expect(blocks).toEqual([{ moveId: 1, removedStart: 0, addedStart: 0, length: 3 }]);
+
+      const pairs = markMovedBlocks(leftLines, rightLines);
+      expect(pairs).toEqual([[0, 3], [1, 4], [2, 5]]);
+      expect(leftLines[0].moveId).toBe(1);
+      expect(rightLines[5].moveId).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hasComparisonOptions,
+  normalizeLineForComparison,
+  normalizeTextForComparison,
+  normalizeWithOffsets,
+  isBlankText,
+} from '@/utils/diff/normalizer';
+
+describe('Normalizer', () => {
+  describe('normalizeLineForComparison', () => {
+    it('should return the line unchanged without options', () => {
+      expect(normalizeLineForComparison('  a  b  ', {})).toBe('  a  b  ');
+    });
+
+    it('should strip trailing whitespace', () => {
+      expect(normalizeLineForComparison('  a  b \t', { ignoreTrailingWhitespace: true })).toBe('  a  b');
+    });
+
+    it('should collapse whitespace runs like git diff -b', () => {
+      expect(normalizeLineForComparison('  a \t b  ', { ignoreWhitespaceAmount: true })).toBe(' a b');
+      expect(normalizeLineForComparison('a', { ignoreWhitespaceAmount: true })).toBe('a');
+    });
+
+    it('should remove all whitespace like git diff -w', () => {
+      expect(normalizeLineForComparison(' a \t b ', { ignoreAllWhitespace: true })).toBe('ab');
+    });
+
+    it('should let ignoreAllWhitespace take precedence', () => {
+      expect(normalizeLineForComparison(' a  b ', {
+        ignoreAllWhitespace: true,
+        ignoreWhitespaceAmount: true,
+        ignoreTrailingWhitespace: true,
+      })).toBe('ab');
+    });
+  });
+
+  describe('normalizeTextForComparison', () => {
+    it('should preserve the line structure', () => {
+      const text = 'a  \nb\n\n c \n';
+      const normalized = normalizeTextForComparison(text, { ignoreAllWhitespace: true });
+
+      expect(normalized).toBe('a\nb\n\nc\n');
+      expect(normalized.split('\n')).toHaveLength(text.split('\n').length);
+    });
+
+    it('should return the same string without comparison options', () => {
+      const text = 'a  \nb';
+      expect(normalizeTextForComparison(text, { ignoreBlankLines: true })).toBe(text);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should detect comparison options', () => {
+      expect(hasComparisonOptions({})).toBe(false);
+      expect(hasComparisonOptions({ ignoreBlankLines: true })).toBe(false);
+      expect(hasComparisonOptions({ ignoreTrailingWhitespace: true })).toBe(true);
+    });
+
+    it('should detect blank text', () => {
+      expect(isBlankText('')).toBe(true);
+      expect(isBlankText(' \t\n\n')).toBe(true);
+      expect(isBlankText(' a ')).toBe(false);
+    });
+  });
+
+  describe('normalizeWithOffsets', () => {
+    it('should return identity offsets without character options', () => {
+      expect(normalizeWithOffsets('abc', { ignoreAllWhitespace: true })).toEqual({
+        text: 'abc',
+        offsets: [0, 1, 2, 3],
+      });
+    });
+
+    it('should case fold text', () => {
+      expect(normalizeWithOffsets('AbC', { ignoreCase: true }).text).toBe('abc');
+    });
+
+    it('should compose NFD sequences and map them to the original start', () => {
+      const result = normalizeWithOffsets('e\u0301x', { unicodeNormalization: 'NFC' });
+
+      expect(result.text).toBe('\u00e9x');
+      expect(result.offsets).toEqual([0, 2, 3]);
+    });
+
+    it('should expand compatibility characters with NFKC', () => {
+      const result = normalizeWithOffsets('\ufb01le', { unicodeNormalization: 'NFKC' });
+
+      expect(result.text).toBe('file');
+      expect(result.offsets).toEqual([0, 0, 1, 2, 3]);
+    });
+  });
+
+  it('should fold case and Unicode form in line comparison keys', () => {
+    expect(normalizeLineForComparison('CAFE\u0301', { ignoreCase: true, unicodeNormalization: 'NFC' }))
+      .toBe('caf\u00e9');
+  });
+});
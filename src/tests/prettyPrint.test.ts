@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { prettyPrint, supportsPrettyPrint } from '@/utils/diff/prettyPrint';
+import { computeLineDiff } from '@/utils/diff';
+
+describe('Pretty Print', () => {
+  describe('JSON', () => {
+    it('should pretty-print minified JSON', () => {
+      expect(prettyPrint('{"b":1,"a":[1,2]}', 'json')).toBe('{\n  "b": 1,\n  "a": [\n    1,\n    2\n  ]\n}\n');
+    });
+
+    it('should sort keys recursively when asked', () => {
+      expect(prettyPrint('{"b":{"d":1,"c":2},"a":0}', 'json', { sortKeys: true, indent: 1 }))
+        .toBe('{\n "a": 0,\n "b": {\n  "c": 2,\n  "d": 1\n }\n}\n');
+    });
+
+    it('should throw for invalid JSON', () => {
+      expect(() => prettyPrint('{"a":', 'json')).toThrow();
+    });
+  });
+
+  describe('markup', () => {
+    it('should put one element per line and keep text-only elements together', () => {
+      expect(prettyPrint('<?xml version="1.0"?><root><a x="1">text</a><b/><c><d>1</d><!-- note --></c></root>', 'xml')).toBe([
+        '<?xml version="1.0"?>',
+        '<root>',
+        '  <a x="1">text</a>',
+        '  <b/>',
+        '  <c>',
+        '    <d>1</d>',
+        '    <!-- note -->',
+        '  </c>',
+        '</root>',
+        '',
+      ].join('\n'));
+    });
+
+    it('should format one-line and indented XML the same way', () => {
+      const oneLine = '<list><item id="1">a</item><item id="2">b</item></list>';
+      const indented = '<list>\n    <item id="1">a</item>\n    <item id="2">\n      b\n    </item>\n</list>\n';
+      expect(prettyPrint(oneLine, 'xml')).toBe(prettyPrint(indented, 'xml'));
+    });
+
+    it('should not nest HTML void elements and keep raw text elements as written', () => {
+      expect(prettyPrint('<div><br><img src="a.png"><pre>  a\n  b</pre></div>', 'html')).toBe([
+        '<div>',
+        '  <br>',
+        '  <img src="a.png">',
+        '  <pre>  a',
+        '  b</pre>',
+        '</div>',
+        '',
+      ].join('\n'));
+    });
+  });
+
+  describe('CSS', () => {
+    it('should un-minify CSS with one declaration per line', () => {
+      expect(prettyPrint('a,b:hover{color:red;background:url("x;y.png")}@media (max-width:600px){.x{margin:0}}', 'css')).toBe([
+        'a, b:hover {',
+        '  color: red;',
+        '  background: url("x;y.png");',
+        '}',
+        '@media (max-width: 600px) {',
+        '  .x {',
+        '    margin: 0;',
+        '  }',
+        '}',
+        '',
+      ].join('\n'));
+    });
+
+    it('should format minified and hand-written CSS the same way', () => {
+      const handWritten = 'a {\n    color : red ;\n    margin:0\n}\n';
+      expect(prettyPrint('a{color:red;margin:0}', 'css')).toBe(prettyPrint(handWritten, 'css'));
+    });
+  });
+
+  describe('JavaScript', () => {
+    it('should break minified code into indented lines', () => {
+      expect(prettyPrint('function f(a){if(a){return 1}else{for(let i=0;i<2;i++){a++}}return a}', 'javascript')).toBe([
+        'function f(a) {',
+        '  if(a) {',
+        '    return 1',
+        '  } else {',
+        '    for(let i=0;i<2;i++) {',
+        '      a++',
+        '    }',
+        '  }',
+        '  return a',
+        '}',
+        '',
+      ].join('\n'));
+    });
+
+    it('should not break lines inside strings, template literals, regular expressions and comments', () => {
+      const code = 'const s="a;{b}";const t=`${x};{`;const r=/[;{]/g;// a;b{\nx=y/2;';
+      expect(prettyPrint(code, 'javascript')).toBe([
+        'const s="a;{b}";',
+        'const t=`${x};{`;',
+        'const r=/[;{]/g;',
+        '// a;b{',
+        'x=y/2;',
+        '',
+      ].join('\n'));
+    });
+  });
+
+  it('should leave other languages unchanged', () => {
+    expect(supportsPrettyPrint('python')).toBe(false);
+    expect(prettyPrint('a  b', 'plaintext')).toBe('a  b');
+  });
+
+  it('should make minified and formatted JSON compare equal', () => {
+    const minified = prettyPrint('{"name":"app","version":"1.0.0"}', 'json');
+    const formatted = prettyPrint('{\n    "name": "app",\n    "version": "1.0.1"\n}', 'json');
+    const result = computeLineDiff(minified, formatted);
+
+    expect(result.left.filter(line => line.removed || line.modified).map(line => line.value)).toEqual(['  "version": "1.0.0"']);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { splitParagraphs, splitProse, splitSentences } from '@/utils/diff/prose';
+import { computeLineDiff } from '@/utils/diff';
+
+const contract = `The Supplier shall deliver the goods within 30 days. Payment is due on delivery.
+
+Either party may terminate this agreement with written notice.`;
+
+const rewrapped = `The Supplier shall deliver the goods
+within 30 days. Payment is due
+on delivery.
+
+Either party may terminate this
+agreement with written notice.
+`;
+
+describe('Prose', () => {
+  describe('splitSentences', () => {
+    it('should split at sentence punctuation followed by whitespace', () => {
+      expect(splitSentences('It works. Does it? Yes! "Quoted." Done')).toEqual([
+        'It works.', 'Does it?', 'Yes!', '"Quoted."', 'Done',
+      ]);
+    });
+
+    it('should not split after abbreviations, initials or before lowercase words', () => {
+      expect(splitSentences('Ask Dr. Smith, e.g. today. J. R. Tolkien wrote it. Version 2.5 is out.')).toEqual([
+        'Ask Dr. Smith, e.g. today.', 'J. R. Tolkien wrote it.', 'Version 2.5 is out.',
+      ]);
+    });
+  });
+
+  describe('splitParagraphs', () => {
+    it('should join wrapped lines and split at blank lines', () => {
+      expect(splitParagraphs(rewrapped)).toEqual([
+        { text: 'The Supplier shall deliver the goods within 30 days. Payment is due on delivery.', line: 1 },
+        { text: 'Either party may terminate this agreement with written notice.', line: 5 },
+      ]);
+    });
+  });
+
+  describe('splitProse', () => {
+    it('should give each sentence the source line it starts on and separate paragraphs', () => {
+      expect(splitProse(rewrapped, 'sentence')).toEqual([
+        { text: 'The Supplier shall deliver the goods within 30 days.', line: 1 },
+        { text: 'Payment is due on delivery.', line: 2 },
+        { text: '', line: 0 },
+        { text: 'Either party may terminate this agreement with written notice.', line: 5 },
+      ]);
+    });
+  });
+
+  describe('computeLineDiff with prose granularity', () => {
+    const changedRows = (result: ReturnType<typeof computeLineDiff>) =>
+      result.left.filter(line => line.removed || line.modified).length +
+      result.right.filter(line => line.added || line.modified).length;
+
+    it('should not report re-wrapped paragraphs as changes', () => {
+      expect(changedRows(computeLineDiff(contract, rewrapped))).toBeGreaterThan(0);
+      expect(changedRows(computeLineDiff(contract, rewrapped, { granularity: 'sentence' }))).toBe(0);
+      expect(changedRows(computeLineDiff(contract, rewrapped, { granularity: 'paragraph' }))).toBe(0);
+    });
+
+    it('should align sentences and highlight changed words', () => {
+      const modified = rewrapped.replace('30 days', '45 days');
+      const result = computeLineDiff(contract, modified, { granularity: 'sentence' });
+
+      const changedLeft = result.left.filter(line => line.modified);
+      const changedRight = result.right.filter(line => line.modified);
+      expect(changedLeft.map(line => line.value)).toEqual(['The Supplier shall deliver the goods within 30 days.']);
+      expect(changedLeft[0].inlineChanges!.filter(part => part.removed).map(part => part.value)).toEqual(['30']);
+      expect(changedRight[0].inlineChanges!.filter(part => part.added).map(part => part.value)).toEqual(['45']);
+    });
+
+    it('should number rows by their source line', () => {
+      const result = computeLineDiff(contract, rewrapped, { granularity: 'sentence' });
+      expect(result.right.map(line => line.lineNumber)).toEqual([1, 2, 0, 5]);
+      expect(result.left.map(line => line.lineNumber)).toEqual([1, 1, 0, 3]);
+    });
+
+    it('should report an added sentence as one added row', () => {
+      const result = computeLineDiff(contract, contract.replace('delivery.', 'delivery. Late payment incurs a fee.'), { granularity: 'sentence' });
+      expect(result.right.filter(line => line.added && !line.modified).map(line => line.value)).toEqual(['Late payment incurs a fee.']);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { computeLineDiff } from '@/utils/diff';
+import { buildUnifiedLines } from '@/utils/diff/unified';
+import { compileSearch, matchRangesByRow, searchDiff, searchUnified, type SearchOptions } from '@/utils/diff/search';
+
+const options = (changes: Partial<SearchOptions>): SearchOptions => ({ query: '', regex: false, caseSensitive: false, scope: 'both', ...changes });
+
+const oldText = 'const total = 1;\nconst count = 2;\nreturn total;\n';
+const newText = 'const total = 1;\nconst count = 3;\nreturn Total + count;\n';
+
+describe('Diff Search', () => {
+  describe('compileSearch', () => {
+    it('should match plain text literally', () => {
+      const { pattern } = compileSearch(options({ query: 'a.b(' }));
+      expect(pattern!.test('xa.b(y')).toBe(true);
+      expect(compileSearch(options({ query: 'a.b(' })).pattern!.test('axb(')).toBe(false);
+    });
+
+    it('should report invalid regular expressions and ignore empty queries', () => {
+      expect(compileSearch(options({ query: 'a(', regex: true }))).toMatchObject({ pattern: null, error: expect.any(String) });
+      expect(compileSearch(options({ query: '' }))).toEqual({ pattern: null });
+    });
+  });
+
+  describe('searchDiff', () => {
+    const diff = computeLineDiff(oldText, newText);
+
+    it('should find matches in both panes ignoring case by default', () => {
+      const matches = searchDiff(diff, options({ query: 'total' }));
+      expect(matches.map(match => `${match.side}:${diff[match.side as 'left' | 'right'][match.row].value.slice(match.start, match.end)}`))
+        .toEqual(['left:total', 'right:total', 'left:total', 'right:Total']);
+    });
+
+    it('should respect the case toggle and regular expressions', () => {
+      expect(searchDiff(diff, options({ query: 'Total', caseSensitive: true }))).toHaveLength(1);
+      expect(searchDiff(diff, options({ query: 'count = \\d', regex: true })).map(match => match.side)).toEqual(['left', 'right']);
+    });
+
+    it('should limit matches to a pane or to changed lines', () => {
+      expect(searchDiff(diff, options({ query: 'const', scope: 'left' })).every(match => match.side === 'left')).toBe(true);
+      expect(searchDiff(diff, options({ query: 'const', scope: 'right' }))).toHaveLength(2);
+      expect(searchDiff(diff, options({ query: 'const', scope: 'changed' }))).toHaveLength(2);
+    });
+
+    it('should skip empty matches of a regular expression', () => {
+      expect(searchDiff(diff, options({ query: 'x*', regex: true }))).toEqual([]);
+    });
+
+    it('should group match ranges by row for each pane', () => {
+      const matches = searchDiff(diff, options({ query: 'count' }));
+      const right = matchRangesByRow(matches, 'right');
+      expect([...right.entries()]).toEqual([[1, [[6, 11]]], [2, [[15, 20]]]]);
+    });
+  });
+
+  describe('searchUnified', () => {
+    it('should search unchanged rows once and keep them in both pane scopes', () => {
+      const lines = buildUnifiedLines(computeLineDiff(oldText, newText));
+      expect(searchUnified(lines, options({ query: 'const total' })).map(match => match.side)).toEqual(['both']);
+      expect(searchUnified(lines, options({ query: 'const', scope: 'left' })).map(match => match.side)).toEqual(['both', 'left']);
+      expect(searchUnified(lines, options({ query: 'const', scope: 'changed' })).map(match => match.side)).toEqual(['left', 'right']);
+    });
+  });
+});
@@ -41,12 +41,15 @@ Object.defineProperty(globalThis, 'importScripts', {
 });
 
 // 模拟 setTimeout 和 clearTimeout
+const originalSetTimeout = globalThis.setTimeout;
+const originalClearTimeout = globalThis.clearTimeout;
+
 vi.stubGlobal('setTimeout', vi.fn((fn, delay) => {
-  return setTimeout(fn, delay);
+  return originalSetTimeout(fn, delay);
 }));
 
 vi.stubGlobal('clearTimeout', vi.fn((id) => {
-  clearTimeout(id);
+  originalClearTimeout(id);
 }));
 
 // 设置测试超时时间
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { computeLineDiff } from '@/utils/diff';
+import { wrapLine, wrappedRowSpans } from '@/utils/softWrap';
+
+// Visual rows of a wrapped line as text
+const rows = (text: string, columns: number) => {
+  const starts = wrapLine(text, columns);
+  return starts.map((start, i) => text.slice(start, starts[i + 1]));
+};
+
+describe('Soft Wrap', () => {
+  describe('wrapLine', () => {
+    it('should keep lines that fit on one row', () => {
+      expect(wrapLine('short line', 20)).toEqual([0]);
+      expect(wrapLine('', 20)).toEqual([0]);
+      expect(wrapLine('exactly ten', 11)).toEqual([0]);
+    });
+
+    it('should break after the last space that fits', () => {
+      expect(rows('the quick brown fox jumps', 10)).toEqual(['the quick ', 'brown fox ', 'jumps']);
+    });
+
+    it('should break words longer than a row anywhere', () => {
+      expect(rows('abcdefghijklmnopqrstuvwxyz', 10)).toEqual(['abcdefghij', 'klmnopqrst', 'uvwxyz']);
+      expect(rows('a.min.js:function(){return!0}', 12)).toEqual(['a.min.js:fun', 'ction(){retu', 'rn!0}']);
+    });
+
+    it('should count tabs up to the next tab stop', () => {
+      expect(rows('\t\tab cd', 10)).toEqual(['\t\tab ', 'cd']);
+    });
+
+    it('should let spaces that do not fit hang at the end of the row', () => {
+      expect(rows('abcdefghij klm', 10)).toEqual(['abcdefghij ', 'klm']);
+      expect(wrapLine('abcdefghij ', 10)).toEqual([0]);
+    });
+
+    it('should not split surrogate pairs', () => {
+      expect(rows('abc😀def', 4)).toEqual(['abc', '😀de', 'f']);
+    });
+  });
+
+  describe('wrappedRowSpans', () => {
+    it('should give each row the visual rows of its taller side', () => {
+      const diff = computeLineDiff('same\nshort old line\n', 'same\na much longer new line that wraps\n');
+      const rowCount = Math.max(diff.left.length, diff.right.length);
+      const spans = wrappedRowSpans([{ lines: diff.left, columns: 10 }, { lines: diff.right, columns: 10 }], rowCount);
+
+      expect(spans[0]).toBe(1);
+      expect(Math.max(...spans.slice(1))).toBe(4);
+      expect(spans.every((span, row) => span >= wrapLine(diff.left[row]?.value ?? '', 10).length)).toBe(true);
+    });
+
+    it('should keep one row per line until the panes are measured', () => {
+      const diff = computeLineDiff('a very long line indeed\n', 'another very long line\n');
+      expect(wrappedRowSpans([{ lines: diff.left, columns: null }, { lines: diff.right, columns: null }], diff.left.length))
+        .toEqual(diff.left.map(() => 1));
+    });
+  });
+});
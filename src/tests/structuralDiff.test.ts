@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { childPath, deepEqual, diffJsonTexts, diffStructures } from '@/utils/diff/structuralDiff';
+
+describe('Structural Diff', () => {
+  describe('childPath', () => {
+    it('should build JSONPath-style paths', () => {
+      expect(childPath('$', 'items')).toBe('$.items');
+      expect(childPath('$.items', 3)).toBe('$.items[3]');
+      expect(childPath('$', 'content-type')).toBe('$["content-type"]');
+    });
+  });
+
+  describe('deepEqual', () => {
+    it('should ignore object key order', () => {
+      expect(deepEqual({ a: 1, b: [1, { c: 2, d: 3 }] }, { b: [1, { d: 3, c: 2 }], a: 1 })).toBe(true);
+      expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+      expect(deepEqual([1, 2], [2, 1])).toBe(false);
+    });
+  });
+
+  describe('diffJsonTexts', () => {
+    it('should report no changes for reordered keys and reformatting', () => {
+      const result = diffJsonTexts('{"id": 1, "name": "a", "tags": ["x"]}', '{\n  "tags": [\n    "x"\n  ],\n  "name": "a",\n  "id": 1\n}');
+      expect(result.changes).toEqual([]);
+      expect(result.root.status).toBe('unchanged');
+    });
+
+    it('should report added, removed and changed values by path', () => {
+      const result = diffJsonTexts(
+        JSON.stringify({ id: 1, status: 'open', meta: { owner: 'ann' } }),
+        JSON.stringify({ id: 1, status: 'closed', meta: { owner: 'ann', team: 'core' }, closedAt: null })
+      );
+      expect(result.changes).toEqual([
+        { path: '$.status', kind: 'changed', oldValue: 'open', newValue: 'closed' },
+        { path: '$.meta.team', kind: 'added', newValue: 'core' },
+        { path: '$.closedAt', kind: 'added', newValue: null },
+      ]);
+    });
+
+    it('should report a changed field inside an array item', () => {
+      const items = [1, 2, 3, 4, 5].map(id => ({ id, price: id * 10 }));
+      const changed = items.map(item => (item.id === 4 ? { ...item, price: 45 } : item));
+      const result = diffJsonTexts(JSON.stringify({ items }), JSON.stringify({ items: changed }));
+      expect(result.changes).toEqual([{ path: '$.items[3].price', kind: 'changed', oldValue: 40, newValue: 45 }]);
+    });
+
+    it('should not shift paths after an inserted array item', () => {
+      const result = diffJsonTexts('["a", "b", "c"]', '["a", "x", "b", "c"]');
+      expect(result.changes).toEqual([{ path: '$[1]', kind: 'added', newValue: 'x' }]);
+    });
+
+    it('should use the old index for removed array items', () => {
+      const result = diffJsonTexts('["a", "b", "c", "d"]', '["a", "d"]');
+      expect(result.changes.map(change => `${change.kind} ${change.path}`)).toEqual(['removed $[1]', 'removed $[2]']);
+    });
+
+    it('should report a type change as one changed value', () => {
+      const result = diffJsonTexts('{"value": [1, 2]}', '{"value": {"0": 1}}');
+      expect(result.changes).toEqual([{ path: '$.value', kind: 'changed', oldValue: [1, 2], newValue: { 0: 1 } }]);
+    });
+
+    it('should quote keys that are not identifiers', () => {
+      const result = diffJsonTexts('{"headers": {"content-type": "text/plain"}}', '{"headers": {"content-type": "application/json"}}');
+      expect(result.changes[0].path).toBe('$.headers["content-type"]');
+    });
+
+    it('should build a tree with changed branches', () => {
+      const result = diffJsonTexts('{"a": {"b": 1, "c": 2}, "d": 3}', '{"a": {"b": 1, "c": 4}, "d": 3}');
+      expect(result.root.status).toBe('contains-changes');
+      const a = result.root.children!.find(child => child.key === 'a')!;
+      expect(a.status).toBe('contains-changes');
+      expect(a.children!.map(child => [child.key, child.status])).toEqual([['b', 'unchanged'], ['c', 'changed']]);
+      expect(result.root.children!.find(child => child.key === 'd')!.status).toBe('unchanged');
+    });
+
+    it('should throw for invalid JSON', () => {
+      expect(() => diffJsonTexts('{"a": 1}', '{a: 1}')).toThrow(/Modified is not valid JSON/);
+    });
+  });
+
+  describe('diffStructures', () => {
+    it('should compare primitive roots', () => {
+      expect(diffStructures(1, 2).changes).toEqual([{ path: '$', kind: 'changed', oldValue: 1, newValue: 2 }]);
+    });
+  });
+});
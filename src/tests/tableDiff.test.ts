@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectDelimiter,
+  diffTableTexts,
+  looksLikeTable,
+  parseDelimited,
+  parseTable,
+  suggestKeyColumn,
+} from '@/utils/diff/tableDiff';
+import { detectLanguage } from '@/utils/diff/languageDetector';
+
+describe('Table Diff', () => {
+  describe('parseDelimited', () => {
+    it('should parse quoted fields with delimiters, quotes and line breaks', () => {
+      const rows = parseDelimited('id,note\r\n1,"a, b"\r\n2,"say ""hi"""\r\n3,"two\nlines"\r\n', ',');
+      expect(rows).toEqual([
+        ['id', 'note'],
+        ['1', 'a, b'],
+        ['2', 'say "hi"'],
+        ['3', 'two\nlines'],
+      ]);
+    });
+
+    it('should keep empty fields and skip blank lines', () => {
+      expect(parseDelimited('a,,c\n\n,b,\n', ',')).toEqual([['a', '', 'c'], ['', 'b', '']]);
+    });
+
+    it('should stop after the given number of rows', () => {
+      expect(parseDelimited('a,b\n1,"x\ny"\n2,z\n3,"unclosed\n', ',', 'Input', 2)).toEqual([['a', 'b'], ['1', 'x\ny']]);
+    });
+
+    it('should throw on an unclosed quote', () => {
+      expect(() => parseDelimited('a,"b\n', ',', 'Original')).toThrow('Original is not valid CSV');
+    });
+  });
+
+  describe('detectDelimiter', () => {
+    it('should detect tabs from spreadsheet pastes', () => {
+      expect(detectDelimiter('name\tprice\nTea, green\t3\n')).toBe('\t');
+    });
+
+    it('should detect semicolons and fall back to commas', () => {
+      expect(detectDelimiter('a;b\n1;2\n')).toBe(';');
+      expect(detectDelimiter('just text')).toBe(',');
+    });
+
+    it('should detect tables as csv without mistaking prose', () => {
+      expect(looksLikeTable('id,name\n1,Ann\n2,Bob\n')).toBe(true);
+      expect(looksLikeTable('Hello, world\nGoodbye, world\n')).toBe(false);
+      expect(detectLanguage('sku\tqty\nA-1\t4\nB-2\t7\n')).toBe('csv');
+    });
+
+    it('should detect tables with indented tab cells and brackets in data cells', () => {
+      expect(detectLanguage('sku\tname\nA-1\t  Tea\nB-2\tCoffee\n')).toBe('csv');
+      expect(detectLanguage('id,comment,phone\n1,Great :),(555) 0100\n2,see note 1),(555\n')).toBe('csv');
+    });
+
+    it('should not detect short or code-like text as csv', () => {
+      expect(detectLanguage('Hi Sam,\nsee you at 5, ok?\nCheers, Lee\n')).toBe('plaintext');
+      expect(detectLanguage('foo(a,b)\nbar(c,d)\n')).toBe('plaintext');
+      expect(detectLanguage('x = [1,2]\ny = [3,4]\n')).toBe('plaintext');
+      expect(detectLanguage('key=a,b\nother=c,d\n')).toBe('plaintext');
+      expect(looksLikeTable('a,b\nc, d\ne,f\ng,h\n')).toBe(false);
+      expect(looksLikeTable('f(a,b)\ng(c,d)\nh(e,f)\ni(g,h)\n')).toBe(false);
+    });
+
+    it('should leave YAML, Markdown tables and shell pipelines to their own languages', () => {
+      expect(looksLikeTable('name: a,b\nvalue: c,d\nother: e,f\n')).toBe(false);
+      expect(detectLanguage('name: a,b\nvalue: c,d\nother: e,f\n')).toBe('yaml');
+      expect(looksLikeTable('| Name | Age |\n|---|---|\n| Ann | 30 |\n')).toBe(false);
+      expect(looksLikeTable('Name|Age\n:---|---:\nAnn|30\n')).toBe(false);
+      expect(looksLikeTable('cat a | grep b\nls | wc\nps | less\n')).toBe(false);
+      expect(looksLikeTable('id|name\n1|Ann\n2|Bob\n')).toBe(true);
+    });
+  });
+
+  describe('parseTable', () => {
+    it('should name blank and duplicate headers', () => {
+      expect(parseTable('id,,name,name\n1,2,3,4,5\n', ',').header).toEqual(['id', 'Column 2', 'name', 'name (2)', 'Column 5']);
+    });
+  });
+
+  describe('diffTableTexts', () => {
+    const oldCsv = 'id,name,price\n1,Tea,3\n2,Coffee,4\n3,Juice,5\n';
+
+    it('should match reordered rows by key and report changed cells', () => {
+      const result = diffTableTexts(oldCsv, 'id,name,price\n3,Juice,6\n1,Tea,3\n2,Coffee,4\n', { keyColumns: ['id'] });
+
+      expect(result.summary).toMatchObject({ addedRows: 0, removedRows: 0, changedRows: 1, changedCells: 1 });
+      const changed = result.rows.find(row => row.status === 'changed')!;
+      expect(changed.key).toBe('3');
+      expect(changed.cells[2]).toEqual({ oldValue: '5', newValue: '6', changed: true });
+    });
+
+    it('should report added and removed rows by key', () => {
+      const result = diffTableTexts(oldCsv, 'id,name,price\n1,Tea,3\n3,Juice,5\n4,Water,1\n', { keyColumns: ['id'] });
+
+      expect(result.rows.map(row => `${row.status} ${row.key}`)).toEqual([
+        'unchanged 1', 'removed 2', 'unchanged 3', 'added 4',
+      ]);
+    });
+
+    it('should match columns by name and summarize added and removed columns', () => {
+      const result = diffTableTexts(oldCsv, 'price,id,stock\n3,1,10\n4,2,0\n5,3,7\n', { keyColumns: ['id'] });
+
+      expect(result.columns.map(column => `${column.status} ${column.name}`)).toEqual([
+        'unchanged price', 'unchanged id', 'removed name', 'added stock',
+      ]);
+      expect(result.summary).toMatchObject({ addedColumns: ['stock'], removedColumns: ['name'], changedRows: 0 });
+    });
+
+    it('should support composite keys and flag duplicate keys', () => {
+      const result = diffTableTexts(
+        'region,sku,qty\neu,A,1\nus,A,2\neu,A,3\n',
+        'region,sku,qty\nus,A,2\neu,A,1\neu,A,4\n',
+        { keyColumns: ['region', 'sku'] }
+      );
+
+      expect(result.keyColumns).toEqual(['region', 'sku']);
+      expect(result.summary.duplicateKeys).toEqual(['eu / A']);
+      expect(result.summary.changedCells).toBe(1);
+    });
+
+    it('should pair edited rows when matching by content', () => {
+      const result = diffTableTexts(oldCsv, 'id,name,price\n1,Tea,3\n2,Cocoa,4\n3,Juice,5\n');
+
+      expect(result.keyColumns).toEqual([]);
+      expect(result.rows.map(row => row.status)).toEqual(['unchanged', 'changed', 'unchanged']);
+      expect(result.rows[1].cells[1]).toEqual({ oldValue: 'Coffee', newValue: 'Cocoa', changed: true });
+    });
+
+    it('should suggest the first column with unique values as key', () => {
+      const oldTable = parseTable('group,id\na,1\na,2\n', ',');
+      const newTable = parseTable('group,id\na,2\nb,3\n', ',');
+      expect(suggestKeyColumn(oldTable, newTable)).toBe('id');
+    });
+  });
+});
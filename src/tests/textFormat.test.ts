@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EOL_GLYPHS,
+  NO_NEWLINE_MARKER,
+  compareTextFormats,
+  detectTextFormat,
+  splitTrailingLineBreaks,
+} from '@/utils/diff/textFormat';
+import { computeLineDiff } from '@/utils/diff/index';
+import type { DiffResultWithLineNumbers } from '@/utils/diff/types';
+
+const realLines = (lines: DiffResultWithLineNumbers[]) =>
+  lines.filter(line => !line.spacer && !line.extraLine);
+
+describe('Text Format', () => {
+  describe('detectTextFormat', () => {
+    it('should detect line endings', () => {
+      expect(detectTextFormat('a\nb\n').lineEnding).toBe('LF');
+      expect(detectTextFormat('a\r\nb\r\n').lineEnding).toBe('CRLF');
+      expect(detectTextFormat('a\rb').lineEnding).toBe('CR');
+      expect(detectTextFormat('a\r\nb\n').lineEnding).toBe('mixed');
+      expect(detectTextFormat('abc').lineEnding).toBe('none');
+    });
+
+    it('should count line endings by kind', () => {
+      expect(detectTextFormat('a\r\nb\nc\r\n').lineEndingCounts).toEqual({ LF: 1, CRLF: 2, CR: 0 });
+    });
+
+    it('should detect BOM, final newline and trailing blank lines', () => {
+      const format = detectTextFormat('\uFEFFa\nb\n\n\n');
+      expect(format.bom).toBe(true);
+      expect(format.finalNewline).toBe(true);
+      expect(format.trailingBlankLines).toBe(2);
+      expect(detectTextFormat('a\nb').finalNewline).toBe(false);
+    });
+  });
+
+  describe('splitTrailingLineBreaks', () => {
+    it('should strip the BOM and trailing line breaks', () => {
+      expect(splitTrailingLineBreaks('\uFEFFa\r\nb\r\n\r\n')).toEqual({
+        body: 'a\r\nb',
+        finalLineBreak: '\r\n',
+        trailingBlankLines: 1,
+      });
+    });
+  });
+
+  describe('compareTextFormats', () => {
+    it('should report a line ending change', () => {
+      const summary = compareTextFormats('a\r\nb\r\n', 'a\nb\n');
+      expect(summary.differences.map(difference => difference.kind)).toEqual(['line-ending']);
+      expect(summary.differences[0].message).toContain('CRLF to LF');
+    });
+
+    it('should not report line endings for text without line breaks', () => {
+      expect(compareTextFormats('abc', 'abc\r\n').differences.map(difference => difference.kind)).toEqual(['final-newline']);
+    });
+
+    it('should report BOM and trailing blank line changes', () => {
+      const kinds = compareTextFormats('\uFEFFa\n', 'a\n\n\n').differences.map(difference => difference.kind);
+      expect(kinds).toEqual(['bom', 'trailing-blank-lines']);
+    });
+
+    it('should report nothing for identical formats', () => {
+      expect(compareTextFormats('a\nb\n', 'c\nd\n').differences).toEqual([]);
+    });
+  });
+
+  describe('computeLineDiff', () => {
+    it('should show CRLF to LF as a format change without line changes', () => {
+      const result = computeLineDiff('one\r\ntwo\r\n', 'one\ntwo\n');
+      expect(result.left.every(line => !line.removed && !line.added)).toBe(true);
+      expect(result.formatSummary?.differences.map(difference => difference.kind)).toEqual(['line-ending']);
+    });
+
+    it('should ignore a BOM when comparing lines', () => {
+      const result = computeLineDiff('\uFEFFone\ntwo', 'one\ntwo');
+      expect(result.left.map(line => line.value)).toEqual(['one', 'two']);
+      expect(result.left.every(line => !line.removed)).toBe(true);
+      expect(result.formatSummary?.differences.map(difference => difference.kind)).toEqual(['bom']);
+    });
+
+    it('should add a marker row to the side without a final newline', () => {
+      const result = computeLineDiff('one\ntwo', 'one\ntwo\n');
+      const lastLeft = result.left[result.left.length - 1];
+      const lastRight = result.right[result.right.length - 1];
+
+      expect(lastLeft).toMatchObject({ value: NO_NEWLINE_MARKER, extraLine: true });
+      expect(lastRight.spacer).toBe(true);
+      expect(realLines(result.left).map(line => line.value)).toEqual(['one', 'two']);
+      expect(realLines(result.right).map(line => line.value)).toEqual(['one', 'two']);
+    });
+
+    it('should keep the marker row when the texts also differ', () => {
+      const result = computeLineDiff('one\ntwo\n', 'one\nthree');
+      expect(result.right[result.right.length - 1]).toMatchObject({ value: NO_NEWLINE_MARKER, extraLine: true });
+      expect(realLines(result.right).map(line => line.value)).toEqual(['one', 'three']);
+    });
+
+    it('should show per-line ending changes when comparing line endings', () => {
+      const result = computeLineDiff('one\r\ntwo\r\nthree\r\n', 'one\r\ntwo\nthree\r\n', { compareLineEndings: true });
+
+      expect(result.left[0]).toMatchObject({ value: `one${EOL_GLYPHS.CRLF}` });
+      expect(result.left[0].removed).toBeFalsy();
+      expect(result.left[1]).toMatchObject({ value: `two${EOL_GLYPHS.CRLF}`, removed: true });
+      expect(result.right[1]).toMatchObject({ value: `two${EOL_GLYPHS.LF}`, added: true });
+      expect(result.left[2].removed).toBeFalsy();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { codeTokenizer, diffTokens, getTokenizer, registerTokenizer } from '@/utils/diff/tokenizer';
+import { applyWordDiffs } from '@/utils/diff/wordDiffer';
+import type { DiffResultWithLineNumbers } from '@/utils/diff/types';
+
+const changedParts = (line: DiffResultWithLineNumbers) =>
+  (line.inlineChanges || []).filter(part => part.added || part.removed).map(part => part.value);
+
+const diffPair = (left: string, right: string, language = 'javascript') => {
+  const leftLines: DiffResultWithLineNumbers[] = [{ value: left, lineNumber: 1, modified: true }];
+  const rightLines: DiffResultWithLineNumbers[] = [{ value: right, lineNumber: 1, modified: true }];
+  applyWordDiffs(leftLines, rightLines, { language });
+  return { left: leftLines[0], right: rightLines[0] };
+};
+
+describe('Tokenizer', () => {
+  describe('codeTokenizer', () => {
+    it('should split camelCase and PascalCase identifiers', () => {
+      expect(codeTokenizer.tokenize('getUserById')).toEqual(['get', 'User', 'By', 'Id']);
+      expect(codeTokenizer.tokenize('XMLHttpRequest')).toEqual(['XML', 'Http', 'Request']);
+    });
+
+    it('should split snake_case identifiers and numbers', () => {
+      expect(codeTokenizer.tokenize('max_retry_count2')).toEqual(['max', '_', 'retry', '_', 'count', '2']);
+      expect(codeTokenizer.tokenize('0xFF + 42')).toEqual(['0xFF', ' ', '+', ' ', '42']);
+    });
+
+    it('should keep multi-character operators together', () => {
+      expect(codeTokenizer.tokenize('a !== b => c?.d')).toEqual(['a', ' ', '!==', ' ', 'b', ' ', '=>', ' ', 'c', '?.', 'd']);
+    });
+
+    it('should split string literal contents', () => {
+      expect(codeTokenizer.tokenize('"hello world"')).toEqual(['"', 'hello', ' ', 'world', '"']);
+      expect(codeTokenizer.tokenize('f("HTTPError", \'iPhone\')')).toEqual(['f', '(', '"', 'HTTPError', '"', ',', ' ', "'", 'iPhone', "'", ')']);
+    });
+
+    it('should round-trip any text', () => {
+      const text = 'const ñame = `${a}` // 注释 \t✓';
+      expect(codeTokenizer.tokenize(text).join('')).toBe(text);
+    });
+  });
+
+  describe('registry', () => {
+    afterEach(() => {
+      registerTokenizer(['javascript'], codeTokenizer);
+    });
+
+    it('should pick the code tokenizer for code languages only', () => {
+      expect(getTokenizer('typescript')).toBe(codeTokenizer);
+      expect(getTokenizer('plaintext')).toBeUndefined();
+      expect(getTokenizer('markdown')).toBeUndefined();
+      expect(getTokenizer(undefined)).toBeUndefined();
+    });
+
+    it('should use a registered tokenizer', () => {
+      const charTokenizer = { id: 'chars', tokenize: (text: string) => Array.from(text) };
+      registerTokenizer(['javascript'], charTokenizer);
+
+      const { left, right } = diffPair('abc', 'abd');
+      expect(changedParts(left)).toEqual(['c']);
+      expect(changedParts(right)).toEqual(['d']);
+    });
+  });
+
+  describe('diffTokens', () => {
+    it('should join unchanged runs of tokens', () => {
+      expect(diffTokens('getUserById', 'getUserByName', codeTokenizer)).toEqual([
+        { value: 'getUserBy', added: undefined, removed: undefined },
+        { value: 'Id', added: undefined, removed: true },
+        { value: 'Name', added: true, removed: undefined },
+      ]);
+    });
+  });
+
+  describe('inline highlights', () => {
+    it('should highlight only the changed camelCase part', () => {
+      const { left, right } = diffPair('const user = getUserById(id);', 'const user = getUserByName(id);');
+      expect(changedParts(left)).toEqual(['Id']);
+      expect(changedParts(right)).toEqual(['Name']);
+    });
+
+    it('should highlight only the changed snake_case part', () => {
+      const { left, right } = diffPair('total = order_net_price', 'total = order_gross_price', 'python');
+      expect(changedParts(left)).toEqual(['net']);
+      expect(changedParts(right)).toEqual(['gross']);
+    });
+
+    it('should highlight changed words inside string literals', () => {
+      const { left, right } = diffPair('log("Saving the file")', 'log("Saving the document")');
+      expect(changedParts(left)).toEqual(['file']);
+      expect(changedParts(right)).toEqual(['document']);
+    });
+
+    it('should highlight whole words inside string literals', () => {
+      const { left, right } = diffPair('throw new HttpError("HTTPError on iPhone")', 'throw new HttpError("HTTPError on iPad")');
+      expect(changedParts(left)).toEqual(['iPhone']);
+      expect(changedParts(right)).toEqual(['iPad']);
+    });
+
+    it('should keep whole-word highlights without a language', () => {
+      const { left, right } = diffPair('call getUserById now', 'call getUserByName now', 'plaintext');
+      expect(changedParts(left)).toEqual(['getUserById']);
+      expect(changedParts(right)).toEqual(['getUserByName']);
+    });
+  });
+});
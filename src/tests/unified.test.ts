@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { computeLineDiff } from '@/utils/diff';
+import { buildUnifiedLines } from '@/utils/diff/unified';
+
+const render = (oldText: string, newText: string) =>
+  buildUnifiedLines(computeLineDiff(oldText, newText)).map(line =>
+    `${line.oldLineNumber ?? ''}|${line.newLineNumber ?? ''}|${{ left: '-', right: '+', both: ' ' }[line.side]}${line.value}`
+  );
+
+describe('Unified Diff', () => {
+  it('should show unchanged lines once with both line numbers', () => {
+    expect(render('a\nb\n', 'a\nb\n')).toEqual(['1|1| a', '2|2| b']);
+  });
+
+  it('should list removed lines before the added lines of each change', () => {
+    expect(render('a\nb\nc\nd\n', 'a\nB\nc\nd\ne\n')).toEqual([
+      '1|1| a',
+      '2||-b',
+      '|2|+B',
+      '3|3| c',
+      '4|4| d',
+      '|5|+e',
+    ]);
+  });
+
+  it('should keep inline changes of modified lines on both rows', () => {
+    const lines = buildUnifiedLines(computeLineDiff('const total = 1;\n', 'const total = 2;\n'));
+
+    expect(lines.map(line => line.side)).toEqual(['left', 'right']);
+    expect(lines[0].inlineChanges!.some(part => part.removed && part.value === '1')).toBe(true);
+    expect(lines[1].inlineChanges!.some(part => part.added && part.value === '2')).toBe(true);
+  });
+
+  it('should skip spacer rows and keep marker rows on their side', () => {
+    const lines = buildUnifiedLines(computeLineDiff('a\nb', 'a\nb\nc\n'));
+
+    expect(lines.some(line => line.spacer)).toBe(false);
+    expect(lines.map(line => [line.side, line.extraLine ?? false])).toEqual([
+      ['both', false],
+      ['both', false],
+      ['left', true],
+      ['right', false],
+    ]);
+  });
+});
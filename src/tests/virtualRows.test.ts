@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { ROW_HEIGHT_PX, itemOffsets, visibleRowRange } from '@/utils/virtualRows';
+
+describe('Virtual Rows', () => {
+  it('should render the visible rows with overscan on both sides', () => {
+    expect(visibleRowRange(50000, 1000 * ROW_HEIGHT_PX, 1030 * ROW_HEIGHT_PX)).toEqual({ start: 980, end: 1050 });
+  });
+
+  it('should clamp the range to the rows of the list', () => {
+    expect(visibleRowRange(50000, 0, 30 * ROW_HEIGHT_PX)).toEqual({ start: 0, end: 50 });
+    expect(visibleRowRange(100, 90 * ROW_HEIGHT_PX, 120 * ROW_HEIGHT_PX)).toEqual({ start: 70, end: 100 });
+  });
+
+  it('should include partly visible rows', () => {
+    expect(visibleRowRange(50000, 1000 * ROW_HEIGHT_PX + 5, 1030 * ROW_HEIGHT_PX - 5)).toEqual({ start: 980, end: 1050 });
+    expect(visibleRowRange(50000, 1000 * ROW_HEIGHT_PX - 5, 1030 * ROW_HEIGHT_PX + 5)).toEqual({ start: 979, end: 1051 });
+  });
+
+  it('should return an empty range for a list scrolled out of view', () => {
+    expect(visibleRowRange(100, 500 * ROW_HEIGHT_PX, 530 * ROW_HEIGHT_PX)).toEqual({ start: 100, end: 100 });
+  });
+
+  it('should count the visual rows of wrapped rows', () => {
+    const items = [{ kind: 'row' as const, row: 0 }, { kind: 'row' as const, row: 1 }, { kind: 'row' as const, row: 2 }];
+    expect(itemOffsets(items, [3, 1, 2])).toEqual([0, 3, 4, 6]);
+    expect(itemOffsets(items)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should find the rows in view from their visual rows', () => {
+    // 2000 rows of 3 visual rows each
+    const offsets = Array.from({ length: 2001 }, (_, row) => row * 3);
+    expect(visibleRowRange(2000, 3000 * ROW_HEIGHT_PX, 3030 * ROW_HEIGHT_PX, offsets)).toEqual({ start: 980, end: 1030 });
+  });
+});
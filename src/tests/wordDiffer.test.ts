@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { applyWordDiffs } from '@/utils/diff/wordDiffer';
-import type { DiffResultWithLineNumbers } from '@/utils/diff/types';
+import type { DiffOptions, DiffResultWithLineNumbers } from '@/utils/diff/types';
 
 describe('WordDiffer', () => {
   describe('applyWordDiffs', () => {
@@ -203,4 +203,101 @@ describe('WordDiffer', () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe('applyWordDiffs with comparison options', () => {
+    const joinParts = (line: DiffResultWithLineNumbers) =>
+      line.inlineChanges!.map(part => part.value).join('');
+
+    it('should keep the original whitespace of each side in common parts', () => {
+      const leftLines: DiffResultWithLineNumbers[] = [{ value: 'a  b c', lineNumber: 1, removed: true }];
+      const rightLines: DiffResultWithLineNumbers[] = [{ value: 'a b d', lineNumber: 1, added: true }];
+
+      applyWordDiffs(leftLines, rightLines);
+
+      expect(joinParts(leftLines[0])).toBe('a  b c');
+      expect(joinParts(rightLines[0])).toBe('a b d');
+    });
+
+    it('should ignore case differences and keep original characters', () => {
+      const leftLines: DiffResultWithLineNumbers[] = [{ value: 'SELECT id FROM Users WHERE id = 1', lineNumber: 1, removed: true }];
+      const rightLines: DiffResultWithLineNumbers[] = [{ value: 'select id from users where id = 2', lineNumber: 1, added: true }];
+
+      applyWordDiffs(leftLines, rightLines, { ignoreCase: true });
+
+      expect(leftLines[0].inlineChanges!.filter(part => part.removed).map(part => part.value)).toEqual(['1']);
+      expect(rightLines[0].inlineChanges!.filter(part => part.added).map(part => part.value)).toEqual(['2']);
+      expect(joinParts(leftLines[0])).toBe('SELECT id FROM Users WHERE id = 1');
+      expect(joinParts(rightLines[0])).toBe('select id from users where id = 2');
+    });
+
+    it('should treat NFC and NFD forms as equal', () => {
+      const nfd = 'cafe\u0301 menu';
+      const nfc = 'caf\u00e9 menus';
+      const leftLines: DiffResultWithLineNumbers[] = [{ value: nfd, lineNumber: 1, removed: true }];
+      const rightLines: DiffResultWithLineNumbers[] = [{ value: nfc, lineNumber: 1, added: true }];
+
+      applyWordDiffs(leftLines, rightLines, { unicodeNormalization: 'NFC' });
+
+      const leftCommon = leftLines[0].inlineChanges!.filter(part => !part.removed).map(part => part.value).join('');
+      expect(leftCommon).toContain('cafe\u0301');
+      expect(joinParts(leftLines[0])).toBe(nfd);
+      expect(joinParts(rightLines[0])).toBe(nfc);
+    });
+
+    it('should mark lines equal after folding as unchanged', () => {
+      const leftLines: DiffResultWithLineNumbers[] = [{ value: 'Hello', lineNumber: 1, modified: true }];
+      const rightLines: DiffResultWithLineNumbers[] = [{ value: 'hELLO', lineNumber: 1, modified: true }];
+
+      applyWordDiffs(leftLines, rightLines, { ignoreCase: true });
+
+      expect(leftLines[0].inlineChanges).toEqual([{ value: 'Hello', removed: false, added: false }]);
+      expect(rightLines[0].inlineChanges).toEqual([{ value: 'hELLO', removed: false, added: false }]);
+    });
+  });
+
+  describe('semantic cleanup', () => {
+    const diffPair = (left: string, right: string, options: DiffOptions = {}) => {
+      const leftLines: DiffResultWithLineNumbers[] = [{ value: left, lineNumber: 1, modified: true }];
+      const rightLines: DiffResultWithLineNumbers[] = [{ value: right, lineNumber: 1, modified: true }];
+      applyWordDiffs(leftLines, rightLines, options);
+      return {
+        removed: leftLines[0].inlineChanges!.filter(part => part.removed).map(part => part.value),
+        added: rightLines[0].inlineChanges!.filter(part => part.added).map(part => part.value),
+        leftText: leftLines[0].inlineChanges!.map(part => part.value).join(''),
+        rightText: rightLines[0].inlineChanges!.map(part => part.value).join(''),
+      };
+    };
+
+    it('should merge scattered character edits into one change', () => {
+      const result = diffPair('abcdefghijkl', 'aXcYeZghijkl');
+      expect(result.removed).toEqual(['bcdef']);
+      expect(result.added).toEqual(['XcYeZ']);
+    });
+
+    it('should keep raw character edits when cleanup is disabled', () => {
+      const result = diffPair('abcdefghijkl', 'aXcYeZghijkl', { inlineCleanup: 'none' });
+      expect(result.removed).toEqual(['b', 'd', 'f']);
+      expect(result.added).toEqual(['X', 'Y', 'Z']);
+    });
+
+    it('should keep separate changes with long unchanged text between them', () => {
+      const result = diffPair('const first = 1; const second = 2;', 'const first = 3; const second = 4;');
+      expect(result.removed).toEqual(['1', '2']);
+      expect(result.added).toEqual(['3', '4']);
+    });
+
+    it('should keep the original text on both sides after merging', () => {
+      const left = 'call(a,  b, c)';
+      const right = 'call(x, y, z)';
+      const result = diffPair(left, right, { ignoreWhitespaceAmount: true });
+      expect(result.leftText).toBe(left);
+      expect(result.rightText).toBe(right);
+    });
+
+    it('should merge fragments with efficiency cleanup', () => {
+      const result = diffPair('abcdefghijkl', 'aXcYeZghijkl', { inlineCleanup: 'efficiency' });
+      expect(result.removed).toEqual(['bcdef']);
+      expect(result.added).toEqual(['XcYeZ']);
+    });
+  });
 });
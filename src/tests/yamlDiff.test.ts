@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { diffYamlTexts, parseYamlDocuments } from '@/utils/diff/yamlDiff';
+import { diffStructuredTexts, supportsStructuralDiff } from '@/utils/diff/structuredFormats';
+
+const deployment = (name: string, replicas: number, image = 'web:1.0') => `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: ${name}
+spec:
+  replicas: ${replicas}
+  template:
+    spec:
+      containers:
+        - name: ${name}
+          image: ${image}
+`;
+
+const service = (name: string, port: number) => `apiVersion: v1
+kind: Service
+metadata:
+  name: ${name}
+spec:
+  ports:
+    - port: ${port}
+`;
+
+const changeList = (oldText: string, newText: string) =>
+  diffYamlTexts(oldText, newText).changes.map(change => `${change.kind} ${change.path}`);
+
+describe('YAML Diff', () => {
+  describe('parseYamlDocuments', () => {
+    it('should label Kubernetes documents by kind and name', () => {
+      const docs = parseYamlDocuments(`${deployment('web', 1)}---\n${service('web', 80)}---\na: 1\n`, 'Original');
+      expect(docs.map(doc => doc.label)).toEqual(['Deployment/web', 'Service/web', 'doc[2]']);
+    });
+
+    it('should include the namespace in the identity', () => {
+      const docs = parseYamlDocuments('kind: ConfigMap\nmetadata:\n  name: app\n  namespace: prod\n', 'Original');
+      expect(docs[0].identity).toBe('ConfigMap/prod/app');
+    });
+
+    it('should throw for invalid YAML', () => {
+      expect(() => parseYamlDocuments('a: [1, 2\n', 'Modified')).toThrow(/Modified is not valid YAML/);
+    });
+  });
+
+  describe('diffYamlTexts', () => {
+    it('should use plain key paths for a single document', () => {
+      expect(changeList(deployment('web', 1), deployment('web', 3))).toEqual(['changed $.spec.replicas']);
+    });
+
+    it('should ignore key order, comments and formatting', () => {
+      const oldText = 'name: app # the app\nports: [80, 443]\nlabels: {tier: web, team: core}\n';
+      const newText = '# Application\nlabels:\n  team: core\n  tier: web\nports:\n  - 80\n  - 443\nname: "app"\n';
+      expect(changeList(oldText, newText)).toEqual([]);
+    });
+
+    it('should expand anchors, aliases and merge keys', () => {
+      const oldText = 'defaults: &defaults\n  image: node:18\n  retries: 2\nbuild:\n  <<: *defaults\n  script: make\n';
+      const newText = 'defaults: &defaults\n  image: node:20\n  retries: 2\nbuild:\n  <<: *defaults\n  script: make\n';
+      expect(changeList(oldText, newText)).toEqual(['changed $.defaults.image', 'changed $.build.image']);
+    });
+
+    it('should match documents by kind and name regardless of order', () => {
+      const oldText = `${deployment('web', 1)}---\n${service('web', 80)}`;
+      const newText = `${service('web', 8080)}---\n${deployment('web', 1, 'web:1.1')}`;
+      expect(changeList(oldText, newText)).toEqual([
+        'changed Deployment/web:$.spec.template.spec.containers[0].image',
+        'changed Service/web:$.spec.ports[0].port',
+      ]);
+    });
+
+    it('should report added and removed documents', () => {
+      const oldText = `${deployment('web', 1)}---\n${service('web', 80)}`;
+      const newText = `${deployment('web', 1)}---\n${service('api', 80)}`;
+      expect(changeList(oldText, newText)).toEqual(['removed Service/web:$', 'added Service/api:$']);
+    });
+
+    it('should match documents without identity by order', () => {
+      expect(changeList('a: 1\n---\nb: 2\n', 'a: 1\n---\nb: 3\n')).toEqual(['changed doc[1]:$.b']);
+    });
+
+    it('should build one tree node per document', () => {
+      const result = diffYamlTexts(`${deployment('web', 1)}---\n${service('web', 80)}`, `${deployment('web', 2)}---\n${service('web', 80)}`);
+      expect(result.root.children!.map(child => [child.key, child.status])).toEqual([
+        ['Deployment/web', 'contains-changes'],
+        ['Service/web', 'unchanged'],
+      ]);
+    });
+  });
+
+  describe('structured formats', () => {
+    it('should dispatch by language', () => {
+      expect(supportsStructuralDiff('yaml')).toBe(true);
+      expect(supportsStructuralDiff('json')).toBe(true);
+      expect(supportsStructuralDiff('toString')).toBe(false);
+      expect(diffStructuredTexts('yaml', 'a: 1\n', 'a: 2\n').changes).toHaveLength(1);
+      expect(() => diffStructuredTexts('python', '', '')).toThrow();
+    });
+  });
+});
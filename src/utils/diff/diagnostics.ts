@@ -0,0 +1,46 @@
+import { DiffDiagnostics, DiffFallback, DiffPhase } from './types';
+
+export function createDiagnostics(): DiffDiagnostics {
+  return { fallbacks: [], degraded: false, timings: {}, totalTime: 0 };
+}
+
+// Record a fallback, repeated fallbacks of the same kind (e.g. one per line) are counted once
+export function recordFallback(diagnostics: DiffDiagnostics | undefined, fallback: Omit<DiffFallback, 'count'>): void {
+  if (!diagnostics) return;
+
+  const existing = diagnostics.fallbacks.find(entry => entry.kind === fallback.kind);
+  if (existing) {
+    existing.count = (existing.count ?? 1) + 1;
+    if (fallback.value !== undefined && (existing.value === undefined || fallback.value > existing.value)) {
+      existing.value = fallback.value;
+    }
+  } else {
+    diagnostics.fallbacks.push({ ...fallback, count: 1 });
+  }
+
+  if (fallback.degraded) {
+    diagnostics.degraded = true;
+  }
+}
+
+// Measure the time spent in each phase. Call with the next phase on every transition, 'done' stops the timer.
+export function createPhaseTimer(diagnostics: DiffDiagnostics): (phase: DiffPhase) => void {
+  const startedAt = performance.now();
+  let currentPhase: DiffPhase | null = null;
+  let phaseStartedAt = startedAt;
+
+  return (phase: DiffPhase) => {
+    if (phase === currentPhase) return;
+
+    const now = performance.now();
+    if (currentPhase) {
+      diagnostics.timings[currentPhase] = (diagnostics.timings[currentPhase] ?? 0) + now - phaseStartedAt;
+    }
+    currentPhase = phase;
+    phaseStartedAt = now;
+
+    if (phase === 'done') {
+      diagnostics.totalTime = now - startedAt;
+    }
+  };
+}
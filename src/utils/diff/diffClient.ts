@@ -0,0 +1,150 @@
+import { runDiffRequest, type DiffWorkerRequest, type DiffWorkerResponse } from './workerProtocol';
+import { DiffOptions, DiffProgress, FormattedDiff } from './types';
+
+// Options for an asynchronous diff computation
+export interface ComputeDiffAsyncOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: DiffProgress) => void;
+}
+
+interface PendingRequest {
+  request: DiffWorkerRequest;
+  resolve: (diff: FormattedDiff) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: DiffProgress) => void;
+  cleanup: () => void;
+}
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+function createAbortError(): Error {
+  return new DOMException('Diff computation was cancelled', 'AbortError');
+}
+
+// Check whether an error comes from a cancelled computation
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function handleResponse(response: DiffWorkerResponse): void {
+  const pending = pendingRequests.get(response.id);
+  if (!pending) return;
+
+  if (response.type === 'progress') {
+    pending.onProgress?.(response.progress);
+    return;
+  }
+
+  pendingRequests.delete(response.id);
+  pending.cleanup();
+
+  if (response.type === 'result') {
+    pending.resolve(response.diff);
+  } else {
+    pending.reject(new Error(response.message));
+  }
+}
+
+// Compute on the main thread after yielding once so the UI can paint
+function runOnMainThread(request: DiffWorkerRequest): void {
+  setTimeout(() => {
+    if (!pendingRequests.has(request.id)) return;
+    runDiffRequest(request, handleResponse);
+  }, 0);
+}
+
+// Worker failed to load or crashed: finish pending requests on the main thread
+function handleWorkerError(event: ErrorEvent): void {
+  console.warn('Diff worker failed, falling back to main thread:', event.message);
+  event.preventDefault?.();
+  worker?.terminate();
+  worker = null;
+  workerUnavailable = true;
+  pendingRequests.forEach(pending => runOnMainThread(pending.request));
+}
+
+function getWorker(): Worker | null {
+  if (worker) return worker;
+  if (workerUnavailable || typeof Worker === 'undefined') return null;
+
+  try {
+    worker = new Worker(new URL('../../workers/diff.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<DiffWorkerResponse>) => handleResponse(event.data);
+    worker.onerror = handleWorkerError;
+  } catch (e) {
+    console.warn('Diff worker could not be created, using main thread:', e);
+    worker = null;
+    workerUnavailable = true;
+  }
+
+  return worker;
+}
+
+function dispatch(request: DiffWorkerRequest): void {
+  const activeWorker = getWorker();
+  if (activeWorker) {
+    activeWorker.postMessage(request);
+  } else {
+    runOnMainThread(request);
+  }
+}
+
+// Cancel a request. The worker cannot be interrupted mid-computation, so it is
+// replaced and the other pending requests are sent to the new one.
+function cancelRequest(id: number): void {
+  const pending = pendingRequests.get(id);
+  if (!pending) return;
+
+  pendingRequests.delete(id);
+  pending.cleanup();
+  pending.reject(createAbortError());
+
+  if (worker) {
+    worker.terminate();
+    worker = null;
+    pendingRequests.forEach(other => dispatch(other.request));
+  }
+}
+
+// Compute a line diff off the main thread with progress reporting and cancellation
+export function computeLineDiffAsync(
+  oldText: string,
+  newText: string,
+  options: DiffOptions = {},
+  { signal, onProgress }: ComputeDiffAsyncOptions = {}
+): Promise<FormattedDiff> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  return new Promise<FormattedDiff>((resolve, reject) => {
+    const request: DiffWorkerRequest = { id: nextRequestId++, oldText, newText, options };
+    const handleAbort = () => cancelRequest(request.id);
+
+    pendingRequests.set(request.id, {
+      request,
+      resolve,
+      reject,
+      onProgress,
+      cleanup: () => signal?.removeEventListener('abort', handleAbort),
+    });
+
+    signal?.addEventListener('abort', handleAbort);
+    dispatch(request);
+  });
+}
+
+// Stop the worker and reject everything still pending, e.g. on page teardown
+export function terminateDiffWorker(): void {
+  worker?.terminate();
+  worker = null;
+  workerUnavailable = false;
+  pendingRequests.forEach(pending => {
+    pending.cleanup();
+    pending.reject(createAbortError());
+  });
+  pendingRequests.clear();
+}
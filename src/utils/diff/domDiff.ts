@@ -0,0 +1,243 @@
+import { diffArrays } from 'diff';
+import { deepEqual } from './structuralDiff';
+import { StructuralChange, StructuralDiff, StructuralNode } from './types';
+
+interface DomElement {
+  type: 'element';
+  name: string;
+  attributes: Record<string, string>;
+  children: DomNode[];
+}
+
+interface DomText {
+  type: 'text';
+  value: string;
+}
+
+// Plain copy of the parts of a DOM that count as content
+type DomNode = DomElement | DomText;
+
+type MarkupLanguage = 'xml' | 'html';
+
+const MAX_TEXT_PREVIEW_LENGTH = 40;
+
+// Copy a parsed node, text is whitespace-collapsed and comments and processing instructions are dropped
+function toDomNode(node: Node, language: MarkupLanguage): DomNode | null {
+  if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+    const value = (node.nodeValue || '').replace(/\s+/g, ' ').trim();
+    return value ? { type: 'text', value } : null;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+  const element = node as Element;
+  const attributes: Record<string, string> = {};
+  for (const attribute of Array.from(element.attributes)) {
+    attributes[attribute.name] = attribute.value;
+  }
+
+  return {
+    type: 'element',
+    // HTML tag names are case-insensitive, XML keeps the qualified name
+    name: language === 'html' ? element.localName : element.nodeName,
+    attributes,
+    children: Array.from(element.childNodes)
+      .map(child => toDomNode(child, language))
+      .filter((child): child is DomNode => child !== null),
+  };
+}
+
+// Parse a document with DOMParser, throws when an XML side does not parse.
+// HTML never fails, the parser repairs it the way a browser would.
+export function parseMarkup(text: string, language: MarkupLanguage, side: string): DomElement {
+  const document = new DOMParser().parseFromString(text, language === 'html' ? 'text/html' : 'application/xml');
+
+  const error = document.getElementsByTagName('parsererror')[0];
+  if (language === 'xml' && error) {
+    // Browsers wrap the parser message in headings, the message itself is in a div
+    const detail = error.querySelector('div') || error;
+    const message = (detail.textContent || 'Unknown error').replace(/\s+/g, ' ').trim();
+    throw new Error(`${side} is not valid XML: ${message}`);
+  }
+  if (!document.documentElement) {
+    throw new Error(`${side} has no root element`);
+  }
+
+  return toDomNode(document.documentElement, language) as DomElement;
+}
+
+// Short markup for a node, e.g. <item id="2">…</item>
+function previewNode(node: DomNode): string {
+  if (node.type === 'text') {
+    return node.value.length > MAX_TEXT_PREVIEW_LENGTH ? `${node.value.slice(0, MAX_TEXT_PREVIEW_LENGTH)}…` : node.value;
+  }
+  const attributes = Object.entries(node.attributes).map(([name, value]) => ` ${name}="${value}"`).join('');
+  if (node.children.length === 0) return `<${node.name}${attributes}/>`;
+
+  const [first] = node.children;
+  const content = node.children.length === 1 && first.type === 'text' ? previewNode(first) : '…';
+  return `<${node.name}${attributes}>${content}</${node.name}>`;
+}
+
+// XPath step of each node among its siblings: name or text(), indexed only when the step is ambiguous
+function siblingSteps(nodes: DomNode[]): string[] {
+  const baseSteps = nodes.map(node => node.type === 'text' ? 'text()' : node.name);
+  const totals = new Map<string, number>();
+  baseSteps.forEach(step => totals.set(step, (totals.get(step) || 0) + 1));
+
+  const seen = new Map<string, number>();
+  return baseSteps.map(step => {
+    const position = (seen.get(step) || 0) + 1;
+    seen.set(step, position);
+    return totals.get(step)! > 1 ? `${step}[${position}]` : step;
+  });
+}
+
+// Nodes of the same type and tag are compared in place instead of being removed and added
+const isSameKind = (a: DomNode, b: DomNode) =>
+  a.type === b.type && (a.type === 'text' || a.name === (b as DomElement).name);
+
+function addedNode(node: DomNode, key: string, path: string, changes: StructuralChange[]): StructuralNode {
+  const newValue = previewNode(node);
+  changes.push({ path, kind: 'added', newValue });
+  return { key, path, status: 'added', newValue };
+}
+
+function removedNode(node: DomNode, key: string, path: string, changes: StructuralChange[]): StructuralNode {
+  const oldValue = previewNode(node);
+  changes.push({ path, kind: 'removed', oldValue });
+  return { key, path, status: 'removed', oldValue };
+}
+
+// Compare two nodes at an XPath, recording changes and returning the tree node
+function compareNodes(oldNode: DomNode, newNode: DomNode, key: string, path: string, changes: StructuralChange[]): StructuralNode {
+  const oldValue = previewNode(oldNode);
+  const newValue = previewNode(newNode);
+
+  if (deepEqual(oldNode, newNode)) {
+    return { key, path, status: 'unchanged', oldValue, newValue };
+  }
+  if (oldNode.type === 'text' || newNode.type === 'text' || oldNode.name !== newNode.name) {
+    const textChange = oldNode.type === 'text' && newNode.type === 'text';
+    const change = {
+      oldValue: textChange ? (oldNode as DomText).value : oldValue,
+      newValue: textChange ? (newNode as DomText).value : newValue,
+    };
+    changes.push({ path, kind: 'changed', ...change });
+    return { key, path, status: 'changed', ...change };
+  }
+
+  const children = [
+    ...compareAttributes(oldNode.attributes, newNode.attributes, path, changes),
+    ...compareChildren(oldNode.children, newNode.children, path, changes),
+  ];
+  return { key, path, status: 'contains-changes', oldValue, newValue, children };
+}
+
+// Attributes are matched by name, their order does not count
+function compareAttributes(
+  oldAttributes: Record<string, string>,
+  newAttributes: Record<string, string>,
+  path: string,
+  changes: StructuralChange[]
+): StructuralNode[] {
+  const has = (attributes: Record<string, string>, name: string) => Object.prototype.hasOwnProperty.call(attributes, name);
+  const names = [...Object.keys(oldAttributes), ...Object.keys(newAttributes).filter(name => !has(oldAttributes, name))];
+
+  return names.map(name => {
+    const key = `@${name}`;
+    const attributePath = `${path}/${key}`;
+    const oldValue = oldAttributes[name];
+    const newValue = newAttributes[name];
+
+    if (!has(newAttributes, name)) {
+      changes.push({ path: attributePath, kind: 'removed', oldValue });
+      return { key, path: attributePath, status: 'removed', oldValue };
+    }
+    if (!has(oldAttributes, name)) {
+      changes.push({ path: attributePath, kind: 'added', newValue });
+      return { key, path: attributePath, status: 'added', newValue };
+    }
+    if (oldValue !== newValue) {
+      changes.push({ path: attributePath, kind: 'changed', oldValue, newValue });
+      return { key, path: attributePath, status: 'changed', oldValue, newValue };
+    }
+    return { key, path: attributePath, status: 'unchanged', oldValue, newValue };
+  });
+}
+
+// Align child nodes by equality, then pair removed and added nodes of the same kind between two matches.
+// Removed nodes use their XPath in the original document, all other nodes their XPath in the modified one.
+function compareChildren(oldChildren: DomNode[], newChildren: DomNode[], path: string, changes: StructuralChange[]): StructuralNode[] {
+  const oldSteps = siblingSteps(oldChildren);
+  const newSteps = siblingSteps(newChildren);
+  const nodes: StructuralNode[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let removedRun: DomNode[] = [];
+
+  const addNew = (node: DomNode) => {
+    const step = newSteps[newIndex++];
+    nodes.push(addedNode(node, step, `${path}/${step}`, changes));
+  };
+
+  const flushRemoved = (added: DomNode[] = []) => {
+    const removedStart = oldIndex - removedRun.length;
+    let next = 0;
+
+    removedRun.forEach((removed, i) => {
+      const match = added.findIndex((node, index) => index >= next && isSameKind(removed, node));
+      if (match === -1) {
+        const step = oldSteps[removedStart + i];
+        nodes.push(removedNode(removed, step, `${path}/${step}`, changes));
+        return;
+      }
+      while (next < match) addNew(added[next++]);
+      const step = newSteps[newIndex++];
+      nodes.push(compareNodes(removed, added[next++], step, `${path}/${step}`, changes));
+    });
+    while (next < added.length) addNew(added[next++]);
+
+    removedRun = [];
+  };
+
+  for (const change of diffArrays<DomNode, DomNode>(oldChildren, newChildren, { comparator: deepEqual })) {
+    if (change.removed) {
+      removedRun = change.value;
+      oldIndex += change.value.length;
+    } else if (change.added) {
+      flushRemoved(change.value);
+    } else {
+      flushRemoved();
+      change.value.forEach(node => {
+        const step = newSteps[newIndex++];
+        const value = previewNode(node);
+        nodes.push({ key: step, path: `${path}/${step}`, status: 'unchanged', oldValue: value, newValue: value });
+      });
+      oldIndex += change.value.length;
+    }
+  }
+  flushRemoved();
+
+  return nodes;
+}
+
+// Parse both texts into DOM trees and compare elements, attributes and text nodes by XPath
+function diffMarkupTexts(oldText: string, newText: string, language: MarkupLanguage): StructuralDiff {
+  const oldRoot = parseMarkup(oldText, language, 'Original');
+  const newRoot = parseMarkup(newText, language, 'Modified');
+  const changes: StructuralChange[] = [];
+
+  const root = oldRoot.name === newRoot.name
+    ? compareNodes(oldRoot, newRoot, oldRoot.name, `/${oldRoot.name}`, changes)
+    : compareNodes(oldRoot, newRoot, '/', '/', changes);
+
+  return { root, changes };
+}
+
+export function diffXmlTexts(oldText: string, newText: string): StructuralDiff {
+  return diffMarkupTexts(oldText, newText, 'xml');
+}
+
+export function diffHtmlTexts(oldText: string, newText: string): StructuralDiff {
+  return diffMarkupTexts(oldText, newText, 'html');
+}
@@ -0,0 +1,109 @@
+import { DiffResultWithLineNumbers, FormattedDiff, UnifiedDiffLine } from './types';
+
+// Run of unchanged rows [start, end) hidden behind a fold bar
+export interface FoldRegion {
+  start: number;
+  end: number;
+}
+
+// Rows of a fold region revealed next to the changes above (top) and below (bottom) it
+export interface FoldExpansion {
+  top: number;
+  bottom: number;
+}
+
+export type FoldDirection = 'up' | 'down' | 'all';
+
+// Row of a code pane: a diff row by index, or a bar standing for the hidden rows [from, to) of a region
+export type DisplayItem =
+  | { kind: 'row'; row: number }
+  | { kind: 'fold'; region: FoldRegion; from: number; to: number; canExpandUp: boolean; canExpandDown: boolean };
+
+// Folding a single row saves no space
+const MIN_FOLDED_ROWS = 2;
+
+// Rows revealed per click on a fold bar arrow
+export const FOLD_EXPAND_STEP = 20;
+
+// Unchanged rows kept next to each change, like `git diff`
+export const DEFAULT_CONTEXT_LINES = 3;
+
+// Lines hidden by a line mask or by ignored blank lines have no change flags, whatever the other side shows
+const isChangedLine = (line?: DiffResultWithLineNumbers) =>
+  !!line && !line.spacer && (!!line.extraLine || (!line.masked && !!(line.removed || line.added || line.modified || line.moved)));
+
+// Whether each aligned row of a side-by-side diff has a change on either side. Rows of ignored lines
+// hold the line on one side and a spacer on the other, they are not changes.
+export function changedRows(diff: FormattedDiff): boolean[] {
+  const rowCount = Math.max(diff.left.length, diff.right.length);
+  return Array.from({ length: rowCount }, (_, row) => isChangedLine(diff.left[row]) || isChangedLine(diff.right[row]));
+}
+
+// Whether each row of the unified view is a change, ignored lines are listed on their side but are not
+export const changedUnifiedRows = (lines: UnifiedDiffLine[]): boolean[] =>
+  lines.map(line => line.side !== 'both' && isChangedLine(line));
+
+// Unchanged runs minus contextLines rows next to each change. The whole text folds when nothing changed.
+export function findFoldRegions(changed: boolean[], contextLines: number): FoldRegion[] {
+  const regions: FoldRegion[] = [];
+  let runStart = -1;
+
+  for (let row = 0; row <= changed.length; row++) {
+    if (row < changed.length && !changed[row]) {
+      if (runStart === -1) runStart = row;
+      continue;
+    }
+    if (runStart === -1) continue;
+
+    // Runs at the start or end of the text only keep context next to their change
+    const start = runStart === 0 ? 0 : runStart + contextLines;
+    const end = row === changed.length ? row : row - contextLines;
+    if (end - start >= MIN_FOLDED_ROWS) regions.push({ start, end });
+    runStart = -1;
+  }
+
+  return regions;
+}
+
+// Rows to render: visible rows in order, with one fold bar in place of each run of hidden rows
+export function buildDisplayItems(rowCount: number, regions: FoldRegion[], expansions: Record<number, FoldExpansion>): DisplayItem[] {
+  const items: DisplayItem[] = [];
+  let row = 0;
+
+  for (const region of regions) {
+    const expansion = expansions[region.start] ?? { top: 0, bottom: 0 };
+    const from = region.start + expansion.top;
+    const to = region.end - expansion.bottom;
+    if (to - from <= 0) continue;
+
+    for (; row < from; row++) items.push({ kind: 'row', row });
+    items.push({ kind: 'fold', region, from, to, canExpandUp: region.end < rowCount, canExpandDown: region.start > 0 });
+    row = to;
+  }
+  for (; row < rowCount; row++) items.push({ kind: 'row', row });
+
+  return items;
+}
+
+// Reveal step rows of a region: 'down' continues below the change above it, 'up' above the change below it
+export function expandFold(
+  expansions: Record<number, FoldExpansion>,
+  region: FoldRegion,
+  direction: FoldDirection,
+  step: number
+): Record<number, FoldExpansion> {
+  const current = expansions[region.start] ?? { top: 0, bottom: 0 };
+  const size = region.end - region.start;
+  const next = direction === 'all'
+    ? { top: size, bottom: 0 }
+    : direction === 'down'
+      ? { ...current, top: Math.min(current.top + step, size - current.bottom) }
+      : { ...current, bottom: Math.min(current.bottom + step, size - current.top) };
+  return { ...expansions, [region.start]: next };
+}
+
+// Expand the region containing a row so that it is rendered
+export function revealRow(regions: FoldRegion[], expansions: Record<number, FoldExpansion>, row: number): Record<number, FoldExpansion> {
+  const region = regions.find(candidate => row >= candidate.start && row < candidate.end);
+  return region ? expandFold(expansions, region, 'all', 0) : expansions;
+}
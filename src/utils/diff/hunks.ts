@@ -0,0 +1,29 @@
+import { type FoldRegion } from './folding';
+
+// Run of changed rows [start, end), the unit of next/previous change navigation
+export type Hunk = FoldRegion;
+
+// Runs of consecutive changed rows
+export function findHunks(changed: boolean[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let start = -1;
+
+  for (let row = 0; row <= changed.length; row++) {
+    if (row < changed.length && changed[row]) {
+      if (start === -1) start = row;
+    } else if (start !== -1) {
+      hunks.push({ start, end: row });
+      start = -1;
+    }
+  }
+
+  return hunks;
+}
+
+// Index of the item after (step 1) or before (step -1) the current one among count items, wrapping around.
+// Without a current item navigation starts at the first or the last one. Steps through hunks and search matches.
+export function stepIndex(count: number, current: number | null, step: 1 | -1): number | null {
+  if (count === 0) return null;
+  if (current === null) return step === 1 ? 0 : count - 1;
+  return (current + step + count) % count;
+}
@@ -1,7 +1,29 @@
-import { diffLines } from 'diff';
 import { applyWordDiffs } from './wordDiffer';
 import { detectLanguage } from './languageDetector';
-import { FormattedDiff, DiffResultWithLineNumbers } from './types';
+import { diffLinesWithAlgorithm } from './lineAlgorithms';
+import { markMovedBlocks } from './moveDetector';
+import { pairModifiedLines } from './lineAligner';
+import { findMaskedRanges, hasLineMasks, hasTokenMasks, matchesLineMask } from './masks';
+import { usesMarkupNormalization } from './markup';
+import { splitProse } from './prose';
+import { compareTextFormats, splitTrailingLineBreaks, toLineEnding, EOL_GLYPHS, NO_NEWLINE_MARKER } from './textFormat';
+import { createDiagnostics, createPhaseTimer, recordFallback } from './diagnostics';
+import { normalizeTextForComparison, normalizeLineForComparison, isBlankText } from './normalizer';
+import {
+  FormattedDiff,
+  DiffResultWithLineNumbers,
+  DiffOptions,
+  DiffAlgorithm,
+  DiffGranularity,
+  DiffProgress,
+  DiffDiagnostics,
+  FormatSummary,
+} from './types';
+
+// Inputs larger than this (chars) use the chunked line diff
+const CHUNKED_LINE_DIFF_THRESHOLD = 500000;
+// More removed lines than this factor times the old line count means the alignment went wrong
+const MAX_REMOVED_LINES_FACTOR = 1.5;
 
 // Define line comparison result type
 interface LineDiffResult {
@@ -9,29 +31,66 @@ interface LineDiffResult {
   added?: boolean;
   removed?: boolean;
   count?: number;
+  newValue?: string; // Original text of the right side for unchanged parts compared by key
+  ignored?: boolean; // Change is hidden by the comparison options (e.g. blank lines only)
 }
 
-// Text preprocessing: remove unnecessary whitespace and normalize line breaks
-function preprocessText(text: string): { processedText: string, originalLines: string[] } {
+// Text preprocessing: normalize line breaks and drop the BOM and trailing line breaks,
+// which are reported in the format summary instead
+function preprocessText(text: string, options: DiffOptions = {}): { processedText: string, originalLines: string[] } {
   if (!text) return { processedText: text, originalLines: [] };
 
-  // Normalize line breaks
-  let processed = text.replace(/\r\n|\r/g, '\n');
+  const { body, finalLineBreak } = splitTrailingLineBreaks(text);
 
-  // Remove excess empty lines at end of file (but keep one if originally present)
-  const hasTrailingNewline = processed.endsWith('\n');
-  processed = processed.replace(/\n+$/, '');
-  if (hasTrailingNewline) {
-    processed += '\n';
+  let processed: string;
+  if (options.compareLineEndings) {
+    // Make every line ending visible so changed endings show up as line changes
+    processed = body.replace(/\r\n|\r|\n/g, lineBreak => EOL_GLYPHS[toLineEnding(lineBreak)] + '\n');
+    if (finalLineBreak) {
+      processed += EOL_GLYPHS[toLineEnding(finalLineBreak)];
+    }
+  } else {
+    processed = body.replace(/\r\n|\r/g, '\n');
   }
 
+  // Terminate every line the same way on both sides so the last line compares like any other
+  processed += '\n';
+
   const originalLines = processed.split('\n');
+  originalLines.pop();
 
   return { processedText: processed, originalLines };
 }
 
+// Preprocessed text with one sentence or paragraph per line, sourceLines maps each of those lines to its source line
+function splitIntoProseUnits(
+  text: { processedText: string, originalLines: string[] },
+  granularity: Exclude<DiffGranularity, 'line'>
+): { processedText: string, originalLines: string[], sourceLines: number[] } {
+  const units = splitProse(text.originalLines.join('\n'), granularity);
+  return {
+    processedText: units.map(unit => unit.text + '\n').join(''),
+    originalLines: units.map(unit => unit.text),
+    sourceLines: units.map(unit => unit.line),
+  };
+}
+
+// Replace unit indices with source line numbers, paragraph separators get line number 0
+function restoreSourceLineNumbers(lines: DiffResultWithLineNumbers[], sourceLines: number[]): void {
+  for (const line of lines) {
+    if (!line.spacer && !line.extraLine && line.lineNumber > 0) {
+      line.lineNumber = sourceLines[line.lineNumber - 1];
+    }
+  }
+}
+
 // Process line diff calculation synchronously
-function processLineDiff(oldText: string, newText: string): LineDiffResult[] {
+function processLineDiff(
+  oldText: string,
+  newText: string,
+  algorithm: DiffAlgorithm = 'myers',
+  diagnostics?: DiffDiagnostics
+): LineDiffResult[] {
   // Quick optimization: if texts are identical, return early
   if (oldText === newText) {
     return oldText ? [{ value: oldText }] : [];
@@ -40,25 +99,40 @@ function processLineDiff(oldText: string, newText: string): LineDiffResult[] {
   const totalLength = oldText.length + newText.length;
 
   // For extremely large text, use chunked strategy
-  if (totalLength > 500000) { // 500KB threshold
+  if (totalLength > CHUNKED_LINE_DIFF_THRESHOLD) { // 500KB threshold
     console.warn(`Text extremely large (${totalLength} chars), using chunked line diff`);
-    return processChunkedLineDiff(oldText, newText);
+    return processChunkedLineDiff(oldText, newText, algorithm, diagnostics);
   }
 
-  // Use standard diff for all other cases
-  return diffLines(oldText, newText);
+  // Use the selected line diff algorithm for all other cases
+  return diffLinesWithAlgorithm(oldText, newText, algorithm);
 }
 
 // Chunked line diff processing
-function processChunkedLineDiff(oldText: string, newText: string): LineDiffResult[] {
+function processChunkedLineDiff(
+  oldText: string,
+  newText: string,
+  algorithm: DiffAlgorithm,
+  diagnostics?: DiffDiagnostics
+): LineDiffResult[] {
   const oldLines = oldText.split('\n');
   const newLines = newText.split('\n');
 
   // If number of lines is not too many, process directly
   if (oldLines.length + newLines.length < 10000) {
-    return diffLines(oldText, newText);
+    return diffLinesWithAlgorithm(oldText, newText, algorithm);
   }
 
+  // Only reported once common lines are actually skipped
+  const totalLength = oldText.length + newText.length;
+  recordFallback(diagnostics, {
+    kind: 'chunked-line-diff',
+    message: `Input too large (${totalLength} chars), common leading and trailing lines are skipped before diffing`,
+    degraded: false,
+    threshold: CHUNKED_LINE_DIFF_THRESHOLD,
+    value: totalLength,
+  });
+
   // Find common beginning and ending lines
   let commonStart = 0;
   let commonEnd = 0;
@@ -92,10 +166,15 @@ function processChunkedLineDiff(oldText: string, newText: string): LineDiffResul
 
     // Diff the middle part
     try {
-      const middleDiff = diffLines(oldMiddleText, newMiddleText);
+      const middleDiff = diffLinesWithAlgorithm(oldMiddleText, newMiddleText, algorithm);
       result.push(...middleDiff);
     } catch (e) {
       // If worker fails, use simple delete/add strategy
+      recordFallback(diagnostics, {
+        kind: 'chunked-line-diff-error',
+        message: `Diffing the changed middle part failed, shown as one removed and one added block: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        degraded: true,
+      });
       if (oldMiddleText) {
         result.push({ value: oldMiddleText, removed: true });
       }
@@ -113,6 +192,160 @@ function processChunkedLineDiff(oldText: string, newText: string): LineDiffResul
   return result;
 }
 
+// Count the lines contained in a diff part value
+function countLines(value: string): number {
+  if (!value) return 0;
+  const newlines = value.split('\n').length - 1;
+  return value.endsWith('\n') ? newlines : newlines + 1;
+}
+
+// Map changes computed on normalized comparison text back onto the original lines
+function restoreOriginalLines(
+  changes: LineDiffResult[],
+  oldLines: string[],
+  newLines: string[]
+): LineDiffResult[] {
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  return changes.map(change => {
+    const count = countLines(change.value);
+    const ending = change.value.endsWith('\n') ? '\n' : '';
+
+    if (change.added) {
+      const value = newLines.slice(newIndex, newIndex + count).join('\n') + ending;
+      newIndex += count;
+      return { ...change, value };
+    }
+
+    if (change.removed) {
+      const value = oldLines.slice(oldIndex, oldIndex + count).join('\n') + ending;
+      oldIndex += count;
+      return { ...change, value };
+    }
+
+    const value = oldLines.slice(oldIndex, oldIndex + count).join('\n') + ending;
+    const newValue = newLines.slice(newIndex, newIndex + count).join('\n') + ending;
+    oldIndex += count;
+    newIndex += count;
+    return { ...change, value, newValue };
+  });
+}
+
+// Diff only the lines that are not ignored (blank lines, line masks), then weave the ignored lines back in as context
+function diffIgnoringLines(
+  oldText: string,
+  newText: string,
+  options: DiffOptions,
+  diagnostics?: DiffDiagnostics
+): LineDiffResult[] {
+  const splitLines = (text: string) => {
+    const lines = text ? text.split('\n') : [];
+    if (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+    return lines;
+  };
+
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  // Blank lines between tags are whitespace between tags in markup
+  const ignoreBlank = options.ignoreBlankLines || usesMarkupNormalization(options);
+  const isIgnored = (line: string) => (ignoreBlank && isBlankText(line)) || matchesLineMask(line, options);
+  const oldKept = oldLines.map((_, i) => i).filter(i => !isIgnored(oldLines[i]));
+  const newKept = newLines.map((_, i) => i).filter(i => !isIgnored(newLines[i]));
+
+  const toCompareText = (lines: string[], kept: number[]) =>
+    kept.map(i => normalizeLineForComparison(lines[i], options) + '\n').join('');
+
+  const keptChanges = processLineDiff(
+    toCompareText(oldLines, oldKept),
+    toCompareText(newLines, newKept),
+    options.algorithm,
+    diagnostics
+  );
+
+  type LineItem = { kind: 'same' | 'removed' | 'added'; old?: number; new?: number; ignored?: boolean };
+  const items: LineItem[] = [];
+  let oldPos = 0; // Next original old line index to emit
+  let newPos = 0; // Next original new line index to emit
+  let lastKind: LineItem['kind'] = 'same';
+
+  // Emit ignored lines preceding the given original indices
+  const flushBlanks = (oldUntil: number, newUntil: number, kind: LineItem['kind']) => {
+    if (kind === 'same') {
+      while (oldPos < oldUntil && newPos < newUntil) {
+        items.push({ kind: 'same', old: oldPos++, new: newPos++ });
+      }
+    }
+    while (oldPos < oldUntil) {
+      // Blank lines inside a removed block stay part of it, masked lines are always ignored
+      const inBlock = kind === 'removed' && lastKind === 'removed' && !matchesLineMask(oldLines[oldPos], options);
+      items.push({ kind: 'removed', old: oldPos++, ignored: !inBlock });
+    }
+    while (newPos < newUntil) {
+      const inBlock = kind === 'added' && lastKind === 'added' && !matchesLineMask(newLines[newPos], options);
+      items.push({ kind: 'added', new: newPos++, ignored: !inBlock });
+    }
+  };
+
+  let oldKeptIndex = 0;
+  let newKeptIndex = 0;
+
+  for (const change of keptChanges) {
+    const count = countLines(change.value);
+    for (let i = 0; i < count; i++) {
+      if (change.added) {
+        const target = newKept[newKeptIndex++];
+        // At the start of a hunk, emit ignored lines of both sides first so removed and added lines stay adjacent
+        if (lastKind === 'same') flushBlanks(oldKept[oldKeptIndex] ?? oldLines.length, target, 'same');
+        flushBlanks(oldPos, target, 'added');
+        items.push({ kind: 'added', new: newPos++ });
+        lastKind = 'added';
+      } else if (change.removed) {
+        const target = oldKept[oldKeptIndex++];
+        if (lastKind === 'same') flushBlanks(target, newKept[newKeptIndex] ?? newLines.length, 'same');
+        flushBlanks(target, newPos, 'removed');
+        items.push({ kind: 'removed', old: oldPos++ });
+        lastKind = 'removed';
+      } else {
+        const oldTarget = oldKept[oldKeptIndex++];
+        const newTarget = newKept[newKeptIndex++];
+        flushBlanks(oldTarget, newTarget, 'same');
+        items.push({ kind: 'same', old: oldPos++, new: newPos++ });
+        lastKind = 'same';
+      }
+    }
+  }
+  flushBlanks(oldLines.length, newLines.length, 'same');
+
+  // Merge consecutive line items into diff parts
+  const result: LineDiffResult[] = [];
+  for (const item of items) {
+    const last = result[result.length - 1];
+    const oldLine = item.old !== undefined ? oldLines[item.old] + '\n' : '';
+    const newLine = item.new !== undefined ? newLines[item.new] + '\n' : '';
+    const added = item.kind === 'added' || undefined;
+    const removed = item.kind === 'removed' || undefined;
+    const ignored = item.ignored || undefined;
+
+    if (last && last.added === added && last.removed === removed && last.ignored === ignored) {
+      last.value += item.kind === 'added' ? newLine : oldLine;
+      if (item.kind === 'same') last.newValue += newLine;
+      last.count++;
+    } else {
+      result.push({
+        value: item.kind === 'added' ? newLine : oldLine,
+        newValue: item.kind === 'same' ? newLine : undefined,
+        added,
+        removed,
+        ignored,
+        count: 1
+      });
+    }
+  }
+
+  return result;
+}
+
 // Memory-optimized line processing function
 function processLinesInBatches<T>(
   lines: T[],
@@ -125,14 +358,80 @@ function processLinesInBatches<T>(
   }
 }
 
+// Add a "No newline at end of file" marker row after the text that lacks the final newline
+function addNoNewlineMarker(result: FormattedDiff, formatSummary: FormatSummary): void {
+  if (!formatSummary.differences.some(difference => difference.kind === 'final-newline')) return;
+
+  const oldLacksNewline = !formatSummary.old.finalNewline;
+  const marker: DiffResultWithLineNumbers = { value: NO_NEWLINE_MARKER, lineNumber: -1, extraLine: true };
+  const spacer: DiffResultWithLineNumbers = { value: '', lineNumber: -1, spacer: true };
+
+  result.left.push(oldLacksNewline ? marker : spacer);
+  result.right.push(oldLacksNewline ? spacer : marker);
+}
+
+// Flag lines matching a line mask and record token mask ranges so the view can de-emphasize them
+function markMaskedRegions(lines: DiffResultWithLineNumbers[], options: DiffOptions): void {
+  const lineMasks = hasLineMasks(options);
+  const tokenMasks = hasTokenMasks(options);
+  if (!lineMasks && !tokenMasks) return;
+
+  for (const line of lines) {
+    if (line.spacer || line.extraLine) continue;
+
+    if (lineMasks && matchesLineMask(line.value, options)) {
+      line.masked = true;
+    } else if (tokenMasks) {
+      const ranges = findMaskedRanges(line.value, options);
+      if (ranges.length > 0) line.maskedRanges = ranges;
+    }
+  }
+}
+
 // Main function to compute line-by-line differences with proper alignment
 export function computeLineDiff(
   oldText: string,
   newText: string,
+  options: DiffOptions = {},
+  onProgress?: (progress: DiffProgress) => void,
 ): FormattedDiff {
-  // Preprocess text (don't ignore whitespace)
-  const processedOldText = preprocessText(oldText);
-  const processedNewText = preprocessText(newText);
+  const diagnostics = createDiagnostics();
+  const timePhase = createPhaseTimer(diagnostics);
+
+  const report = (phase: DiffProgress['phase'], percent: number) => {
+    timePhase(phase);
+    onProgress?.({ phase, percent: Math.round(percent) });
+  };
+
+  // Line endings, BOM and trailing newlines are compared on the raw input
+  const formatSummary = compareTextFormats(oldText, newText);
+
+  // Prose is aligned by sentence or paragraph, re-wrapped lines compare equal
+  const granularity = options.granularity || 'line';
+  const proseGranularity = granularity === 'line' ? null : granularity;
+
+  // Mark masked regions and attach diagnostics to the returned result
+  const finish = (result: FormattedDiff): FormattedDiff => {
+    markMaskedRegions(result.left, options);
+    markMaskedRegions(result.right, options);
+    if (proseGranularity) {
+      restoreSourceLineNumbers(result.left, processedOldText.sourceLines);
+      restoreSourceLineNumbers(result.right, processedNewText.sourceLines);
+    } else {
+      addNoNewlineMarker(result, formatSummary);
+    }
+    report('done', 100);
+    return { ...result, diagnostics, formatSummary };
+  };
+
+  report('preparing', 0);
+
+  // Preprocess text (don't ignore whitespace), prose units never show line ending glyphs
+  const textOptions = proseGranularity ? { ...options, compareLineEndings: false } : options;
+  const toUnits = (text: { processedText: string, originalLines: string[] }) =>
+    proseGranularity ? splitIntoProseUnits(text, proseGranularity) : { ...text, sourceLines: [] };
+  const processedOldText = toUnits(preprocessText(oldText, textOptions));
+  const processedNewText = toUnits(preprocessText(newText, textOptions));
 
   // Early return for identical texts
   if (processedOldText.processedText === processedNewText.processedText) {
@@ -141,9 +440,6 @@ export function computeLineDiff(
     const rightLines: DiffResultWithLineNumbers[] = [];
 
     lines.forEach((line, index) => {
-      // Check and remove last empty line
-      if (index === lines.length - 1 && line === '') return;
-      
       leftLines.push({
         value: line,
         lineNumber: index + 1
@@ -154,7 +450,7 @@ export function computeLineDiff(
       });
     });
 
-    return { left: leftLines, right: rightLines };
+    return finish({ left: leftLines, right: rightLines });
   }
 
   // Split both texts into lines for diffing
@@ -175,17 +471,39 @@ export function computeLineDiff(
 
   // Get the diff results - use Worker async calculation if available
   let changes: LineDiffResult[];
+  report('diffing', 10);
   try {
-    changes = processLineDiff(processedOldText.processedText, processedNewText.processedText);
+    if (options.ignoreBlankLines || hasLineMasks(options) || usesMarkupNormalization(options)) {
+      changes = diffIgnoringLines(processedOldText.processedText, processedNewText.processedText, options, diagnostics);
+    } else {
+      // Compare normalized text when whitespace options are set, display keeps the original lines
+      const oldCompareText = normalizeTextForComparison(processedOldText.processedText, options);
+      const newCompareText = normalizeTextForComparison(processedNewText.processedText, options);
+      changes = processLineDiff(oldCompareText, newCompareText, options.algorithm, diagnostics);
+
+      if (oldCompareText !== processedOldText.processedText || newCompareText !== processedNewText.processedText) {
+        changes = restoreOriginalLines(changes, oldOriginalLines, newOriginalLines);
+      }
+    }
   } catch (e) {
     console.error('Line diff calculation failed, falling back to simple strategy:', e);
+    recordFallback(diagnostics, {
+      kind: 'line-diff-error',
+      message: `Line diff failed, all lines shown as removed and added: ${e instanceof Error ? e.message : 'Unknown error'}`,
+      degraded: true,
+    });
     // Simple fallback for extreme cases
-    return generateSimpleDiff(processedOldText.processedText, processedNewText.processedText);
+    return finish(generateSimpleDiff(processedOldText.processedText, processedNewText.processedText));
   }
 
   // Validate changes result
   if (!changes || changes.length === 0) {
-    return generateSimpleDiff(processedOldText.processedText, processedNewText.processedText);
+    recordFallback(diagnostics, {
+      kind: 'empty-changes',
+      message: 'Line diff returned no changes for different texts, all lines shown as removed and added',
+      degraded: true,
+    });
+    return finish(generateSimpleDiff(processedOldText.processedText, processedNewText.processedText));
   }
 
   // Process changes in batches for memory efficiency
@@ -198,7 +516,7 @@ export function computeLineDiff(
     const next = i + 1 < changes.length ? changes[i + 1] : null;
 
     // If we have a removed line followed by an added line, treat as modification
-    if (current.removed && next && next.added) {
+    if (current.removed && !current.ignored && next && next.added && !next.ignored) {
       processedChanges.push({
         modified: true,
         oldValue: current.value,
@@ -212,7 +530,10 @@ export function computeLineDiff(
   }
 
   // Process each change with memory optimization
-  processLinesInBatches(processedChanges, BATCH_SIZE, (batch) => {
+  report('aligning', 50);
+  processLinesInBatches(processedChanges, BATCH_SIZE, (batch, startIndex) => {
+    report('aligning', 50 + (startIndex / processedChanges.length) * 20);
+
     for (const part of batch) {
       if (part.modified) {
         // Handle modifications line by line with proper alignment
@@ -225,24 +546,60 @@ export function computeLineDiff(
         const newLineCount = newPartLines.length > 0 && newPartLines[newPartLines.length - 1] === '' ?
           newPartLines.length - 1 : newPartLines.length;
 
-        const minLines = Math.min(oldLineCount, newLineCount);
+        // Pair lines by similarity so an inserted line does not shift every pair below it
+        const rows = pairModifiedLines(
+          oldPartLines.slice(0, oldLineCount),
+          newPartLines.slice(0, newLineCount),
+          options
+        );
+
+        for (const [oldIndex, newIndex] of rows) {
+          if (oldIndex === null) {
+            // Unmatched added line
+            leftLines.push({
+              value: '',
+              lineNumber: -1,
+              spacer: true
+            });
+
+            rightLines.push({
+              value: newPartLines[newIndex],
+              added: true,
+              lineNumber: rightLineNumber++
+            });
+            continue;
+          }
+
+          if (newIndex === null) {
+            // Unmatched removed line
+            leftLines.push({
+              value: oldPartLines[oldIndex],
+              removed: true,
+              lineNumber: leftLineNumber++
+            });
+
+            rightLines.push({
+              value: '',
+              lineNumber: -1,
+              spacer: true
+            });
+            continue;
+          }
 
-        // Add paired modified lines
-        for (let i = 0; i < minLines; i++) {
-          if (oldPartLines[i] === '' && i === oldLineCount - 1 &&
-            newPartLines[i] === '' && i === newLineCount - 1) {
+          if (oldPartLines[oldIndex] === '' && oldIndex === oldLineCount - 1 &&
+            newPartLines[newIndex] === '' && newIndex === newLineCount - 1) {
             continue;
           }
 
           leftLines.push({
-            value: oldPartLines[i],
+            value: oldPartLines[oldIndex],
             removed: true,
             lineNumber: leftLineNumber++,
             modified: true
           });
 
           rightLines.push({
-            value: newPartLines[i],
+            value: newPartLines[newIndex],
             added: true,
             lineNumber: rightLineNumber++,
             modified: true
@@ -252,13 +609,13 @@ export function computeLineDiff(
           const leftObj = leftLines[leftLines.length - 1];
           const rightObj = rightLines[rightLines.length - 1];
 
-          const oldTrimmed = oldPartLines[i].trimStart();
-          const newTrimmed = newPartLines[i].trimStart();
+          const oldTrimmed = oldPartLines[oldIndex].trimStart();
+          const newTrimmed = newPartLines[newIndex].trimStart();
 
           if (oldTrimmed === newTrimmed) {
             // Only indentation difference
-            const oldSpaces = oldPartLines[i].substring(0, oldPartLines[i].length - oldTrimmed.length);
-            const newSpaces = newPartLines[i].substring(0, newPartLines[i].length - newTrimmed.length);
+            const oldSpaces = oldPartLines[oldIndex].substring(0, oldPartLines[oldIndex].length - oldTrimmed.length);
+            const newSpaces = newPartLines[newIndex].substring(0, newPartLines[newIndex].length - newTrimmed.length);
 
             leftObj.inlineChanges = [];
             rightObj.inlineChanges = [];
@@ -281,35 +638,20 @@ export function computeLineDiff(
             rightObj.indentOnly = true;
           }
         }
+      } else if (part.ignored) {
+        // Blank-only changes hidden by options: show the lines without marking them as changed
+        const lines = part.value.split('\n');
+        const lineCount = lines.length > 0 && lines[lines.length - 1] === '' ?
+          lines.length - 1 : lines.length;
 
-        // Handle remaining lines in the old text
-        for (let i = minLines; i < oldLineCount; i++) {
-          leftLines.push({
-            value: oldPartLines[i],
-            removed: true,
-            lineNumber: leftLineNumber++
-          });
-
-          rightLines.push({
-            value: '',
-            lineNumber: -1,
-            spacer: true
-          });
-        }
-
-        // Handle remaining lines in the new text
-        for (let i = minLines; i < newLineCount; i++) {
-          leftLines.push({
-            value: '',
-            lineNumber: -1,
-            spacer: true
-          });
-
-          rightLines.push({
-            value: newPartLines[i],
-            added: true,
-            lineNumber: rightLineNumber++
-          });
+        for (let i = 0; i < lineCount; i++) {
+          if (part.removed) {
+            leftLines.push({ value: lines[i], lineNumber: leftLineNumber++ });
+            rightLines.push({ value: '', lineNumber: -1, spacer: true });
+          } else {
+            leftLines.push({ value: '', lineNumber: -1, spacer: true });
+            rightLines.push({ value: lines[i], lineNumber: rightLineNumber++ });
+          }
         }
       } else if (part.added) {
         // Added lines
@@ -350,8 +692,9 @@ export function computeLineDiff(
           });
         }
       } else {
-        // Unchanged lines
+        // Unchanged lines (right side may differ in ignored whitespace)
         const lines = part.value.split('\n');
+        const newPartLines = part.newValue !== undefined ? part.newValue.split('\n') : lines;
         const lineCount = lines.length > 0 && lines[lines.length - 1] === '' ?
           lines.length - 1 : lines.length;
 
@@ -362,7 +705,7 @@ export function computeLineDiff(
           });
 
           rightLines.push({
-            value: lines[i],
+            value: newPartLines[i],
             lineNumber: rightLineNumber++
           });
         }
@@ -376,19 +719,63 @@ export function computeLineDiff(
 
   // Safety check
   const leftRemoved = leftLines.filter(line => line.removed).length;
-  if (leftRemoved > oldDiffLines.length * 1.5) { // Allow some tolerance
+  const maxRemoved = oldDiffLines.length * MAX_REMOVED_LINES_FACTOR; // Allow some tolerance
+  if (leftRemoved > maxRemoved) {
     console.warn("Diff calculation error: Excessive removed lines detected, using simple diff");
-    return generateSimpleDiff(processedOldText.processedText, processedNewText.processedText);
+    recordFallback(diagnostics, {
+      kind: 'excessive-removed-lines',
+      message: `Alignment produced ${leftRemoved} removed lines for ${oldDiffLines.length} original lines, all lines shown as removed and added`,
+      degraded: true,
+      threshold: maxRemoved,
+      value: leftRemoved,
+    });
+    return finish(generateSimpleDiff(processedOldText.processedText, processedNewText.processedText));
+  }
+
+  // Detect blocks moved within the file and compare each moved line with its destination
+  if (options.detectMoves !== false) {
+    report('detecting-moves', 70);
+    try {
+      const movedPairs = markMovedBlocks(leftLines, rightLines, options);
+      movedPairs.forEach(([leftRow, rightRow]) => {
+        if (leftLines[leftRow].value !== rightLines[rightRow].value) {
+          applyWordDiffs([leftLines[leftRow]], [rightLines[rightRow]], options, undefined, diagnostics);
+        }
+      });
+    } catch (e) {
+      console.warn('Move detection failed, continuing without moved blocks:', e);
+      recordFallback(diagnostics, {
+        kind: 'move-detection-error',
+        message: `Move detection failed, moved blocks shown as removed and added: ${e instanceof Error ? e.message : 'Unknown error'}`,
+        degraded: false,
+      });
+    }
   }
 
   // Apply character-level diffs for modified lines
   try {
-    applyWordDiffs(leftLines, rightLines);
+    report('inline', 75);
+    // Only rows paired above are compared, unmatched lines stay pure additions/removals
+    const pairedRows = leftLines
+      .map((_, row) => row)
+      .filter(row => leftLines[row].modified && rightLines[row].modified);
+    applyWordDiffs(
+      pairedRows.map(row => leftLines[row]),
+      pairedRows.map(row => rightLines[row]),
+      options,
+      (fraction) => report('inline', 75 + fraction * 25),
+      diagnostics
+    );
   } catch (e) {
     console.warn('Word diff application failed, continuing with line-level diff only:', e);
+    recordFallback(diagnostics, {
+      kind: 'inline-diff-error',
+      message: `Inline diff failed: ${e instanceof Error ? e.message : 'Unknown error'}`,
+      degraded: true,
+    });
   }
 
-  return { left: leftLines, right: rightLines };
+  return finish({ left: leftLines, right: rightLines });
 }
 
 // A simpler fallback diff generator for problematic cases
@@ -447,4 +834,4 @@ function generateSimpleDiff(oldText: string, newText: string): FormattedDiff {
 
 // Re-export all types and utilities
 export { detectLanguage };
-export type { FormattedDiff, DiffResultWithLineNumbers };
+export type { FormattedDiff, DiffResultWithLineNumbers, DiffOptions, DiffProgress, DiffDiagnostics, FormatSummary };
@@ -0,0 +1,118 @@
+import { InlineCleanup } from './types';
+
+// Edits cheaper than this many characters of equality are merged by the efficiency cleanup
+export const EFFICIENCY_EDIT_COST = 4;
+
+// One step of an inline diff with the text it covers on each side (deletes have no right text, inserts no left text).
+// Equal steps keep both texts because word diffs treat different whitespace runs as equal.
+export interface InlineOp {
+  type: 'equal' | 'delete' | 'insert';
+  left: string;
+  right: string;
+}
+
+// Merge adjacent equalities and turn each run of edits into one delete followed by one insert
+export function mergeInlineOps(ops: InlineOp[]): InlineOp[] {
+  const result: InlineOp[] = [];
+  let deleted = '';
+  let inserted = '';
+
+  const flushEdits = () => {
+    if (deleted) result.push({ type: 'delete', left: deleted, right: '' });
+    if (inserted) result.push({ type: 'insert', left: '', right: inserted });
+    deleted = '';
+    inserted = '';
+  };
+
+  for (const op of ops) {
+    if (op.type === 'delete') {
+      deleted += op.left;
+    } else if (op.type === 'insert') {
+      inserted += op.right;
+    } else if (op.left || op.right) {
+      flushEdits();
+      const last = result[result.length - 1];
+      if (last && last.type === 'equal') {
+        last.left += op.left;
+        last.right += op.right;
+      } else {
+        result.push({ ...op });
+      }
+    }
+  }
+  flushEdits();
+
+  return result;
+}
+
+interface EditGroup {
+  deleted: number; // Characters deleted
+  inserted: number; // Characters inserted
+}
+
+// Sizes of the edits directly before and after the equality at index
+function surroundingEdits(ops: InlineOp[], index: number): [EditGroup, EditGroup] {
+  const collect = (from: number, step: number): EditGroup => {
+    const group = { deleted: 0, inserted: 0 };
+    for (let i = from; i >= 0 && i < ops.length && ops[i].type !== 'equal'; i += step) {
+      if (ops[i].type === 'delete') group.deleted += ops[i].left.length;
+      else group.inserted += ops[i].right.length;
+    }
+    return group;
+  };
+  return [collect(index - 1, -1), collect(index + 1, 1)];
+}
+
+// Repeatedly replace the equalities picked by shouldEliminate with a delete and an insert until none are left
+function eliminateEqualities(
+  ops: InlineOp[],
+  shouldEliminate: (length: number, before: EditGroup, after: EditGroup) => boolean
+): InlineOp[] {
+  let current = mergeInlineOps(ops);
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    const next: InlineOp[] = [];
+
+    current.forEach((op, index) => {
+      if (op.type === 'equal' && index > 0 && index < current.length - 1) {
+        const [before, after] = surroundingEdits(current, index);
+        if (shouldEliminate(Math.max(op.left.length, op.right.length), before, after)) {
+          next.push({ type: 'delete', left: op.left, right: '' }, { type: 'insert', left: '', right: op.right });
+          changed = true;
+          return;
+        }
+      }
+      next.push(op);
+    });
+
+    current = mergeInlineOps(next);
+  }
+
+  return current;
+}
+
+// Like diff-match-patch's cleanupSemantic: drop equalities no longer than the edits on either side,
+// so scattered single-character changes read as one changed word
+export function cleanupSemantic(ops: InlineOp[]): InlineOp[] {
+  return eliminateEqualities(ops, (length, before, after) =>
+    length <= Math.max(before.deleted, before.inserted) && length <= Math.max(after.deleted, after.inserted)
+  );
+}
+
+// Like diff-match-patch's cleanupEfficiency: drop short equalities when the extra edit costs more than it saves
+export function cleanupEfficiency(ops: InlineOp[], editCost: number = EFFICIENCY_EDIT_COST): InlineOp[] {
+  return eliminateEqualities(ops, (length, before, after) => {
+    if (length >= editCost) return false;
+    const sides = [before.deleted > 0, before.inserted > 0, after.deleted > 0, after.inserted > 0].filter(Boolean).length;
+    return sides === 4 || (length * 2 < editCost && sides === 3);
+  });
+}
+
+// Apply the configured cleanup, defaults to semantic cleanup
+export function cleanupInlineOps(ops: InlineOp[], mode: InlineCleanup = 'semantic'): InlineOp[] {
+  if (mode === 'semantic') return cleanupSemantic(ops);
+  if (mode === 'efficiency') return cleanupEfficiency(ops);
+  return ops;
+}
@@ -1,3 +1,4 @@
+import { looksLikeTable } from './tableDiff';
 
 // Function to detect the probable language from content
 export function detectLanguage(content: string): string {
@@ -85,6 +86,9 @@ export function detectLanguage(content: string): string {
   // C-like languages (generic patterns)
   if (/^\s*(\/\*|\/\/)/.test(content)) return 'clike';
 
+  // CSV/TSV detection, e.g. spreadsheet pastes
+  if (looksLikeTable(content)) return 'csv';
+
   // YAML detection
   if (/^\s*[a-zA-Z_][a-zA-Z0-9_]*\s*:/m.test(content) &&
       !/^\s*\[/.test(content) &&
@@ -0,0 +1,266 @@
+import { diffArrays, diffLines } from 'diff';
+import { DiffAlgorithm } from './types';
+
+// Line diff part, compatible with the output of jsdiff's diffLines
+export interface LineDiffPart {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+  count?: number;
+}
+
+type LineOp = 'equal' | 'removed' | 'added';
+
+// Histogram diff ignores lines that occur more often than this, like git
+const MAX_HISTOGRAM_CHAIN = 64;
+
+// Histogram diff falls back to Myers below this many nested splits, which bounds its work and stack
+const MAX_HISTOGRAM_DEPTH = 64;
+
+// Split text into line tokens that keep their line break, matching diffLines tokenization
+export function tokenizeLines(text: string): string[] {
+  if (!text) return [];
+  const tokens = text.split(/(?<=\n)/);
+  return tokens.filter(token => token !== '');
+}
+
+// Collect per-token operations and merge them into diff parts
+class OpCollector {
+  private parts: LineDiffPart[] = [];
+
+  push(op: LineOp, token: string): void {
+    const last = this.parts[this.parts.length - 1];
+    const added = op === 'added' || undefined;
+    const removed = op === 'removed' || undefined;
+
+    if (last && last.added === added && last.removed === removed) {
+      last.value += token;
+      last.count!++;
+      return;
+    }
+
+    this.parts.push({ value: token, added, removed, count: 1 });
+  }
+
+  result(): LineDiffPart[] {
+    return this.parts;
+  }
+}
+
+// Diff a sub range with Myers, used when no unique anchors are available
+function myersRange(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number, out: OpCollector): void {
+  if (aLo === aHi && bLo === bHi) return;
+
+  const changes = diffArrays(a.slice(aLo, aHi), b.slice(bLo, bHi));
+  for (const change of changes) {
+    const op: LineOp = change.added ? 'added' : change.removed ? 'removed' : 'equal';
+    for (const token of change.value) {
+      out.push(op, token);
+    }
+  }
+}
+
+// Emit common prefix, recurse into the middle and emit common suffix
+function diffWithTrimmedEnds(
+  a: string[], aLo: number, aHi: number,
+  b: string[], bLo: number, bHi: number,
+  out: OpCollector,
+  diffMiddle: (aLo: number, aHi: number, bLo: number, bHi: number) => void
+): void {
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    out.push('equal', a[aLo]);
+    aLo++;
+    bLo++;
+  }
+
+  let suffix = 0;
+  while (aHi - suffix > aLo && bHi - suffix > bLo && a[aHi - suffix - 1] === b[bHi - suffix - 1]) {
+    suffix++;
+  }
+
+  if (aLo === aHi - suffix) {
+    for (let j = bLo; j < bHi - suffix; j++) out.push('added', b[j]);
+  } else if (bLo === bHi - suffix) {
+    for (let i = aLo; i < aHi - suffix; i++) out.push('removed', a[i]);
+  } else {
+    diffMiddle(aLo, aHi - suffix, bLo, bHi - suffix);
+  }
+
+  for (let i = aHi - suffix; i < aHi; i++) {
+    out.push('equal', a[i]);
+  }
+}
+
+// Longest increasing subsequence of b positions using patience sorting
+function longestIncreasingAnchors(pairs: [number, number][]): [number, number][] {
+  const piles: number[] = []; // Index into pairs of the top card of each pile
+  const previous: number[] = new Array(pairs.length);
+
+  pairs.forEach(([, bIndex], i) => {
+    let lo = 0;
+    let hi = piles.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pairs[piles[mid]][1] < bIndex) lo = mid + 1;
+      else hi = mid;
+    }
+    previous[i] = lo > 0 ? piles[lo - 1] : -1;
+    piles[lo] = i;
+  });
+
+  const result: [number, number][] = [];
+  let current = piles.length > 0 ? piles[piles.length - 1] : -1;
+  while (current !== -1) {
+    result.push(pairs[current]);
+    current = previous[current];
+  }
+
+  return result.reverse();
+}
+
+// Patience diff: anchor on lines unique to both sides, recurse between anchors
+function patienceRange(a: string[], aLo: number, aHi: number, b: string[], bLo: number, bHi: number, out: OpCollector): void {
+  diffWithTrimmedEnds(a, aLo, aHi, b, bLo, bHi, out, (aStart, aEnd, bStart, bEnd) => {
+    const counts = new Map<string, { a: number; b: number; aIndex: number; bIndex: number }>();
+
+    for (let i = aStart; i < aEnd; i++) {
+      const entry = counts.get(a[i]) || { a: 0, b: 0, aIndex: -1, bIndex: -1 };
+      entry.a++;
+      entry.aIndex = i;
+      counts.set(a[i], entry);
+    }
+    for (let j = bStart; j < bEnd; j++) {
+      const entry = counts.get(b[j]);
+      if (entry) {
+        entry.b++;
+        entry.bIndex = j;
+      }
+    }
+
+    const uniquePairs: [number, number][] = [];
+    counts.forEach(entry => {
+      if (entry.a === 1 && entry.b === 1) {
+        uniquePairs.push([entry.aIndex, entry.bIndex]);
+      }
+    });
+    uniquePairs.sort((x, y) => x[0] - y[0]);
+
+    const anchors = longestIncreasingAnchors(uniquePairs);
+    if (anchors.length === 0) {
+      myersRange(a, aStart, aEnd, b, bStart, bEnd, out);
+      return;
+    }
+
+    let aPos = aStart;
+    let bPos = bStart;
+    for (const [aIndex, bIndex] of anchors) {
+      patienceRange(a, aPos, aIndex, b, bPos, bIndex, out);
+      out.push('equal', a[aIndex]);
+      aPos = aIndex + 1;
+      bPos = bIndex + 1;
+    }
+    patienceRange(a, aPos, aEnd, b, bPos, bEnd, out);
+  });
+}
+
+// Histogram diff: split on the longest common region around the least frequent lines
+function histogramRange(
+  a: string[], aLo: number, aHi: number,
+  b: string[], bLo: number, bHi: number,
+  out: OpCollector, depth = 0
+): void {
+  diffWithTrimmedEnds(a, aLo, aHi, b, bLo, bHi, out, (aStart, aEnd, bStart, bEnd) => {
+    if (depth >= MAX_HISTOGRAM_DEPTH) {
+      myersRange(a, aStart, aEnd, b, bStart, bEnd, out);
+      return;
+    }
+
+    const occurrences = new Map<string, number[]>();
+    for (let i = aStart; i < aEnd; i++) {
+      const list = occurrences.get(a[i]);
+      if (list) list.push(i);
+      else occurrences.set(a[i], [i]);
+    }
+
+    let bestA = -1;
+    let bestB = -1;
+    let bestLength = 0;
+    let bestCount = MAX_HISTOGRAM_CHAIN;
+    let bestOffCenter = Infinity;
+
+    for (let j = bStart; j < bEnd; j++) {
+      const positions = occurrences.get(b[j]);
+      if (!positions || positions.length > bestCount) continue;
+
+      let skip = 1; // Lines covered by a region found here need not be scanned again
+      for (const i of positions) {
+        // Extend the match in both directions
+        let start = 0;
+        while (i - start > aStart && j - start > bStart && a[i - start - 1] === b[j - start - 1]) start++;
+        let end = 1;
+        while (i + end < aEnd && j + end < bEnd && a[i + end] === b[j + end]) end++;
+
+        // Rarest line inside the region decides its weight
+        let regionCount = positions.length;
+        for (let k = i - start; k < i + end; k++) {
+          regionCount = Math.min(regionCount, occurrences.get(a[k])!.length);
+        }
+
+        const length = start + end;
+        skip = Math.max(skip, end);
+        // Among equal regions the most central one keeps the splits balanced, so interleaved edits stay shallow
+        const offCenter = Math.abs(2 * (i - start) + length - aStart - aEnd);
+        if (regionCount < bestCount || (regionCount === bestCount &&
+          (length > bestLength || (length === bestLength && offCenter < bestOffCenter)))) {
+          bestA = i - start;
+          bestB = j - start;
+          bestLength = length;
+          bestCount = regionCount;
+          bestOffCenter = offCenter;
+        }
+      }
+      j += skip - 1;
+    }
+
+    if (bestLength === 0) {
+      myersRange(a, aStart, aEnd, b, bStart, bEnd, out);
+      return;
+    }
+
+    histogramRange(a, aStart, bestA, b, bStart, bestB, out, depth + 1);
+    for (let k = 0; k < bestLength; k++) {
+      out.push('equal', a[bestA + k]);
+    }
+    histogramRange(a, bestA + bestLength, aEnd, b, bestB + bestLength, bEnd, out, depth + 1);
+  });
+}
+
+// Patience line diff
+export function diffLinesPatience(oldText: string, newText: string): LineDiffPart[] {
+  const a = tokenizeLines(oldText);
+  const b = tokenizeLines(newText);
+  const out = new OpCollector();
+  patienceRange(a, 0, a.length, b, 0, b.length, out);
+  return out.result();
+}
+
+// Histogram line diff
+export function diffLinesHistogram(oldText: string, newText: string): LineDiffPart[] {
+  const a = tokenizeLines(oldText);
+  const b = tokenizeLines(newText);
+  const out = new OpCollector();
+  histogramRange(a, 0, a.length, b, 0, b.length, out);
+  return out.result();
+}
+
+// Run the selected line diff algorithm
+export function diffLinesWithAlgorithm(oldText: string, newText: string, algorithm: DiffAlgorithm = 'myers'): LineDiffPart[] {
+  switch (algorithm) {
+    case 'patience':
+      return diffLinesPatience(oldText, newText);
+    case 'histogram':
+      return diffLinesHistogram(oldText, newText);
+    default:
+      return diffLines(oldText, newText);
+  }
+}
@@ -1,5 +1,7 @@
 
-import { DiffResultWithLineNumbers } from './types';
+import { calculateSimilarity } from './wordDiffer';
+import { normalizeLineForComparison } from './normalizer';
+import { DiffResultWithLineNumbers, DiffOptions } from './types';
 
 // These functions are kept for compatibility with existing code that might import them,
 // but they are now just simple pass-through functions as the alignment is handled directly
@@ -19,3 +21,86 @@ export function alignLines(leftLines: DiffResultWithLineNumbers[], rightLines: D
   // This is now a no-op function as alignment is handled in computeLineDiff
   return { alignedLeft: leftLines, alignedRight: rightLines };
 }
+
+// Lines need at least this similarity to be shown side by side as a modification
+const PAIRING_SIMILARITY = 0.5;
+// Larger blocks fall back to pairing lines by index to bound the alignment cost
+const MAX_PAIRING_CELLS = 10000;
+
+// Index of the removed and/or added line shown on one aligned row, null where a spacer goes
+export type LinePairing = [number | null, number | null];
+
+function pairByIndex(oldCount: number, newCount: number): LinePairing[] {
+  const rows: LinePairing[] = [];
+  for (let i = 0; i < Math.max(oldCount, newCount); i++) {
+    rows.push([i < oldCount ? i : null, i < newCount ? i : null]);
+  }
+  return rows;
+}
+
+// Pair removed and added lines of a modified block by content similarity, keeping both sides in order.
+// Unmatched lines are returned on their own rows so they render as pure removals or additions.
+export function pairModifiedLines(oldLines: string[], newLines: string[], options: DiffOptions = {}): LinePairing[] {
+  const oldCount = oldLines.length;
+  const newCount = newLines.length;
+
+  if (oldCount === 0 || newCount === 0 || oldCount * newCount > MAX_PAIRING_CELLS) {
+    return pairByIndex(oldCount, newCount);
+  }
+
+  // Indentation and ignored characters do not make lines less similar
+  const oldKeys = oldLines.map(line => normalizeLineForComparison(line, options).trim());
+  const newKeys = newLines.map(line => normalizeLineForComparison(line, options).trim());
+
+  const similarity: number[][] = oldKeys.map(oldKey => newKeys.map(newKey => {
+    const value = calculateSimilarity(oldKey, newKey);
+    return value >= PAIRING_SIMILARITY ? value : 0;
+  }));
+
+  // score[i][j]: best total similarity pairing the first i old lines with the first j new lines
+  const score: number[][] = Array.from({ length: oldCount + 1 }, () => new Array(newCount + 1).fill(0));
+  for (let i = 1; i <= oldCount; i++) {
+    for (let j = 1; j <= newCount; j++) {
+      const paired = similarity[i - 1][j - 1] > 0 ? score[i - 1][j - 1] + similarity[i - 1][j - 1] : 0;
+      score[i][j] = Math.max(paired, score[i - 1][j], score[i][j - 1]);
+    }
+  }
+
+  // Walk back from the end, preferring pairs over skipping lines
+  const pairs: [number, number][] = [];
+  let i = oldCount;
+  let j = newCount;
+  while (i > 0 && j > 0) {
+    const value = similarity[i - 1][j - 1];
+    if (value > 0 && score[i][j] === score[i - 1][j - 1] + value) {
+      pairs.push([i - 1, j - 1]);
+      i--;
+      j--;
+    } else if (score[i][j] === score[i - 1][j]) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  pairs.reverse();
+
+  // A rewritten block of the same size still reads best line by line
+  if (pairs.length === 0 && oldCount === newCount) {
+    return pairByIndex(oldCount, newCount);
+  }
+
+  const rows: LinePairing[] = [];
+
+  // Emit unmatched removals, then unmatched additions, before each pair
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const [pairOld, pairNew] of [...pairs, [oldCount, newCount]]) {
+    while (oldIndex < pairOld) rows.push([oldIndex++, null]);
+    while (newIndex < pairNew) rows.push([null, newIndex++]);
+    if (pairOld < oldCount && pairNew < newCount) {
+      rows.push([oldIndex++, newIndex++]);
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,47 @@
+import { matchesLineMask } from './masks';
+import { normalizeLineForComparison } from './normalizer';
+import { DiffOptions, LineSetComparison } from './types';
+
+// Natural order so that "pkg2" sorts before "pkg10" and 10.0.0.2 before 10.0.0.10
+const collator = new Intl.Collator(undefined, { numeric: true });
+
+// Distinct non-blank lines by comparison key, the first occurrence is kept
+function distinctLines(text: string, options: DiffOptions): { lines: Map<string, string>; duplicates: number } {
+  const lines = new Map<string, string>();
+  let duplicates = 0;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.trim();
+    if (!line || matchesLineMask(line, options)) continue;
+    const key = normalizeLineForComparison(line, options);
+    if (lines.has(key)) {
+      duplicates++;
+    } else {
+      lines.set(key, line);
+    }
+  }
+
+  return { lines, duplicates };
+}
+
+const sortLines = (lines: string[]) => lines.sort((a, b) => collator.compare(a, b) || (a < b ? -1 : a > b ? 1 : 0));
+
+// Compare two lists ignoring order: lines are trimmed, blank and line-masked lines skipped and duplicates dropped.
+// Case folding, Unicode normalization, whitespace modes and masks from the options decide which lines are equal.
+export function compareLineSets(leftText: string, rightText: string, options: DiffOptions = {}): LineSetComparison {
+  const left = distinctLines(leftText, options);
+  const right = distinctLines(rightText, options);
+
+  const onlyLeft: string[] = [];
+  const both: string[] = [];
+  left.lines.forEach((line, key) => (right.lines.has(key) ? both : onlyLeft).push(line));
+  const onlyRight = Array.from(right.lines).filter(([key]) => !left.lines.has(key)).map(([, line]) => line);
+
+  return {
+    onlyLeft: sortLines(onlyLeft),
+    onlyRight: sortLines(onlyRight),
+    both: sortLines(both),
+    leftDuplicates: left.duplicates,
+    rightDuplicates: right.duplicates,
+  };
+}
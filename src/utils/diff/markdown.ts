@@ -0,0 +1,248 @@
+import { MarkdownAlignment, MarkdownBlock, MarkdownSpan } from './types';
+
+type SpanStyle = Omit<MarkdownSpan, 'text'>;
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?=[ \t]|$)[ \t]*(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE = /^([ \t]*)(`{3,}|~{3,})[ \t]*([^\s`]*)/;
+const LIST_ITEM = /^([ \t]*)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*)|$)/;
+const TASK = /^\[([ xX])\](?:[ \t]+|$)/;
+const QUOTE = /^ {0,3}>[ \t]?/;
+const TABLE_DELIMITER = /^[ \t]*\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const INDENTED_CODE_WIDTH = 4;
+
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'" };
+const LINK_TARGET = String.raw`\(\s*<?([^\s)>]*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)`;
+const LINK_LABEL = String.raw`\[((?:\\.|[^\]\\])*)\]`;
+
+// Inline constructs tried at '`', '!', '[', '<', '*', '_' and '~', in order
+const INLINE_RULES: { pattern: RegExp; render: (match: RegExpExecArray, style: SpanStyle) => MarkdownSpan[] }[] = [
+  { pattern: /(`+)([\s\S]*?[^`])\1(?!`)/y, render: (m, style) => [{ ...style, text: m[2].replace(/^ ([\s\S]*) $/, '$1'), code: true }] },
+  { pattern: new RegExp(`!${LINK_LABEL}${LINK_TARGET}`, 'y'), render: (m, style) => [{ ...style, text: unescape(m[1]), href: m[2], image: true }] },
+  { pattern: new RegExp(LINK_LABEL + LINK_TARGET, 'y'), render: (m, style) => parseSpans(m[1], { ...style, href: m[2] }) },
+  { pattern: /<((?:https?|mailto):[^\s<>]+)>/y, render: (m, style) => [{ ...style, text: m[1], href: m[1] }] },
+  { pattern: /\*\*(?=\S)([\s\S]*?\S)\*\*(?!\*)/y, render: (m, style) => parseSpans(m[1], { ...style, bold: true }) },
+  { pattern: /__(?=\S)([\s\S]*?\S)__(?!\w)/y, render: (m, style) => parseSpans(m[1], { ...style, bold: true }) },
+  { pattern: /~~(?=\S)([\s\S]*?\S)~~/y, render: (m, style) => parseSpans(m[1], { ...style, strike: true }) },
+  { pattern: /\*(?=[^\s*])([\s\S]*?[^\s*])\*(?!\*)/y, render: (m, style) => parseSpans(m[1], { ...style, italic: true }) },
+  { pattern: /_(?=[^\s_])([\s\S]*?[^\s_])_(?![\w_])/y, render: (m, style) => parseSpans(m[1], { ...style, italic: true }) },
+];
+
+const unescape = (text: string) => text.replace(/\\(.)/g, (match, char) => ESCAPABLE.test(char) ? char : match);
+
+const decodeEntities = (text: string) => text.replace(/&(#?\w+);/g, (match, name) => {
+  if (ENTITIES[name]) return ENTITIES[name];
+  const code = /^#(\d+)$/.exec(name);
+  return code ? String.fromCodePoint(Number(code[1])) : match;
+});
+
+function parseSpans(text: string, style: SpanStyle): MarkdownSpan[] {
+  const spans: MarkdownSpan[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) spans.push({ ...style, text: decodeEntities(plain) });
+    plain = '';
+  };
+
+  let i = 0;
+  next: while (i < text.length) {
+    const char = text[i];
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+    // Underscores inside words such as snake_case are literal
+    if ('`![<*_~'.includes(char) && !(char === '_' && /\w/.test(text[i - 1] || ''))) {
+      for (const rule of INLINE_RULES) {
+        rule.pattern.lastIndex = i;
+        const match = rule.pattern.exec(text);
+        if (!match) continue;
+        flush();
+        spans.push(...rule.render(match, style));
+        i += match[0].length;
+        continue next;
+      }
+    }
+    plain += char;
+    i++;
+  }
+  flush();
+
+  return spans;
+}
+
+const sameStyle = (a: MarkdownSpan, b: MarkdownSpan) =>
+  a.bold === b.bold && a.italic === b.italic && a.strike === b.strike && a.code === b.code && a.href === b.href && !a.image && !b.image;
+
+// Parse inline Markdown (emphasis, strikethrough, code spans, links, images) into styled runs of text
+export function parseInline(text: string): MarkdownSpan[] {
+  const spans: MarkdownSpan[] = [];
+  for (const span of parseSpans(text, {})) {
+    const last = spans[spans.length - 1];
+    if (last && sameStyle(last, span)) {
+      last.text += span.text;
+    } else {
+      spans.push(span);
+    }
+  }
+  return spans;
+}
+
+const indentOf = (line: string) => /^[ \t]*/.exec(line)![0].replace(/\t/g, '    ').length;
+
+// Cells of a table row, `\|` is a literal pipe
+function splitTableRow(line: string): string[] {
+  const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return row.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+const isTableStart = (lines: string[], index: number) =>
+  lines[index].includes('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1]) &&
+  splitTableRow(lines[index]).length === splitTableRow(lines[index + 1]).length;
+
+// Whether a line ends a paragraph by starting another block. Inside list items any list marker starts a new item,
+// in paragraphs only bullets and lists starting at 1 do.
+function startsBlock(lines: string[], index: number, inList: boolean): boolean {
+  const line = lines[index];
+  if (FENCE.test(line) || ATX_HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || isTableStart(lines, index)) return true;
+  const item = LIST_ITEM.exec(line);
+  return !!item && (inList || (!!item[3] && /^([-*+]|1[.)])$/.test(item[2])));
+}
+
+const joinLines = (lines: string[]) => lines.map(line => line.trim().replace(/\\$/, '')).join(' ').trim();
+
+function parseBlocks(lines: string[], quote: number): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let listIndents: number[] = []; // Marker indentation of the open list levels
+
+  // Nesting of a block inside the open lists, blocks starting at the margin close them
+  const nestingAt = (indent: number) => {
+    if (indent === 0) listIndents = [];
+    return listIndents.filter(listIndent => listIndent < indent).length;
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+    const indent = indentOf(line);
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const [, fenceIndent, marker, language] = fence;
+      const closing = new RegExp(`^[ \\t]*${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`);
+      const content: string[] = [];
+      for (i++; i < lines.length && !closing.test(lines[i]); i++) {
+        content.push(lines[i].slice(Math.min(fenceIndent.length, indentOf(lines[i]))));
+      }
+      i++;
+      blocks.push({ type: 'code', text: content.join('\n'), level: nestingAt(indent), quote, language });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      nestingAt(0);
+      blocks.push({ type: 'rule', text: '', level: 0, quote });
+      i++;
+      continue;
+    }
+
+    const heading = ATX_HEADING.exec(line);
+    if (heading) {
+      nestingAt(0);
+      blocks.push({ type: 'heading', text: heading[2], level: heading[1].length, quote });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const inner: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) inner.push(lines[i].replace(QUOTE, ''));
+      blocks.push(...parseBlocks(inner, quote + 1));
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align: MarkdownAlignment[] = splitTableRow(lines[i + 1]).map(cell => {
+        if (cell.startsWith(':')) return cell.endsWith(':') ? 'center' : 'left';
+        return cell.endsWith(':') ? 'right' : null;
+      });
+      const cells = [header];
+      for (i += 2; i < lines.length && lines[i].trim() && lines[i].includes('|'); i++) {
+        const row = splitTableRow(lines[i]);
+        cells.push(header.map((_, column) => row[column] ?? ''));
+      }
+      blocks.push({ type: 'table', text: cells.map(row => row.join(' | ')).join('\n'), level: nestingAt(indent), quote, cells, align });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) listIndents.pop();
+      if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) listIndents.push(indent);
+
+      const ordered = /\d/.test(item[2]);
+      const task = TASK.exec(item[3] || '');
+      const content = [task ? item[3].slice(task[0].length) : item[3] || ''];
+      for (i++; i < lines.length && lines[i].trim() && !startsBlock(lines, i, true); i++) content.push(lines[i]);
+
+      blocks.push({
+        type: 'list-item',
+        text: joinLines(content),
+        level: listIndents.length - 1,
+        quote,
+        ordered,
+        marker: ordered ? item[2] : undefined,
+        checked: task ? task[1] !== ' ' : undefined,
+      });
+      continue;
+    }
+
+    if (indent >= INDENTED_CODE_WIDTH && listIndents.length === 0) {
+      const content: string[] = [];
+      for (; i < lines.length && (!lines[i].trim() || indentOf(lines[i]) >= INDENTED_CODE_WIDTH); i++) {
+        content.push(lines[i].replace(/^(?: {1,4}|\t)/, ''));
+      }
+      while (content.length > 0 && !content[content.length - 1].trim()) content.pop();
+      blocks.push({ type: 'code', text: content.join('\n'), level: 0, quote });
+      continue;
+    }
+
+    // Paragraph, or a setext heading when underlined with = or -
+    const level = nestingAt(indent);
+    const content = [line];
+    let setextLevel = 0;
+    for (i++; i < lines.length && lines[i].trim(); i++) {
+      const underline = SETEXT_UNDERLINE.exec(lines[i]);
+      if (underline) {
+        setextLevel = underline[1][0] === '=' ? 1 : 2;
+        i++;
+        break;
+      }
+      if (startsBlock(lines, i, false)) break;
+      content.push(lines[i]);
+    }
+
+    if (setextLevel) {
+      nestingAt(0);
+      blocks.push({ type: 'heading', text: joinLines(content), level: setextLevel, quote });
+    } else {
+      blocks.push({ type: 'paragraph', text: joinLines(content), level, quote });
+    }
+  }
+
+  return blocks;
+}
+
+// Parse Markdown (CommonMark blocks with GitHub tables and task lists) into a flat list of leaf blocks.
+// Raw HTML is kept as text.
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'), 0);
+}
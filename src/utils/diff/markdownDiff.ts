@@ -0,0 +1,196 @@
+import { diffArrays, diffWordsWithSpace } from 'diff';
+import { parseInline, parseMarkdown } from './markdown';
+import {
+  MarkdownBlock,
+  MarkdownBlockDiff,
+  MarkdownChange,
+  MarkdownSegment,
+  MarkdownSpan,
+  MarkdownTableRow,
+} from './types';
+
+// Share of unchanged text above which a removed and an added paragraph are shown as one edited paragraph
+const PAIR_SIMILARITY = 0.4;
+
+// Blocks match when kind, nesting and source are equal. List numbers are not compared so renumbering is no change.
+const blockKey = (block: MarkdownBlock) =>
+  JSON.stringify([block.type, block.level, block.quote, block.ordered, block.checked, block.language, block.text]);
+
+const plainText = (spans: MarkdownSpan[]) => spans.map(span => span.text).join('');
+
+const markSpans = (spans: MarkdownSpan[], change?: MarkdownChange): MarkdownSegment[] =>
+  spans.map(span => change ? { ...span, change } : { ...span });
+
+// Spans covering [start, end) of the plain text, cut at the range boundaries
+function sliceSpans(spans: MarkdownSpan[], start: number, end: number, change?: MarkdownChange): MarkdownSegment[] {
+  const segments: MarkdownSegment[] = [];
+  let offset = 0;
+  for (const span of spans) {
+    const spanEnd = offset + span.text.length;
+    if (spanEnd > start && offset < end) {
+      const text = span.text.slice(Math.max(start - offset, 0), Math.min(end, spanEnd) - offset);
+      segments.push(change ? { ...span, text, change } : { ...span, text });
+    }
+    offset = spanEnd;
+  }
+  return segments;
+}
+
+// Word diff of the rendered text, each part keeps the formatting of the side it comes from.
+// Returns the share of unchanged text to decide whether the blocks are edits of each other.
+function diffSpans(oldSpans: MarkdownSpan[], newSpans: MarkdownSpan[]): { segments: MarkdownSegment[]; similarity: number } {
+  const oldText = plainText(oldSpans);
+  const newText = plainText(newSpans);
+
+  // Same text with other formatting: show the old rendering removed and the new one added
+  if (oldText === newText) {
+    const sameFormatting = JSON.stringify(oldSpans) === JSON.stringify(newSpans);
+    return {
+      segments: sameFormatting ? markSpans(newSpans) : [...markSpans(oldSpans, 'removed'), ...markSpans(newSpans, 'added')],
+      similarity: 1,
+    };
+  }
+
+  const segments: MarkdownSegment[] = [];
+  let oldOffset = 0;
+  let newOffset = 0;
+  let unchanged = 0;
+
+  for (const part of diffWordsWithSpace(oldText, newText)) {
+    const length = part.value.length;
+    if (part.removed) {
+      segments.push(...sliceSpans(oldSpans, oldOffset, oldOffset + length, 'removed'));
+      oldOffset += length;
+    } else if (part.added) {
+      segments.push(...sliceSpans(newSpans, newOffset, newOffset + length, 'added'));
+      newOffset += length;
+    } else {
+      segments.push(...sliceSpans(newSpans, newOffset, newOffset + length));
+      oldOffset += length;
+      newOffset += length;
+      if (part.value.trim()) unchanged += length;
+    }
+  }
+
+  // Relative to the shorter text so that extending a sentence still counts as editing it
+  const shortest = Math.min(oldText.trim().length, newText.trim().length);
+  return { segments, similarity: shortest > 0 ? unchanged / shortest : 0 };
+}
+
+// Lines of two code blocks with removed lines before the added lines replacing them
+function diffCodeBlocks(oldBlock: MarkdownBlock, newBlock: MarkdownBlock): MarkdownBlockDiff['codeLines'] {
+  return diffArrays(oldBlock.text.split('\n'), newBlock.text.split('\n')).flatMap(part =>
+    part.value.map(text => ({ text, change: part.removed ? 'removed' as const : part.added ? 'added' as const : undefined }))
+  );
+}
+
+const tableRow = (cells: string[], change?: MarkdownChange): MarkdownTableRow => ({
+  change,
+  cells: cells.map(cell => markSpans(parseInline(cell), change)),
+});
+
+// Rows of two tables aligned by content, replaced rows are paired and compared cell by cell.
+// The header row is always paired.
+function diffTableBlocks(oldBlock: MarkdownBlock, newBlock: MarkdownBlock): MarkdownTableRow[] {
+  const [oldHeader, ...oldRows] = oldBlock.cells!;
+  const [newHeader, ...newRows] = newBlock.cells!;
+
+  // Cells beyond the modified row are removed columns and stay visible as removed
+  const pairRows = (oldCells: string[], newCells: string[]): MarkdownTableRow => ({
+    cells: Array.from({ length: Math.max(oldCells.length, newCells.length) }, (_, column) => column < newCells.length
+      ? diffSpans(parseInline(oldCells[column] ?? ''), parseInline(newCells[column])).segments
+      : markSpans(parseInline(oldCells[column]), 'removed')),
+  });
+
+  const rows = [pairRows(oldHeader, newHeader)];
+  let removed: string[][] = [];
+  const flushRemoved = (added: string[][] = []) => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      if (i >= added.length) rows.push(tableRow(removed[i], 'removed'));
+      else if (i >= removed.length) rows.push(tableRow(added[i], 'added'));
+      else rows.push(pairRows(removed[i], added[i]));
+    }
+    removed = [];
+  };
+
+  for (const part of diffArrays(oldRows.map(row => JSON.stringify(row)), newRows.map(row => JSON.stringify(row)))) {
+    const values = part.value.map(row => JSON.parse(row) as string[]);
+    if (part.removed) {
+      removed = values;
+    } else if (part.added) {
+      flushRemoved(values);
+    } else {
+      flushRemoved();
+      rows.push(...values.map(row => tableRow(row)));
+    }
+  }
+  flushRemoved();
+
+  return rows;
+}
+
+// Block shown entirely as added, removed or unchanged
+function wholeBlock(block: MarkdownBlock, status: MarkdownBlockDiff['status']): MarkdownBlockDiff {
+  const change = status === 'added' || status === 'removed' ? status : undefined;
+  if (block.type === 'code') {
+    return { status, block, codeLines: block.text.split('\n').map(text => ({ text, change })) };
+  }
+  if (block.type === 'table') {
+    return { status, block, rows: block.cells!.map(row => tableRow(row, change)) };
+  }
+  return { status, block, segments: markSpans(parseInline(block.text), change) };
+}
+
+// Compare two blocks of the same type, null when they differ too much to be shown as one edited block
+function diffBlockPair(oldBlock: MarkdownBlock, newBlock: MarkdownBlock): MarkdownBlockDiff | null {
+  if (oldBlock.type !== newBlock.type) return null;
+  if (newBlock.type === 'code') return { status: 'changed', block: newBlock, codeLines: diffCodeBlocks(oldBlock, newBlock) };
+  if (newBlock.type === 'table') return { status: 'changed', block: newBlock, rows: diffTableBlocks(oldBlock, newBlock) };
+  if (newBlock.type === 'rule') return { status: 'unchanged', block: newBlock };
+
+  const { segments, similarity } = diffSpans(parseInline(oldBlock.text), parseInline(newBlock.text));
+  return similarity >= PAIR_SIMILARITY ? { status: 'changed', block: newBlock, segments } : null;
+}
+
+// Render both Markdown documents block by block: unchanged blocks once, replaced blocks of the same type
+// as one block with inline insertions and deletions, other blocks as removed or added.
+export function diffMarkdown(oldText: string, newText: string): MarkdownBlockDiff[] {
+  const oldBlocks = parseMarkdown(oldText);
+  const newBlocks = parseMarkdown(newText);
+  const diffs: MarkdownBlockDiff[] = [];
+  let removed: MarkdownBlock[] = [];
+
+  const flushRemoved = (added: MarkdownBlock[] = []) => {
+    let next = 0;
+    for (const oldBlock of removed) {
+      // Pair with the nearest following added block it is an edit of
+      let paired: MarkdownBlockDiff | null = null;
+      let match = next;
+      for (; match < added.length && !paired; match++) paired = diffBlockPair(oldBlock, added[match]);
+      if (!paired) {
+        diffs.push(wholeBlock(oldBlock, 'removed'));
+        continue;
+      }
+      while (next < match - 1) diffs.push(wholeBlock(added[next++], 'added'));
+      diffs.push(paired);
+      next = match;
+    }
+    while (next < added.length) diffs.push(wholeBlock(added[next++], 'added'));
+    removed = [];
+  };
+
+  for (const part of diffArrays(oldBlocks.map(blockKey), newBlocks.map(blockKey))) {
+    if (part.removed) {
+      removed = oldBlocks.splice(0, part.count!);
+    } else if (part.added) {
+      flushRemoved(newBlocks.splice(0, part.count!));
+    } else {
+      flushRemoved();
+      oldBlocks.splice(0, part.count!);
+      diffs.push(...newBlocks.splice(0, part.count!).map(block => wholeBlock(block, 'unchanged')));
+    }
+  }
+  flushRemoved();
+
+  return diffs;
+}
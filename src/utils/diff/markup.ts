@@ -0,0 +1,39 @@
+import { DiffOptions } from './types';
+
+const MARKUP_LANGUAGES = new Set(['xml', 'html']);
+
+// HTML elements that never have content, <br> and <br/> are the same element
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const START_TAG_PATTERN = /<([A-Za-z_][\w:.-]*)((?:\s+[^\s"'=<>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const EMPTY_ELEMENT_PATTERN = /<([A-Za-z_][\w:.-]*)((?: [^\s=<>]+(?:="[^"]*")?)*)><\/\1>/g;
+
+// Check whether lines are compared as markup, enabled for XML and HTML unless turned off
+export function usesMarkupNormalization(options: DiffOptions): boolean {
+  return options.normalizeMarkup !== false && !!options.language && MARKUP_LANGUAGES.has(options.language);
+}
+
+// Rewrite a start tag with sorted, double-quoted attributes and void elements self-closed
+function normalizeStartTag(name: string, attributes: string, selfClosing: string): string {
+  const normalized = Array.from(attributes.matchAll(ATTRIBUTE_PATTERN), match => {
+    const value = match[2] ?? match[3] ?? match[4];
+    return value === undefined ? match[1] : `${match[1]}="${value}"`;
+  }).sort();
+
+  const closing = selfClosing || VOID_ELEMENTS.has(name.toLowerCase()) ? '/' : '';
+  return `<${name}${normalized.map(attribute => ` ${attribute}`).join('')}${closing}>`;
+}
+
+// Comparison key for a line of XML/HTML: whitespace between tags, attribute order, quote style and
+// <x></x> vs <x/> do not count as changes. Indentation is left to the whitespace options, it matters in <pre>.
+export function normalizeMarkupLine(line: string): string {
+  return line
+    .replace(START_TAG_PATTERN, (_, name: string, attributes: string, selfClosing: string) =>
+      normalizeStartTag(name, attributes, selfClosing))
+    .replace(/<\/([A-Za-z_][\w:.-]*)\s+>/g, '</$1>')
+    .replace(/>\s+</g, '><')
+    .replace(EMPTY_ELEMENT_PATTERN, '<$1$2/>');
+}
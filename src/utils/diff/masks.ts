@@ -0,0 +1,128 @@
+import { DiffMask, DiffOptions, MaskMode, MaskPreset } from './types';
+
+// Text that replaces masked tokens in the comparison key
+export const MASK_PLACEHOLDER = '<masked>';
+
+// Built-in masks for values that typically differ between runs
+export const MASK_PRESETS: Record<MaskPreset, { label: string; pattern: string; flags?: string }> = {
+  'iso-timestamp': {
+    label: 'ISO timestamps',
+    pattern: '\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}(?::\\d{2}(?:[.,]\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})?',
+  },
+  uuid: {
+    label: 'UUIDs',
+    pattern: '\\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\\b',
+    flags: 'i',
+  },
+  'hex-address': {
+    label: 'Hex addresses',
+    pattern: '\\b0x[0-9a-f]+\\b',
+    flags: 'i',
+  },
+  semver: {
+    label: 'Semantic versions',
+    pattern: '\\bv?\\d+\\.\\d+\\.\\d+(?:-[0-9A-Za-z.-]+)?(?:\\+[0-9A-Za-z.-]+)?\\b',
+  },
+};
+
+export function createPresetMask(preset: MaskPreset, mode: MaskMode = 'token'): DiffMask {
+  const { pattern, flags } = MASK_PRESETS[preset];
+  return { pattern, flags, mode, preset };
+}
+
+// Only flags that make sense for repeated matching on a single line are kept
+function toRegExpFlags(flags = ''): string {
+  return Array.from(new Set(flags.replace(/[^imsu]/g, ''))).join('') + 'g';
+}
+
+// Return an error message for an invalid mask pattern, or null when it compiles
+export function validateMaskPattern(pattern: string, flags?: string): string | null {
+  if (!pattern) return 'Pattern is empty';
+  try {
+    new RegExp(pattern, toRegExpFlags(flags));
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : 'Invalid regular expression';
+  }
+}
+
+// Compiled patterns are reused across lines, invalid patterns are cached as null and skipped
+const compiledMasks = new Map<string, RegExp | null>();
+
+function compileMask(mask: DiffMask): RegExp | null {
+  const key = `${mask.flags || ''}/${mask.pattern}`;
+  if (!compiledMasks.has(key)) {
+    compiledMasks.set(key, validateMaskPattern(mask.pattern, mask.flags) === null
+      ? new RegExp(mask.pattern, toRegExpFlags(mask.flags))
+      : null);
+  }
+  return compiledMasks.get(key)!;
+}
+
+function masksOfMode(options: DiffOptions, mode: MaskMode): RegExp[] {
+  if (!options.masks) return [];
+  return options.masks
+    .filter(mask => mask.mode === mode)
+    .map(compileMask)
+    .filter((regex): regex is RegExp => regex !== null);
+}
+
+export function hasTokenMasks(options: DiffOptions): boolean {
+  return masksOfMode(options, 'token').length > 0;
+}
+
+export function hasLineMasks(options: DiffOptions): boolean {
+  return masksOfMode(options, 'line').length > 0;
+}
+
+// Check whether a line matches any line mask
+export function matchesLineMask(line: string, options: DiffOptions): boolean {
+  return masksOfMode(options, 'line').some(regex => {
+    regex.lastIndex = 0;
+    return regex.test(line);
+  });
+}
+
+// Find the sorted, non-overlapping character ranges matched by token masks
+export function findMaskedRanges(line: string, options: DiffOptions): [number, number][] {
+  const ranges: [number, number][] = [];
+
+  for (const regex of masksOfMode(options, 'token')) {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(line)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+// Replace every token mask match with the placeholder
+export function applyTokenMasks(line: string, options: DiffOptions): string {
+  const ranges = findMaskedRanges(line, options);
+  if (ranges.length === 0) return line;
+
+  let result = '';
+  let pos = 0;
+  for (const [start, end] of ranges) {
+    result += line.slice(pos, start) + MASK_PLACEHOLDER;
+    pos = end;
+  }
+  return result + line.slice(pos);
+}
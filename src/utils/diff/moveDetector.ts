@@ -0,0 +1,193 @@
+import { calculateSimilarity } from './wordDiffer';
+import { normalizeLineForComparison } from './normalizer';
+import { DiffResultWithLineNumbers, DiffOptions } from './types';
+
+// Minimum number of significant lines for a block to count as moved
+const MIN_MOVED_LINES = 3;
+// Lines at least this similar can belong to a moved-and-edited block
+const MOVED_LINE_SIMILARITY = 0.8;
+// Share of lines that must match exactly inside a moved block
+const MIN_EXACT_RATIO = 0.5;
+// Skip detection when the candidate search space gets too large
+const MAX_MOVE_CANDIDATES = 4000000;
+
+// A removed or added line that can take part in a move
+interface MoveCandidate {
+  row: number; // Index in the aligned left/right arrays
+  lineNumber: number;
+  key: string;
+}
+
+// A detected moved block, indexes point into the candidate lists
+export interface MovedBlock {
+  moveId: number;
+  removedStart: number;
+  addedStart: number;
+  length: number;
+}
+
+// Lines consisting only of braces, punctuation or whitespace do not make a block significant
+function isSignificant(key: string): boolean {
+  return /[\p{L}\p{N}]/u.test(key);
+}
+
+function linesMatch(removed: MoveCandidate, added: MoveCandidate): boolean {
+  if (removed.key === added.key) return true;
+  if (!isSignificant(removed.key) || !isSignificant(added.key)) return false;
+  return calculateSimilarity(removed.key, added.key) >= MOVED_LINE_SIMILARITY;
+}
+
+// Candidates must be consecutive source lines to extend a block
+function isContiguous(list: MoveCandidate[], index: number, step: 1 | -1): boolean {
+  const next = list[index + step];
+  return !!next && next.lineNumber === list[index].lineNumber + step;
+}
+
+function collectCandidates(
+  lines: DiffResultWithLineNumbers[],
+  flag: 'removed' | 'added',
+  options: DiffOptions
+): MoveCandidate[] {
+  const candidates: MoveCandidate[] = [];
+  lines.forEach((line, row) => {
+    if (line.spacer || !line[flag]) return;
+    candidates.push({
+      row,
+      lineNumber: line.lineNumber,
+      key: normalizeLineForComparison(line.value, options).trim(),
+    });
+  });
+  return candidates;
+}
+
+// Find blocks that were removed in one place and added in another, allowing small edits
+export function findMovedBlocks(
+  leftLines: DiffResultWithLineNumbers[],
+  rightLines: DiffResultWithLineNumbers[],
+  options: DiffOptions = {}
+): { blocks: MovedBlock[]; removed: MoveCandidate[]; added: MoveCandidate[] } {
+  const removed = collectCandidates(leftLines, 'removed', options);
+  const added = collectCandidates(rightLines, 'added', options);
+  const blocks: MovedBlock[] = [];
+
+  if (removed.length < MIN_MOVED_LINES || added.length < MIN_MOVED_LINES ||
+      removed.length * added.length > MAX_MOVE_CANDIDATES) {
+    return { blocks, removed, added };
+  }
+
+  // Index added lines by exact key, exact matches seed the blocks
+  const addedByKey = new Map<string, number[]>();
+  added.forEach((candidate, index) => {
+    if (!isSignificant(candidate.key)) return;
+    const list = addedByKey.get(candidate.key);
+    if (list) list.push(index);
+    else addedByKey.set(candidate.key, [index]);
+  });
+
+  const removedUsed = new Array(removed.length).fill(false);
+  const addedUsed = new Array(added.length).fill(false);
+
+  for (let i = 0; i < removed.length; i++) {
+    if (removedUsed[i]) continue;
+    const seeds = addedByKey.get(removed[i].key);
+    if (!seeds) continue;
+
+    let best: { removedStart: number; addedStart: number; length: number; exact: number; significant: number } | null = null;
+
+    for (const j of seeds) {
+      if (addedUsed[j]) continue;
+
+      // Extend backwards and forwards over contiguous, matching, unused lines
+      let before = 0;
+      while (isContiguous(removed, i - before, -1) && isContiguous(added, j - before, -1) &&
+             !removedUsed[i - before - 1] && !addedUsed[j - before - 1] &&
+             linesMatch(removed[i - before - 1], added[j - before - 1])) {
+        before++;
+      }
+      let after = 1;
+      while (isContiguous(removed, i + after - 1, 1) && isContiguous(added, j + after - 1, 1) &&
+             !removedUsed[i + after] && !addedUsed[j + after] &&
+             linesMatch(removed[i + after], added[j + after])) {
+        after++;
+      }
+
+      const removedStart = i - before;
+      const addedStart = j - before;
+      const length = before + after;
+
+      let exact = 0;
+      let significant = 0;
+      for (let k = 0; k < length; k++) {
+        if (removed[removedStart + k].key === added[addedStart + k].key) exact++;
+        if (isSignificant(removed[removedStart + k].key)) significant++;
+      }
+
+      // Edits on the same display rows are in-place modifications, not moves
+      const removedRows = [removed[removedStart].row, removed[removedStart + length - 1].row];
+      const addedRows = [added[addedStart].row, added[addedStart + length - 1].row];
+      const overlaps = removedRows[0] <= addedRows[1] && addedRows[0] <= removedRows[1];
+
+      if (overlaps || significant < MIN_MOVED_LINES || exact / length < MIN_EXACT_RATIO) continue;
+
+      if (!best || length > best.length || (length === best.length && exact > best.exact)) {
+        best = { removedStart, addedStart, length, exact, significant };
+      }
+    }
+
+    if (best) {
+      for (let k = 0; k < best.length; k++) {
+        removedUsed[best.removedStart + k] = true;
+        addedUsed[best.addedStart + k] = true;
+      }
+      blocks.push({
+        moveId: blocks.length + 1,
+        removedStart: best.removedStart,
+        addedStart: best.addedStart,
+        length: best.length,
+      });
+    }
+  }
+
+  return { blocks, removed, added };
+}
+
+// Mark moved blocks on the aligned lines and return the moved line pairs (left row, right row)
+export function markMovedBlocks(
+  leftLines: DiffResultWithLineNumbers[],
+  rightLines: DiffResultWithLineNumbers[],
+  options: DiffOptions = {}
+): [number, number][] {
+  const { blocks, removed, added } = findMovedBlocks(leftLines, rightLines, options);
+  const pairs: [number, number][] = [];
+
+  for (const block of blocks) {
+    for (let k = 0; k < block.length; k++) {
+      const leftRow = removed[block.removedStart + k].row;
+      const rightRow = added[block.addedStart + k].row;
+
+      for (const [lines, row] of [[leftLines, leftRow], [rightLines, rightRow]] as const) {
+        const line = lines[row];
+        line.moved = true;
+        line.moveId = block.moveId;
+        // A moved line no longer pairs with the line next to it
+        line.modified = undefined;
+        line.inlineChanges = undefined;
+        line.indentOnly = undefined;
+      }
+
+      // The former partner of a moved line becomes a plain addition or removal
+      for (const [lines, row] of [[rightLines, leftRow], [leftLines, rightRow]] as const) {
+        const partner = lines[row];
+        if (partner && !partner.moved && partner.modified) {
+          partner.modified = undefined;
+          partner.inlineChanges = undefined;
+          partner.indentOnly = undefined;
+        }
+      }
+
+      pairs.push([leftRow, rightRow]);
+    }
+  }
+
+  return pairs;
+}
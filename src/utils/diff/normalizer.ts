@@ -0,0 +1,111 @@
+import { applyTokenMasks, findMaskedRanges, hasTokenMasks, MASK_PLACEHOLDER } from './masks';
+import { normalizeMarkupLine, usesMarkupNormalization } from './markup';
+import { DiffOptions } from './types';
+
+// Text normalized for comparison together with a map back to the original text
+export interface NormalizedText {
+  text: string;
+  offsets: number[]; // offsets[i] is the original index of normalized index i (length is text.length + 1)
+}
+
+// Check whether the options require comparing normalized lines instead of raw text
+export function hasComparisonOptions(options: DiffOptions): boolean {
+  return !!(options.ignoreTrailingWhitespace || options.ignoreWhitespaceAmount || options.ignoreAllWhitespace ||
+    hasCharacterOptions(options) || hasTokenMasks(options) || usesMarkupNormalization(options));
+}
+
+// Check whether the options fold individual characters (case or Unicode form)
+export function hasCharacterOptions(options: DiffOptions): boolean {
+  return !!(options.ignoreCase || options.unicodeNormalization);
+}
+
+// Apply Unicode normalization and case folding to a piece of text
+function foldCharacters(text: string, options: DiffOptions): string {
+  let result = options.unicodeNormalization ? text.normalize(options.unicodeNormalization) : text;
+  if (options.ignoreCase) {
+    result = result.toLowerCase();
+  }
+  return result;
+}
+
+// Fold characters and mask tokens while recording where each normalized character came from.
+// Text is processed per base character plus its combining marks so NFD sequences compose.
+export function normalizeWithOffsets(text: string, options: DiffOptions): NormalizedText {
+  const characterOptions = hasCharacterOptions(options);
+  const maskedRanges = findMaskedRanges(text, options);
+
+  if (!characterOptions && maskedRanges.length === 0) {
+    return { text, offsets: Array.from({ length: text.length + 1 }, (_, i) => i) };
+  }
+
+  let normalized = '';
+  const offsets: number[] = [];
+
+  const appendFolded = (start: number, end: number) => {
+    if (!characterOptions) {
+      for (let i = start; i < end; i++) offsets.push(i);
+      normalized += text.slice(start, end);
+      return;
+    }
+
+    const segmentPattern = /\P{M}\p{M}*|\p{M}+/gu;
+    const slice = text.slice(start, end);
+    let match: RegExpExecArray | null;
+    while ((match = segmentPattern.exec(slice)) !== null) {
+      const folded = foldCharacters(match[0], options);
+      for (let i = 0; i < folded.length; i++) {
+        offsets.push(start + match.index);
+      }
+      normalized += folded;
+    }
+  };
+
+  // The placeholder maps to the start of the masked token, the next character to its end
+  let pos = 0;
+  for (const [start, end] of maskedRanges) {
+    appendFolded(pos, start);
+    for (let i = 0; i < MASK_PLACEHOLDER.length; i++) offsets.push(start);
+    normalized += MASK_PLACEHOLDER;
+    pos = end;
+  }
+  appendFolded(pos, text.length);
+  offsets.push(text.length);
+
+  return { text: normalized, offsets };
+}
+
+// Build the comparison key for a single line from token masks, markup normalization,
+// case/Unicode folding and git-style whitespace modes
+export function normalizeLineForComparison(line: string, options: DiffOptions): string {
+  const masked = applyTokenMasks(line, options);
+  const folded = foldCharacters(usesMarkupNormalization(options) ? normalizeMarkupLine(masked) : masked, options);
+
+  if (options.ignoreAllWhitespace) {
+    return folded.replace(/\s+/g, '');
+  }
+
+  if (options.ignoreWhitespaceAmount) {
+    // Like `git diff -b`: trailing whitespace is ignored and other runs collapse to one space
+    return folded.replace(/\s+$/, '').replace(/\s+/g, ' ');
+  }
+
+  if (options.ignoreTrailingWhitespace) {
+    return folded.replace(/\s+$/, '');
+  }
+
+  return folded;
+}
+
+// Build comparison text with the same line structure as the input text
+export function normalizeTextForComparison(text: string, options: DiffOptions): string {
+  if (!hasComparisonOptions(options)) return text;
+  return text
+    .split('\n')
+    .map(line => normalizeLineForComparison(line, options))
+    .join('\n');
+}
+
+// Check whether a block of lines contains only whitespace
+export function isBlankText(text: string): boolean {
+  return text.trim() === '';
+}
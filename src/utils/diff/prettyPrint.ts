@@ -0,0 +1,269 @@
+export interface PrettyPrintOptions {
+  sortKeys?: boolean; // Sort JSON object keys
+  indent?: number; // Spaces per level, defaults to 2
+}
+
+type Formatter = (text: string, options: Required<PrettyPrintOptions>) => string;
+
+const DEFAULT_INDENT = 2;
+
+// HTML elements without content and elements whose content is kept as written
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'pre', 'textarea'];
+
+// Characters after which a slash starts a regular expression rather than a division
+const REGEX_PRECEDERS = '(,=:[!&|?{};+-*%<>~^';
+const REGEX_KEYWORDS = /\b(return|typeof|case|do|else|in|of|delete|void|throw|new)$/;
+// A closing brace followed by one of these stays on its line: `}, `, `});`, `} else {`
+const CLOSING_CONTINUATIONS = /^\s*([)\],;.]|(else|catch|finally|while)\b)/;
+
+const indentation = (depth: number, indent: number) => ' '.repeat(Math.max(depth, 0) * indent);
+
+function sortObjectKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortObjectKeys);
+  if (typeof value !== 'object' || value === null) return value;
+  return Object.fromEntries(
+    Object.keys(value).sort().map(key => [key, sortObjectKeys((value as Record<string, unknown>)[key])])
+  );
+}
+
+// Re-serialize JSON, throws when the text is not valid JSON
+const formatJson: Formatter = (text, { sortKeys, indent }) => {
+  const value = JSON.parse(text);
+  return JSON.stringify(sortKeys ? sortObjectKeys(value) : value, null, indent) + '\n';
+};
+
+// Markup tokens: comments, CDATA, doctype, processing instructions, tags (quoted attributes may contain '>'), text
+const MARKUP_TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/?[A-Za-z][^>"']*(?:(?:"[^"]*"|'[^']*')[^>"']*)*>|[^<]+|</g;
+
+// One element, comment or text per line, nested content indented. Elements containing only text stay on one line.
+function formatMarkup(text: string, indent: number, html: boolean): string {
+  const lines: string[] = [];
+  const openTags: { name: string; line: number }[] = [];
+  const pattern = new RegExp(MARKUP_TOKEN_PATTERN.source, 'g');
+  const rawPattern = new RegExp(`^<(${RAW_TEXT_ELEMENTS.join('|')})\\b`, 'i');
+
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    let token = match[0];
+    const depth = openTags.length;
+
+    // Raw text elements are copied up to their closing tag
+    const raw = html ? rawPattern.exec(token) : null;
+    if (raw && !token.endsWith('/>')) {
+      const close = new RegExp(`</${raw[1]}\\s*>`, 'i');
+      const rest = text.slice(pattern.lastIndex);
+      const end = close.exec(rest);
+      const length = end ? end.index + end[0].length : rest.length;
+      token += rest.slice(0, length);
+      pattern.lastIndex += length;
+      lines.push(indentation(depth, indent) + token.trim());
+      continue;
+    }
+
+    if (!token.startsWith('<') || token === '<') {
+      const content = token.replace(/\s+/g, ' ').trim();
+      if (content) lines.push(indentation(depth, indent) + content);
+      continue;
+    }
+
+    const closing = /^<\/([^\s>]+)/.exec(token);
+    if (closing) {
+      const name = closing[1].toLowerCase();
+      const openIndex = openTags.map(tag => tag.name).lastIndexOf(name);
+      if (openIndex !== -1) {
+        const open = openTags[openIndex];
+        openTags.length = openIndex;
+        // <a></a> and <a>text</a> stay on one line
+        const inner = lines.slice(open.line + 1);
+        if (inner.length <= 1 && !(inner[0] || '').trimStart().startsWith('<')) {
+          lines.splice(open.line, lines.length - open.line, lines[open.line] + (inner[0] || '').trim() + token.trim());
+          continue;
+        }
+      }
+      lines.push(indentation(openTags.length, indent) + token.trim());
+      continue;
+    }
+
+    lines.push(indentation(depth, indent) + token.trim());
+    const opening = /^<([A-Za-z][^\s/>]*)/.exec(token);
+    if (opening && !token.endsWith('/>') && !(html && VOID_ELEMENTS.has(opening[1].toLowerCase()))) {
+      openTags.push({ name: opening[1].toLowerCase(), line: lines.length - 1 });
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// Read a quoted string or comment starting at index, returns the index after it
+function skipLiteral(text: string, index: number): number {
+  const char = text[index];
+  if (char === '/' && text[index + 1] === '*') {
+    const end = text.indexOf('*/', index + 2);
+    return end === -1 ? text.length : end + 2;
+  }
+  if (char === '/' && text[index + 1] === '/') {
+    const end = text.indexOf('\n', index);
+    return end === -1 ? text.length : end;
+  }
+
+  let i = index + 1;
+  let braces = 0; // Open ${ } expressions inside a template literal
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+    } else if (char === '`' && text[i] === '$' && text[i + 1] === '{') {
+      braces++;
+      i += 2;
+    } else if (braces > 0 && text[i] === '}') {
+      braces--;
+      i++;
+    } else if (text[i] === char && braces === 0) {
+      return i + 1;
+    } else if (text[i] === '\n' && char !== '`') {
+      return i; // Unterminated string
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+// Read a regular expression literal starting at index, returns the index after its flags
+function skipRegex(text: string, index: number): number {
+  let i = index + 1;
+  let inClass = false;
+  while (i < text.length && text[i] !== '\n') {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      inClass = true;
+    } else if (text[i] === ']') {
+      inClass = false;
+    } else if (text[i] === '/' && !inClass) {
+      i++;
+      while (/\w/.test(text[i] || '')) i++;
+      return i;
+    }
+    i++;
+  }
+  return i;
+}
+
+// Break lines after '{', ';' and '}' outside strings, comments and parentheses, then indent by brace depth.
+// Existing line breaks are kept (JavaScript depends on them) and runs of blank lines collapse to one.
+// With css, whitespace is collapsed and declarations are written as `property: value;`.
+function formatBraces(input: string, indent: number, css: boolean): string {
+  const text = input.replace(/\r\n?/g, '\n');
+  const lines: string[] = [];
+  let line = '';
+  let depth = 0;
+  let parens = 0;
+
+  // Push the current line, an empty line only when keepBlank is set and the last line is not blank
+  const flush = (keepBlank: boolean = false) => {
+    let content = line.trim();
+    line = '';
+    if (css) content = content.replace(/\s+/g, ' ');
+    if (content) {
+      lines.push(indentation(depth, indent) + content);
+    } else if (keepBlank && lines.length > 0 && lines[lines.length - 1] !== '') {
+      lines.push('');
+    }
+  };
+
+  // CSS declarations: `color:red` -> `color: red`, a missing final semicolon is added
+  const endDeclaration = () => {
+    const content = line.trim();
+    if (!content) return;
+    const colon = content.indexOf(':');
+    line = colon > 0 && !content.startsWith('@') && !content.startsWith('/*')
+      ? `${content.slice(0, colon).trim()}: ${content.slice(colon + 1).trim()};`
+      : `${content};`;
+    flush();
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const previous = line.trimEnd();
+
+    if (char === '"' || char === "'" || (!css && char === '`') || (char === '/' && (text[i + 1] === '*' || (!css && text[i + 1] === '/')))) {
+      const end = skipLiteral(text, i);
+      line += text.slice(i, end);
+      // Comments on their own line in CSS, whitespace between declarations is not significant
+      if (css && char === '/' && !previous) flush();
+      i = end - 1;
+    } else if (!css && char === '/' && (!previous || REGEX_PRECEDERS.includes(previous[previous.length - 1]) || REGEX_KEYWORDS.test(previous))) {
+      const end = skipRegex(text, i);
+      line += text.slice(i, end);
+      i = end - 1;
+    } else if (char === '(' || char === '[') {
+      parens++;
+      line += char;
+    } else if (char === ')' || char === ']') {
+      parens = Math.max(parens - 1, 0);
+      line += char;
+    } else if (char === '{') {
+      if (css) {
+        // Selectors as `a, b {`, at-rule conditions as `@media (max-width: 600px) {`
+        const selector = line.trim().replace(/\s*,\s*/g, ', ');
+        line = `${selector.startsWith('@') ? selector.replace(/\s*:\s*/g, ': ') : selector} {`;
+      } else {
+        line = `${previous}${previous ? ' ' : ''}{`;
+      }
+      flush();
+      depth++;
+    } else if (char === '}') {
+      if (css) endDeclaration(); else flush();
+      depth = Math.max(depth - 1, 0);
+      line = '}';
+      const continuation = CLOSING_CONTINUATIONS.exec(text.slice(i + 1));
+      if (css || !continuation) {
+        flush();
+      } else if (continuation[2]) {
+        line += ' ';
+      }
+    } else if (char === ';' && parens === 0) {
+      if (css) {
+        endDeclaration();
+      } else {
+        line += ';';
+        flush();
+      }
+    } else if (char === '\n') {
+      // A line break ends the line, a second one in a row keeps a blank line
+      if (css) line += ' ';
+      else flush(text[i - 1] === '\n');
+    } else {
+      line += char;
+    }
+  }
+  if (css) endDeclaration(); else flush();
+
+  while (lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n') + '\n';
+}
+
+const formatCode: Formatter = (text, { indent }) => formatBraces(text, indent, false);
+
+// Formatters by FormatSelector language
+const FORMATTERS: Record<string, Formatter> = {
+  json: formatJson,
+  xml: (text, { indent }) => formatMarkup(text, indent, false),
+  html: (text, { indent }) => formatMarkup(text, indent, true),
+  css: (text, { indent }) => formatBraces(text, indent, true),
+  javascript: formatCode,
+  typescript: formatCode,
+};
+
+export function supportsPrettyPrint(language: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FORMATTERS, language);
+}
+
+// Reformat text with the formatter of its language, other languages are returned unchanged.
+// Throws when JSON does not parse, the other formatters accept any input.
+export function prettyPrint(text: string, language: string, options: PrettyPrintOptions = {}): string {
+  if (!supportsPrettyPrint(language) || !text.trim()) return text;
+  return FORMATTERS[language](text, { sortKeys: !!options.sortKeys, indent: options.indent ?? DEFAULT_INDENT });
+}
@@ -0,0 +1,95 @@
+import { DiffGranularity } from './types';
+
+// Sentence or paragraph of prose with the source line it starts on
+export interface ProseUnit {
+  text: string; // Whitespace collapsed, so re-wrapping a paragraph does not change it
+  line: number; // 1-based line in the source text, 0 for paragraph separators
+}
+
+// Words ending in a period that do not end a sentence
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'no', 'fig', 'approx', 'inc', 'ltd', 'co',
+]);
+
+// Sentence end: terminal punctuation and closing quotes or brackets, followed by whitespace
+const SENTENCE_END_PATTERN = /[.!?…]+["'”’)\]]*(?=\s)/g;
+
+// Paragraph with the offset in its text where each source line starts
+interface Paragraph extends ProseUnit {
+  lineStarts: number[];
+}
+
+function collectParagraphs(text: string): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  let current: Paragraph | null = null;
+
+  text.split(/\r\n|\r|\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim().replace(/\s+/g, ' ');
+    if (!line) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { text: line, line: index + 1, lineStarts: [0] };
+      paragraphs.push(current);
+    } else {
+      current.lineStarts.push(current.text.length + 1);
+      current.text += ' ' + line;
+    }
+  });
+
+  return paragraphs;
+}
+
+// Split text into paragraphs at blank lines, lines of a paragraph are joined with single spaces
+export function splitParagraphs(text: string): ProseUnit[] {
+  return collectParagraphs(text).map(({ text: paragraph, line }) => ({ text: paragraph, line }));
+}
+
+// Check whether the period at index ends an abbreviation or an initial ("J. Smith") rather than a sentence
+function isAbbreviation(text: string, index: number): boolean {
+  if (text[index] !== '.') return false;
+  const word = /(\S+)$/.exec(text.slice(0, index))?.[1].replace(/^["'“‘([]+/, '').toLowerCase() || '';
+  return ABBREVIATIONS.has(word) || /^\p{L}$/u.test(word);
+}
+
+// Sentences of a paragraph with their offsets. A sentence ends at ., ! or ? followed by whitespace,
+// unless the next word starts in lowercase or the period ends an abbreviation.
+function findSentences(paragraph: string): { text: string; offset: number }[] {
+  const sentences: { text: string; offset: number }[] = [];
+  let start = 0;
+
+  for (const match of paragraph.matchAll(SENTENCE_END_PATTERN)) {
+    const end = match.index! + match[0].length;
+    const next = paragraph.slice(end).trimStart();
+    if (!next || /^\p{Ll}/u.test(next) || isAbbreviation(paragraph, match.index!)) continue;
+
+    sentences.push({ text: paragraph.slice(start, end).trim(), offset: start });
+    start = end + (paragraph.length - end - next.length);
+  }
+  if (start < paragraph.length) {
+    sentences.push({ text: paragraph.slice(start).trim(), offset: start });
+  }
+
+  return sentences;
+}
+
+export function splitSentences(paragraph: string): string[] {
+  return findSentences(paragraph).map(sentence => sentence.text);
+}
+
+// Split prose into the units of the given granularity. Sentences of different paragraphs
+// are separated by an empty unit so paragraph breaks stay visible and anchor the alignment.
+export function splitProse(text: string, granularity: Exclude<DiffGranularity, 'line'>): ProseUnit[] {
+  const paragraphs = collectParagraphs(text);
+  if (granularity === 'paragraph') return paragraphs.map(({ text: paragraph, line }) => ({ text: paragraph, line }));
+
+  return paragraphs.flatMap((paragraph, index) => {
+    const sentences = findSentences(paragraph.text).map(sentence => {
+      // Source line of the sentence: the last line starting at or before it
+      const lineOffset = paragraph.lineStarts.filter(lineStart => lineStart <= sentence.offset).length - 1;
+      return { text: sentence.text, line: paragraph.line + lineOffset };
+    });
+    return index > 0 ? [{ text: '', line: 0 }, ...sentences] : sentences;
+  });
+}
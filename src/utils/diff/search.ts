@@ -0,0 +1,101 @@
+import { DiffResultWithLineNumbers, FormattedDiff, UnifiedDiffLine } from './types';
+
+// Lines searched: one pane, both panes, or only changed lines of both
+export type SearchScope = 'both' | 'left' | 'right' | 'changed';
+
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  scope: SearchScope;
+}
+
+// Match of a search in the text of a row. In the unified view side is the side stored on the row.
+export interface SearchMatch {
+  row: number;
+  side: UnifiedDiffLine['side'];
+  start: number;
+  end: number;
+}
+
+export interface CompiledSearch {
+  pattern: RegExp | null; // null when there is nothing to search for
+  error?: string; // Why a regular expression is invalid
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Turn the query into a global pattern, plain text is matched literally
+export function compileSearch({ query, regex, caseSensitive }: SearchOptions): CompiledSearch {
+  if (!query) return { pattern: null };
+  const flags = caseSensitive ? 'g' : 'gi';
+  try {
+    return { pattern: new RegExp(regex ? query : escapeRegExp(query), flags) };
+  } catch (error) {
+    return { pattern: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+const isSearchable = (line: DiffResultWithLineNumbers | undefined, scope: SearchScope) =>
+  !!line && !line.spacer && !line.extraLine &&
+  (scope !== 'changed' || (!line.masked && !!(line.removed || line.added || line.modified || line.moved)));
+
+// Ranges [start, end) of the pattern in a text. Empty matches are skipped.
+function matchRanges(text: string, pattern: RegExp): [number, number][] {
+  const ranges: [number, number][] = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      pattern.lastIndex++;
+      continue;
+    }
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+const collect = (matches: SearchMatch[], row: number, side: SearchMatch['side'], text: string, pattern: RegExp) => {
+  for (const [start, end] of matchRanges(text, pattern)) matches.push({ row, side, start, end });
+};
+
+// Matches in the rows of a side-by-side diff, row by row with the left pane first
+export function searchDiff(diff: FormattedDiff, options: SearchOptions): SearchMatch[] {
+  const { pattern } = compileSearch(options);
+  if (!pattern) return [];
+
+  const matches: SearchMatch[] = [];
+  const rowCount = Math.max(diff.left.length, diff.right.length);
+  for (let row = 0; row < rowCount; row++) {
+    const left = diff.left[row];
+    const right = diff.right[row];
+    if (options.scope !== 'right' && isSearchable(left, options.scope)) collect(matches, row, 'left', left.value, pattern);
+    if (options.scope !== 'left' && isSearchable(right, options.scope)) collect(matches, row, 'right', right.value, pattern);
+  }
+  return matches;
+}
+
+// Matches in the rows of the unified view. Unchanged rows belong to both panes.
+export function searchUnified(lines: UnifiedDiffLine[], options: SearchOptions): SearchMatch[] {
+  const { pattern } = compileSearch(options);
+  if (!pattern) return [];
+
+  const excluded = options.scope === 'left' ? 'right' : options.scope === 'right' ? 'left' : null;
+  const matches: SearchMatch[] = [];
+  lines.forEach((line, row) => {
+    if (line.side !== excluded && isSearchable(line, options.scope)) collect(matches, row, line.side, line.value, pattern);
+  });
+  return matches;
+}
+
+// Match ranges by row for the pane showing the given side, 'unified' takes every match
+export function matchRangesByRow(matches: SearchMatch[], pane: 'left' | 'right' | 'unified'): Map<number, [number, number][]> {
+  const byRow = new Map<number, [number, number][]>();
+  for (const match of matches) {
+    if (pane !== 'unified' && match.side !== pane) continue;
+    const ranges = byRow.get(match.row) ?? [];
+    ranges.push([match.start, match.end]);
+    byRow.set(match.row, ranges);
+  }
+  return byRow;
+}
@@ -0,0 +1,146 @@
+import { diffArrays } from 'diff';
+import { StructuralChange, StructuralDiff, StructuralNode } from './types';
+
+type PlainObject = Record<string, unknown>;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Append a property name or array index to a JSONPath-style path
+export function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return IDENTIFIER_PATTERN.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+// Deep equality for parsed documents, object key order is ignored
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]));
+  }
+  // NaN from YAML .nan compares equal to itself
+  return typeof a === 'number' && typeof b === 'number' && Number.isNaN(a) && Number.isNaN(b);
+}
+
+// Compare two values at a path, recording changes and returning the tree node
+function compareValues(oldValue: unknown, newValue: unknown, key: string, path: string, changes: StructuralChange[]): StructuralNode {
+  if (deepEqual(oldValue, newValue)) {
+    return { key, path, status: 'unchanged', oldValue, newValue };
+  }
+
+  let children: StructuralNode[] | null = null;
+  if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    children = compareObjects(oldValue, newValue, path, changes);
+  } else if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    children = compareArrays(oldValue, newValue, path, changes);
+  }
+
+  if (children) {
+    return { key, path, status: 'contains-changes', oldValue, newValue, children };
+  }
+
+  // Different primitives or different container types replace the whole value
+  changes.push({ path, kind: 'changed', oldValue, newValue });
+  return { key, path, status: 'changed', oldValue, newValue };
+}
+
+function addedNode(value: unknown, key: string, path: string, changes: StructuralChange[]): StructuralNode {
+  changes.push({ path, kind: 'added', newValue: value });
+  return { key, path, status: 'added', newValue: value };
+}
+
+function removedNode(value: unknown, key: string, path: string, changes: StructuralChange[]): StructuralNode {
+  changes.push({ path, kind: 'removed', oldValue: value });
+  return { key, path, status: 'removed', oldValue: value };
+}
+
+// Match object properties by name, children keep the old key order followed by new keys
+function compareObjects(oldValue: PlainObject, newValue: PlainObject, path: string, changes: StructuralChange[]): StructuralNode[] {
+  const has = (object: PlainObject, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+  const keys = [...Object.keys(oldValue), ...Object.keys(newValue).filter(key => !has(oldValue, key))];
+
+  return keys.map(key => {
+    const keyPath = childPath(path, key);
+    if (!has(newValue, key)) return removedNode(oldValue[key], key, keyPath, changes);
+    if (!has(oldValue, key)) return addedNode(newValue[key], key, keyPath, changes);
+    return compareValues(oldValue[key], newValue[key], key, keyPath, changes);
+  });
+}
+
+// Align array items by equality, then pair the removed and added items between two matches
+// so an edited item shows as a change inside it instead of a removal and an addition.
+// Removed items use their old index in paths, all other items their new index.
+function compareArrays(oldValue: unknown[], newValue: unknown[], path: string, changes: StructuralChange[]): StructuralNode[] {
+  const nodes: StructuralNode[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let removedRun: unknown[] = [];
+
+  const flushRemoved = (added: unknown[] = []) => {
+    const paired = Math.min(removedRun.length, added.length);
+    const removedStart = oldIndex - removedRun.length;
+
+    for (let i = 0; i < paired; i++) {
+      const index = newIndex + i;
+      nodes.push(compareValues(removedRun[i], added[i], `[${index}]`, childPath(path, index), changes));
+    }
+    for (let i = paired; i < removedRun.length; i++) {
+      const index = removedStart + i;
+      nodes.push(removedNode(removedRun[i], `[${index}]`, childPath(path, index), changes));
+    }
+    for (let i = paired; i < added.length; i++) {
+      const index = newIndex + i;
+      nodes.push(addedNode(added[i], `[${index}]`, childPath(path, index), changes));
+    }
+
+    newIndex += added.length;
+    removedRun = [];
+  };
+
+  for (const change of diffArrays(oldValue, newValue, { comparator: deepEqual })) {
+    if (change.removed) {
+      removedRun = change.value;
+      oldIndex += change.value.length;
+    } else if (change.added) {
+      flushRemoved(change.value);
+    } else {
+      flushRemoved();
+      change.value.forEach((item, i) => {
+        const index = newIndex + i;
+        nodes.push({ key: `[${index}]`, path: childPath(path, index), status: 'unchanged', oldValue: item, newValue: item });
+      });
+      oldIndex += change.value.length;
+      newIndex += change.value.length;
+    }
+  }
+  flushRemoved();
+
+  return nodes;
+}
+
+// Compare two parsed documents structurally, ignoring object key order
+export function diffStructures(oldValue: unknown, newValue: unknown, rootPath: string = '$'): StructuralDiff {
+  const changes: StructuralChange[] = [];
+  const root = compareValues(oldValue, newValue, rootPath, rootPath, changes);
+  return { root, changes };
+}
+
+// Parse both texts as JSON and compare them structurally, throws when either side is not valid JSON
+export function diffJsonTexts(oldText: string, newText: string): StructuralDiff {
+  const parse = (text: string, side: string) => {
+    try {
+      return JSON.parse(text);
+    } catch (e) {
+      throw new Error(`${side} is not valid JSON: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    }
+  };
+  return diffStructures(parse(oldText, 'Original'), parse(newText, 'Modified'));
+}
@@ -0,0 +1,25 @@
+import { diffHtmlTexts, diffXmlTexts } from './domDiff';
+import { diffJsonTexts } from './structuralDiff';
+import { diffYamlTexts } from './yamlDiff';
+import { StructuralDiff } from './types';
+
+// Structural comparisons by language
+const STRUCTURAL_DIFFS: Record<string, (oldText: string, newText: string) => StructuralDiff> = {
+  json: diffJsonTexts,
+  yaml: diffYamlTexts,
+  xml: diffXmlTexts,
+  html: diffHtmlTexts,
+};
+
+// Languages compared structurally next to the line diff
+export function supportsStructuralDiff(language: string): boolean {
+  return Object.prototype.hasOwnProperty.call(STRUCTURAL_DIFFS, language);
+}
+
+// Compare two texts structurally in the given language, throws when either side does not parse
+export function diffStructuredTexts(language: string, oldText: string, newText: string): StructuralDiff {
+  if (!supportsStructuralDiff(language)) {
+    throw new Error(`Structural comparison is not available for ${language}`);
+  }
+  return STRUCTURAL_DIFFS[language](oldText, newText);
+}
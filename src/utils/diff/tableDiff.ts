@@ -0,0 +1,337 @@
+import { diffArrays } from 'diff';
+import { TableCell, TableColumn, TableDelimiter, TableDiff, TableRowDiff } from './types';
+
+// Header row and data rows of a CSV/TSV text
+export interface ParsedTable {
+  header: string[]; // Unique column names, blank names become "Column N"
+  rows: string[][];
+}
+
+export interface TableDiffOptions {
+  delimiter?: TableDelimiter; // Detected from the original text when unset
+  keyColumns?: string[]; // Match rows by these columns, by content when empty
+}
+
+// Tab first: spreadsheet pastes are TSV and their cells often contain commas
+export const TABLE_DELIMITERS: TableDelimiter[] = ['\t', ',', ';', '|'];
+
+// Rows checked when detecting the delimiter
+const DETECTION_SAMPLE_ROWS = 50;
+
+// Split delimited text into rows of fields (RFC 4180): quoted fields may contain delimiters,
+// line breaks and "" for a quote. Blank lines are skipped, throws on an unclosed quote.
+// Parsing stops after maxRows rows, so sampling a large text does not read all of it.
+export function parseDelimited(text: string, delimiter: TableDelimiter, side: string = 'Input', maxRows = Infinity): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let atFieldStart = true;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+    atFieldStart = true;
+  };
+
+  for (let i = 0; i < source.length && rows.length < maxRows; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char !== '"') {
+        field += char;
+      } else if (source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (char === '"' && atFieldStart) {
+      inQuotes = true;
+      atFieldStart = false;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+      atFieldStart = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+      atFieldStart = false;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`${side} is not valid CSV: a quoted field is not closed`);
+  }
+  if (rows.length < maxRows && (!atFieldStart || row.length > 0)) endRow();
+
+  return rows;
+}
+
+// Delimiter that splits every sampled row into the same number (two or more) of fields, null when none does
+export function findConsistentDelimiter(text: string): TableDelimiter | null {
+  for (const delimiter of TABLE_DELIMITERS) {
+    let rows: string[][];
+    try {
+      rows = parseDelimited(text, delimiter, undefined, DETECTION_SAMPLE_ROWS);
+    } catch {
+      continue;
+    }
+    if (rows.length > 0 && rows[0].length > 1 && rows.every(row => row.length === rows[0].length)) {
+      return delimiter;
+    }
+  }
+  return null;
+}
+
+// Data rows needed before a text is detected as a table
+const DETECTION_MIN_ROWS = 2;
+
+const BRACKET_PAIRS = ['()', '[]', '{}'];
+
+const hasBalancedBrackets = (field: string) =>
+  BRACKET_PAIRS.every(([open, close]) => field.split(open).length === field.split(close).length);
+
+// Cells that are not padded with spaces, shell pipelines pad every one ("cat a | grep b")
+const isUnpadded = (field: string) => field !== '' && field.trim() === field;
+
+// Heuristic for language detection: a header and at least two rows with the same number of fields.
+// Commas and semicolons followed by a space read as prose ("Hello, world"), tab and pipe cells may be
+// padded. Header fields with unbalanced brackets read as code ("f(a,b)"), data cells may hold ":)".
+// YAML mappings ("name: a,b") and Markdown tables (a "|---|" row) have views of their own.
+export function looksLikeTable(text: string): boolean {
+  const delimiter = findConsistentDelimiter(text);
+  if (!delimiter) return false;
+  const rows = parseDelimited(text, delimiter, undefined, DETECTION_SAMPLE_ROWS);
+  const proseLike = (delimiter === ',' || delimiter === ';') &&
+    rows.some(row => row.some(field => /^\s/.test(field)));
+  const yamlLike = rows.every(row => /^\s*[a-zA-Z_][a-zA-Z0-9_]*\s*:/.test(row[0]));
+  const markdownLike = rows.some(row => /^\|?\s*:?-{3,}/.test(row.join(delimiter)));
+  const pipelineLike = delimiter === '|' && !rows.some(row => row.some(isUnpadded));
+  return rows.length > DETECTION_MIN_ROWS && !proseLike && !yamlLike && !markdownLike && !pipelineLike &&
+    rows[0].every(hasBalancedBrackets);
+}
+
+// Delimiter of a table, comma when no delimiter gives consistent rows
+export function detectDelimiter(text: string): TableDelimiter {
+  return findConsistentDelimiter(text) || ',';
+}
+
+// Parse a table whose first row is the header. Duplicate names get a " (2)" suffix so columns match by name.
+export function parseTable(text: string, delimiter: TableDelimiter, side: string = 'Input'): ParsedTable {
+  const [headerRow = [], ...rows] = parseDelimited(text, delimiter, side);
+  const seen = new Map<string, number>();
+
+  const header = headerRow.map((cell, i) => {
+    const name = cell.trim() || `Column ${i + 1}`;
+    const count = (seen.get(name) || 0) + 1;
+    seen.set(name, count);
+    return count > 1 ? `${name} (${count})` : name;
+  });
+
+  // Rows longer than the header get their own unnamed columns
+  const width = Math.max(header.length, ...rows.map(row => row.length));
+  for (let i = header.length; i < width; i++) {
+    header.push(`Column ${i + 1}`);
+  }
+
+  return { header, rows };
+}
+
+// Columns in the modified order, removed columns after the column that preceded them in the original
+function matchColumns(oldHeader: string[], newHeader: string[]): TableColumn[] {
+  const oldIndexes = new Map(oldHeader.map((name, i) => [name, i]));
+  const newIndexes = new Map(newHeader.map((name, i) => [name, i]));
+
+  const columns: TableColumn[] = newHeader.map((name, newIndex) => oldIndexes.has(name)
+    ? { name, status: 'unchanged', oldIndex: oldIndexes.get(name), newIndex }
+    : { name, status: 'added', newIndex });
+
+  oldHeader.forEach((name, oldIndex) => {
+    if (newIndexes.has(name)) return;
+    const previous = oldIndex === 0 ? -1 : columns.findIndex(column => column.name === oldHeader[oldIndex - 1]);
+    columns.splice(previous + 1, 0, { name, status: 'removed', oldIndex });
+  });
+
+  return columns;
+}
+
+// Compare two rows cell by cell, either side is unset for added and removed rows
+function buildRow(
+  columns: TableColumn[],
+  oldRow: string[] | undefined,
+  newRow: string[] | undefined,
+  oldRowNumber: number | undefined,
+  newRowNumber: number | undefined,
+  key?: string
+): TableRowDiff {
+  const cells: TableCell[] = columns.map(column => {
+    const oldValue = oldRow && column.oldIndex !== undefined ? oldRow[column.oldIndex] ?? '' : undefined;
+    const newValue = newRow && column.newIndex !== undefined ? newRow[column.newIndex] ?? '' : undefined;
+    return { oldValue, newValue, changed: column.status === 'unchanged' && !!oldRow && !!newRow && oldValue !== newValue };
+  });
+
+  const status = !oldRow ? 'added' : !newRow ? 'removed' : cells.some(cell => cell.changed) ? 'changed' : 'unchanged';
+  return { status, key, oldRow: oldRowNumber, newRow: newRowNumber, cells };
+}
+
+// Match rows by their key column values. Rows are listed in the modified order,
+// removed rows before the first row that followed them in the original.
+function matchRowsByKey(oldTable: ParsedTable, newTable: ParsedTable, columns: TableColumn[], keyColumns: string[]) {
+  const keyOf = (row: string[], header: string[]) => keyColumns.map(name => row[header.indexOf(name)] ?? '');
+  const oldKeys = oldTable.rows.map(row => keyOf(row, oldTable.header));
+  const newKeys = newTable.rows.map(row => keyOf(row, newTable.header));
+
+  const oldByKey = new Map<string, number[]>();
+  oldKeys.forEach((key, i) => {
+    const id = JSON.stringify(key);
+    oldByKey.set(id, [...(oldByKey.get(id) || []), i]);
+  });
+
+  const duplicateKeys = new Set<string>();
+  const countKeys = (keys: string[][]) => {
+    const counts = new Map<string, number>();
+    keys.forEach(key => {
+      const label = key.join(' / ');
+      counts.set(label, (counts.get(label) || 0) + 1);
+      if (counts.get(label) === 2) duplicateKeys.add(label);
+    });
+  };
+  countKeys(oldKeys);
+  countKeys(newKeys);
+
+  // Rows sharing a key are matched in order
+  const matches = newKeys.map(key => oldByKey.get(JSON.stringify(key))?.shift());
+  const matchedOld = new Set(matches.filter((index): index is number => index !== undefined));
+
+  const rows: TableRowDiff[] = [];
+  let nextOld = 0;
+  const emitRemovedBefore = (limit: number) => {
+    for (; nextOld < limit; nextOld++) {
+      if (!matchedOld.has(nextOld)) {
+        rows.push(buildRow(columns, oldTable.rows[nextOld], undefined, nextOld + 1, undefined, oldKeys[nextOld].join(' / ')));
+      }
+    }
+  };
+
+  newTable.rows.forEach((row, newIndex) => {
+    const oldIndex = matches[newIndex];
+    const key = newKeys[newIndex].join(' / ');
+    if (oldIndex === undefined) {
+      rows.push(buildRow(columns, undefined, row, undefined, newIndex + 1, key));
+      return;
+    }
+    emitRemovedBefore(oldIndex);
+    rows.push(buildRow(columns, oldTable.rows[oldIndex], row, oldIndex + 1, newIndex + 1, key));
+  });
+  emitRemovedBefore(oldTable.rows.length);
+
+  return { rows, duplicateKeys: Array.from(duplicateKeys) };
+}
+
+// Align rows by their content in the shared columns, removed and added rows between two matches
+// are paired in order so an edited row shows its changed cells
+function matchRowsByContent(oldTable: ParsedTable, newTable: ParsedTable, columns: TableColumn[]): TableRowDiff[] {
+  const shared = columns.filter(column => column.status === 'unchanged');
+  const oldSignatures = oldTable.rows.map(row => JSON.stringify(shared.map(column => row[column.oldIndex!] ?? '')));
+  const newSignatures = newTable.rows.map(row => JSON.stringify(shared.map(column => row[column.newIndex!] ?? '')));
+
+  const rows: TableRowDiff[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let removedCount = 0;
+
+  const flushRemoved = (addedCount: number = 0) => {
+    const removedStart = oldIndex - removedCount;
+
+    for (let i = 0; i < Math.max(removedCount, addedCount); i++) {
+      const oldRow = i < removedCount ? removedStart + i : undefined;
+      const newRow = i < addedCount ? newIndex + i : undefined;
+      rows.push(buildRow(
+        columns,
+        oldRow !== undefined ? oldTable.rows[oldRow] : undefined,
+        newRow !== undefined ? newTable.rows[newRow] : undefined,
+        oldRow !== undefined ? oldRow + 1 : undefined,
+        newRow !== undefined ? newRow + 1 : undefined
+      ));
+    }
+
+    newIndex += addedCount;
+    removedCount = 0;
+  };
+
+  for (const change of diffArrays(oldSignatures, newSignatures)) {
+    if (change.removed) {
+      removedCount = change.value.length;
+      oldIndex += change.value.length;
+    } else if (change.added) {
+      flushRemoved(change.value.length);
+    } else {
+      flushRemoved();
+      for (let i = 0; i < change.value.length; i++) {
+        rows.push(buildRow(columns, oldTable.rows[oldIndex + i], newTable.rows[newIndex + i], oldIndex + i + 1, newIndex + i + 1));
+      }
+      oldIndex += change.value.length;
+      newIndex += change.value.length;
+    }
+  }
+  flushRemoved();
+
+  return rows;
+}
+
+// First shared column whose values are present and unique on both sides, a good default key
+export function suggestKeyColumn(oldTable: ParsedTable, newTable: ParsedTable): string | undefined {
+  const isUnique = (table: ParsedTable, index: number) => {
+    const values = table.rows.map(row => row[index] ?? '');
+    return values.every(value => value !== '') && new Set(values).size === values.length;
+  };
+  return oldTable.header.find(name => {
+    const newIndex = newTable.header.indexOf(name);
+    return newIndex !== -1 && isUnique(oldTable, oldTable.header.indexOf(name)) && isUnique(newTable, newIndex);
+  });
+}
+
+// Compare two parsed tables: columns by header name, rows by the key columns present on both sides
+export function diffTables(oldTable: ParsedTable, newTable: ParsedTable, keyColumns: string[] = []): TableDiff {
+  const columns = matchColumns(oldTable.header, newTable.header);
+  const usedKeys = keyColumns.filter(name => oldTable.header.includes(name) && newTable.header.includes(name));
+
+  let rows: TableRowDiff[];
+  let duplicateKeys: string[] = [];
+  if (usedKeys.length > 0) {
+    ({ rows, duplicateKeys } = matchRowsByKey(oldTable, newTable, columns, usedKeys));
+  } else {
+    rows = matchRowsByContent(oldTable, newTable, columns);
+  }
+
+  const countRows = (status: TableRowDiff['status']) => rows.filter(row => row.status === status).length;
+  return {
+    columns,
+    rows,
+    keyColumns: usedKeys,
+    summary: {
+      addedRows: countRows('added'),
+      removedRows: countRows('removed'),
+      changedRows: countRows('changed'),
+      changedCells: rows.reduce((total, row) => total + row.cells.filter(cell => cell.changed).length, 0),
+      addedColumns: columns.filter(column => column.status === 'added').map(column => column.name),
+      removedColumns: columns.filter(column => column.status === 'removed').map(column => column.name),
+      duplicateKeys,
+    },
+  };
+}
+
+// Parse both texts as tables and compare them, the delimiter is detected from the original when not given
+export function diffTableTexts(oldText: string, newText: string, options: TableDiffOptions = {}): TableDiff {
+  const delimiter = options.delimiter || detectDelimiter(oldText || newText);
+  return diffTables(
+    parseTable(oldText, delimiter, 'Original'),
+    parseTable(newText, delimiter, 'Modified'),
+    options.keyColumns
+  );
+}
@@ -0,0 +1,89 @@
+import { FormatDifference, FormatSummary, LineEnding, TextFormat } from './types';
+
+const BOM = '\uFEFF';
+
+// Visible symbols for line breaks when line endings are compared per line
+export const EOL_GLYPHS: Record<LineEnding, string> = {
+  LF: '\u240A', // ␊
+  CRLF: '\u240D\u240A', // ␍␊
+  CR: '\u240D', // ␍
+};
+
+// Text shown in the marker row of the side that lacks a final newline
+export const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+export function toLineEnding(lineBreak: string): LineEnding {
+  return lineBreak === '\r\n' ? 'CRLF' : lineBreak === '\r' ? 'CR' : 'LF';
+}
+
+// Remove the byte order mark and the line breaks at the end of the text.
+// Returns the final line break (if any) so callers can show it.
+export function splitTrailingLineBreaks(text: string): { body: string; finalLineBreak: string; trailingBlankLines: number } {
+  const withoutBom = text.startsWith(BOM) ? text.slice(1) : text;
+  const match = withoutBom.match(/(?:\r\n|\r|\n)+$/);
+  if (!match) {
+    return { body: withoutBom, finalLineBreak: '', trailingBlankLines: 0 };
+  }
+
+  const lineBreaks = match[0].match(/\r\n|\r|\n/g)!;
+  return {
+    body: withoutBom.slice(0, match.index),
+    finalLineBreak: lineBreaks[0],
+    trailingBlankLines: lineBreaks.length - 1,
+  };
+}
+
+export function detectTextFormat(text: string): TextFormat {
+  const lineEndingCounts: Record<LineEnding, number> = { LF: 0, CRLF: 0, CR: 0 };
+  for (const lineBreak of text.match(/\r\n|\r|\n/g) || []) {
+    lineEndingCounts[toLineEnding(lineBreak)]++;
+  }
+
+  const used = (Object.keys(lineEndingCounts) as LineEnding[]).filter(ending => lineEndingCounts[ending] > 0);
+  const { finalLineBreak, trailingBlankLines } = splitTrailingLineBreaks(text);
+
+  return {
+    lineEnding: used.length === 0 ? 'none' : used.length === 1 ? used[0] : 'mixed',
+    lineEndingCounts,
+    bom: text.startsWith(BOM),
+    finalNewline: finalLineBreak !== '',
+    trailingBlankLines,
+  };
+}
+
+// Compare the formats of two texts, texts without line breaks do not count as a line ending change
+export function compareTextFormats(oldText: string, newText: string): FormatSummary {
+  const oldFormat = detectTextFormat(oldText);
+  const newFormat = detectTextFormat(newText);
+  const differences: FormatDifference[] = [];
+
+  if (oldFormat.lineEnding !== newFormat.lineEnding && oldFormat.lineEnding !== 'none' && newFormat.lineEnding !== 'none') {
+    differences.push({
+      kind: 'line-ending',
+      message: `Line endings changed from ${oldFormat.lineEnding} to ${newFormat.lineEnding}`,
+    });
+  }
+
+  if (oldFormat.bom !== newFormat.bom) {
+    differences.push({
+      kind: 'bom',
+      message: newFormat.bom ? 'Byte order mark added' : 'Byte order mark removed',
+    });
+  }
+
+  if (oldText && newText && oldFormat.finalNewline !== newFormat.finalNewline) {
+    differences.push({
+      kind: 'final-newline',
+      message: newFormat.finalNewline ? 'Newline added at end of file' : 'Newline removed at end of file',
+    });
+  }
+
+  if (oldFormat.trailingBlankLines !== newFormat.trailingBlankLines) {
+    differences.push({
+      kind: 'trailing-blank-lines',
+      message: `Trailing blank lines changed from ${oldFormat.trailingBlankLines} to ${newFormat.trailingBlankLines}`,
+    });
+  }
+
+  return { old: oldFormat, new: newFormat, differences };
+}
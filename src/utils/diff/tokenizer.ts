@@ -0,0 +1,82 @@
+import { diffArrays } from 'diff';
+
+// Splits a line into tokens for the inline diff, joining the tokens must give back the line
+export interface Tokenizer {
+  id: string;
+  tokenize: (text: string) => string[];
+}
+
+interface TokenDiffPart {
+  value: string;
+  added?: boolean;
+  removed?: boolean;
+}
+
+// Tokens of source code: whitespace runs, camelCase/PascalCase/ACRONYM word parts, digit runs,
+// underscore runs (snake_case), common multi-character operators and single other characters
+const CODE_TOKEN_PATTERN = new RegExp(
+  [
+    '\\s+',
+    '\\p{Lu}+(?![\\p{Ll}])', // Acronym, stops before the next capitalized word: XMLParser -> XML, Parser
+    '\\p{Lu}?\\p{Ll}+', // camelCase part: getUserById -> get, User, By, Id
+    '\\p{L}+', // Letters without case, e.g. CJK
+    '0[xX][0-9a-fA-F]+',
+    '\\d+',
+    '_+',
+    '===|!==|\\*\\*=|\\.\\.\\.|>>>|<<=|>>=|&&=|\\|\\|=|\\?\\?=',
+    '==|!=|<=|>=|=>|->|&&|\\|\\||\\?\\?|\\?\\.|\\+\\+|--|\\+=|-=|\\*=|\\/=|%=|&=|\\|=|\\^=|<<|>>|::|\\*\\*',
+    '[^]',
+  ].join('|'),
+  'gu'
+);
+
+// Quoted string literals on a line, backslash escapes do not close them
+const STRING_LITERAL_PATTERN = /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`/g;
+
+// Tokens of string literal contents: prose splits into whole words, "HTTPError" and "iPhone" stay one word
+const STRING_TOKEN_PATTERN = /\s+|[\p{L}\p{N}_]+|[^]/gu;
+
+export const codeTokenizer: Tokenizer = {
+  id: 'code',
+  tokenize: (text) => {
+    const tokens: string[] = [];
+    let pos = 0;
+    for (const literal of text.matchAll(STRING_LITERAL_PATTERN)) {
+      const end = literal.index + literal[0].length;
+      tokens.push(...text.slice(pos, literal.index).match(CODE_TOKEN_PATTERN) || []);
+      tokens.push(literal[0][0], ...literal[0].slice(1, -1).match(STRING_TOKEN_PATTERN) || [], literal[0][0]);
+      pos = end;
+    }
+    tokens.push(...text.slice(pos).match(CODE_TOKEN_PATTERN) || []);
+    return tokens;
+  },
+};
+
+const CODE_LANGUAGES = [
+  'javascript', 'typescript', 'jsx', 'tsx', 'json', 'css', 'html', 'xml', 'ejs', 'yaml', 'ini', 'bash',
+  'python', 'java', 'c', 'cpp', 'csharp', 'clike', 'go', 'rust', 'sql', 'perl',
+];
+
+// Tokenizers by language, languages without one use the word diff
+const tokenizers = new Map<string, Tokenizer>(CODE_LANGUAGES.map(language => [language, codeTokenizer]));
+
+// Use a tokenizer for the given languages. Registration is per JavaScript context,
+// register in the diff worker as well for it to apply to background diffs.
+export function registerTokenizer(languages: string[], tokenizer: Tokenizer): void {
+  for (const language of languages) {
+    tokenizers.set(language, tokenizer);
+  }
+}
+
+export function getTokenizer(language?: string): Tokenizer | undefined {
+  return language ? tokenizers.get(language) : undefined;
+}
+
+// Diff two texts token by token, runs of tokens with the same status are joined into one part
+export function diffTokens(leftText: string, rightText: string, tokenizer: Tokenizer): TokenDiffPart[] {
+  return diffArrays(tokenizer.tokenize(leftText), tokenizer.tokenize(rightText)).map(change => ({
+    value: change.value.join(''),
+    added: change.added,
+    removed: change.removed,
+  }));
+}
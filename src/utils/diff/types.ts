@@ -9,6 +9,8 @@ export interface DiffResult {
 export interface FormattedDiff {
   left: DiffResultWithLineNumbers[];
   right: DiffResultWithLineNumbers[];
+  diagnostics?: DiffDiagnostics; // How the diff was computed, set by computeLineDiff
+  formatSummary?: FormatSummary; // File-level line ending, BOM and final newline differences
 }
 
 export interface DiffResultWithLineNumbers extends DiffResult {
@@ -20,6 +22,257 @@ export interface DiffResultWithLineNumbers extends DiffResult {
     removed?: boolean;
   }[];
   spacer?: boolean; // To indicate this is a placeholder for spacing
-  extraLine?: boolean; // To indicate this line exists in original but not in modified
+  extraLine?: boolean; // To indicate a marker row that is not part of the text, e.g. "No newline at end of file"
   indentOnly?: boolean; // To indicate this line has only indentation changes
+  moved?: boolean; // To indicate this line belongs to a block moved elsewhere in the file
+  moveId?: number; // Links a moved source block on the left to its destination on the right
+  masked?: boolean; // To indicate this line matches a line mask and is ignored
+  maskedRanges?: [number, number][]; // Character ranges [start, end) replaced by token masks
+}
+
+// Row of the unified view: unchanged lines once with both line numbers, changed lines with the number of their side
+export interface UnifiedDiffLine extends DiffResultWithLineNumbers {
+  side: 'left' | 'right' | 'both';
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+// Line diff algorithm used to align the two texts
+export type DiffAlgorithm = 'myers' | 'patience' | 'histogram';
+
+// Unit that is aligned before word-level highlighting: source lines, or sentences/paragraphs of prose
+export type DiffGranularity = 'line' | 'sentence' | 'paragraph';
+
+// Built-in mask patterns
+export type MaskPreset = 'iso-timestamp' | 'uuid' | 'hex-address' | 'semver';
+
+// How a mask applies: drop whole matching lines or replace matching tokens with a placeholder
+export type MaskMode = 'line' | 'token';
+
+// How fragmented inline changes are merged: not at all, diff-match-patch style semantic or efficiency cleanup
+export type InlineCleanup = 'none' | 'semantic' | 'efficiency';
+
+// Regular expression whose matches are ignored when comparing
+export interface DiffMask {
+  pattern: string; // Regular expression source
+  flags?: string; // Regular expression flags, 'g' is always added
+  mode: MaskMode;
+  preset?: MaskPreset; // Set for built-in masks
+}
+
+// Options controlling how lines are compared, displayed lines always keep the original text
+export interface DiffOptions {
+  ignoreTrailingWhitespace?: boolean; // Ignore whitespace at the end of lines
+  ignoreWhitespaceAmount?: boolean; // Treat any run of whitespace as equal (git diff -b)
+  ignoreAllWhitespace?: boolean; // Ignore all whitespace when comparing lines (git diff -w)
+  ignoreBlankLines?: boolean; // Ignore changes whose lines are all blank
+  ignoreCase?: boolean; // Compare case-folded text
+  unicodeNormalization?: 'NFC' | 'NFKC'; // Compare Unicode-normalized text
+  algorithm?: DiffAlgorithm; // Line diff algorithm, defaults to Myers
+  granularity?: DiffGranularity; // Rows of the diff, defaults to source lines
+  detectMoves?: boolean; // Detect moved blocks, enabled unless set to false
+  masks?: DiffMask[]; // Regex masks applied before comparing
+  compareLineEndings?: boolean; // Show each line's ending and report per-line EOL changes
+  language?: string; // Language of the texts, picks the inline diff tokenizer
+  inlineCleanup?: InlineCleanup; // Merge fragmented inline changes, defaults to 'semantic'
+  normalizeMarkup?: boolean; // For xml/html, ignore attribute order, self-closing style and whitespace between tags; enabled unless set to false
+}
+
+// Phases reported while a diff is computed
+export type DiffPhase = 'preparing' | 'diffing' | 'aligning' | 'detecting-moves' | 'inline' | 'done';
+
+// Progress of a running diff computation
+export interface DiffProgress {
+  phase: DiffPhase;
+  percent: number; // 0 to 100
+}
+
+// Fallback strategies that can replace the regular diff computation
+export type DiffFallbackKind =
+  | 'line-diff-error' // Line diff threw, everything shown as removed/added
+  | 'empty-changes' // Line diff returned no changes, everything shown as removed/added
+  | 'excessive-removed-lines' // Alignment produced too many removed lines, everything shown as removed/added
+  | 'chunked-line-diff' // Very large input, common head and tail are trimmed before diffing
+  | 'chunked-line-diff-error' // Middle part of a chunked line diff shown as one removed/added block
+  | 'chunked-inline-diff' // Very long line pair, inline changes computed chunk by chunk
+  | 'chunked-inline-mismatch' // Chunk counts too different, inline changes shown as one removed/added part
+  | 'move-detection-error' // Moved blocks not detected
+  | 'inline-diff-error'; // Inline highlights missing for some lines
+
+// A fallback that ran while computing a diff
+export interface DiffFallback {
+  kind: DiffFallbackKind;
+  message: string;
+  degraded: boolean; // The shown diff is less precise than a regular diff
+  threshold?: number; // Limit that triggered the fallback
+  value?: number; // Measured value that exceeded the threshold
+  count?: number; // Number of times the fallback ran
+}
+
+// Diagnostics returned with a diff result
+export interface DiffDiagnostics {
+  fallbacks: DiffFallback[];
+  degraded: boolean; // At least one fallback degraded the result
+  timings: Partial<Record<DiffPhase, number>>; // Milliseconds spent in each phase
+  totalTime: number; // Milliseconds for the whole computation
+}
+
+// Line break sequences
+export type LineEnding = 'LF' | 'CRLF' | 'CR';
+
+// File-level properties that line comparison does not show
+export interface TextFormat {
+  lineEnding: LineEnding | 'mixed' | 'none'; // 'none' for text without line breaks
+  lineEndingCounts: Record<LineEnding, number>;
+  bom: boolean; // Starts with a UTF-8 byte order mark
+  finalNewline: boolean; // Ends with a line break
+  trailingBlankLines: number; // Empty lines after the final newline
+}
+
+export type FormatDifferenceKind = 'line-ending' | 'bom' | 'final-newline' | 'trailing-blank-lines';
+
+export interface FormatDifference {
+  kind: FormatDifferenceKind;
+  message: string;
+}
+
+// Format of both texts and how they differ
+export interface FormatSummary {
+  old: TextFormat;
+  new: TextFormat;
+  differences: FormatDifference[];
+}
+
+// How a value differs between the two structured documents
+export type StructuralChangeKind = 'added' | 'removed' | 'changed';
+
+// A value added, removed or changed at a path such as $.items[3].price
+export interface StructuralChange {
+  path: string;
+  kind: StructuralChangeKind;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+// Node of the structural diff tree, 'contains-changes' marks objects and arrays with changed descendants
+export interface StructuralNode {
+  key: string; // Property name, [index] for array items, '$' for the root
+  path: string;
+  status: StructuralChangeKind | 'unchanged' | 'contains-changes';
+  oldValue?: unknown; // Set unless the value was added
+  newValue?: unknown; // Set unless the value was removed
+  children?: StructuralNode[]; // Set for objects and arrays that contain changes
+}
+
+// Result of comparing two parsed documents
+export interface StructuralDiff {
+  root: StructuralNode;
+  changes: StructuralChange[];
+}
+
+// Field separator of a CSV/TSV table
+export type TableDelimiter = ',' | '\t' | ';' | '|';
+
+// Column of a compared table, matched by header name
+export interface TableColumn {
+  name: string;
+  status: 'unchanged' | 'added' | 'removed';
+  oldIndex?: number; // Field index in the original table, unset for added columns
+  newIndex?: number; // Field index in the modified table, unset for removed columns
+}
+
+export interface TableCell {
+  oldValue?: string; // Unset for added rows and columns
+  newValue?: string; // Unset for removed rows and columns
+  changed: boolean; // Only cells of columns present on both sides can change
+}
+
+export interface TableRowDiff {
+  status: 'unchanged' | 'changed' | 'added' | 'removed';
+  key?: string; // Key column values joined with ' / ', unset when rows are matched by content
+  oldRow?: number; // 1-based data row in the original table
+  newRow?: number; // 1-based data row in the modified table
+  cells: TableCell[]; // One per entry of TableDiff.columns
+}
+
+// Result of comparing two tables row by row and cell by cell
+export interface TableDiff {
+  columns: TableColumn[];
+  rows: TableRowDiff[];
+  keyColumns: string[]; // Key columns found on both sides, rows are matched by content when empty
+  summary: {
+    addedRows: number;
+    removedRows: number;
+    changedRows: number;
+    changedCells: number;
+    addedColumns: string[];
+    removedColumns: string[];
+    duplicateKeys: string[]; // Keys used by several rows, those rows are matched in order
+  };
+}
+
+// How the two inputs are compared: as ordered lines or as sets of lines
+export type ComparisonMode = 'lines' | 'set';
+
+// Result of comparing two inputs as sorted, deduplicated sets of lines
+export interface LineSetComparison {
+  onlyLeft: string[];
+  onlyRight: string[];
+  both: string[]; // Shown as written in the original when the sides differ only in ignored details
+  leftDuplicates: number; // Lines dropped from the original because an equal line came earlier
+  rightDuplicates: number;
+}
+
+// Leaf block of a Markdown document, lists and blockquotes are flattened into their blocks
+export type MarkdownBlockType = 'heading' | 'paragraph' | 'list-item' | 'code' | 'table' | 'rule';
+
+export type MarkdownAlignment = 'left' | 'center' | 'right' | null;
+
+export interface MarkdownBlock {
+  type: MarkdownBlockType;
+  text: string; // Inline source of headings, paragraphs and list items, content of code blocks, rows of tables
+  level: number; // Heading level, otherwise the list nesting depth (0 outside lists)
+  quote: number; // Blockquote nesting depth, 0 outside blockquotes
+  ordered?: boolean;
+  marker?: string; // List item number as written, e.g. "3."
+  checked?: boolean; // Task list items only
+  language?: string; // Info string of fenced code blocks
+  cells?: string[][]; // Table rows of inline source, the header row first
+  align?: MarkdownAlignment[];
+}
+
+// Run of inline text with the formatting it is rendered with
+export interface MarkdownSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string; // Link target, the image source for images
+  image?: boolean; // text is the alt text
+}
+
+export type MarkdownChange = 'added' | 'removed';
+
+export interface MarkdownSegment extends MarkdownSpan {
+  change?: MarkdownChange;
+}
+
+export interface MarkdownCodeLine {
+  text: string;
+  change?: MarkdownChange;
+}
+
+export interface MarkdownTableRow {
+  change?: MarkdownChange;
+  cells: MarkdownSegment[][];
+}
+
+// Block of the rendered diff: content carries the inline insertions and deletions
+export interface MarkdownBlockDiff {
+  status: 'unchanged' | 'added' | 'removed' | 'changed';
+  block: MarkdownBlock; // The modified block, the original one when removed
+  segments?: MarkdownSegment[]; // Headings, paragraphs and list items
+  codeLines?: MarkdownCodeLine[]; // Code blocks
+  rows?: MarkdownTableRow[]; // Tables, the header row first
 }
@@ -0,0 +1,35 @@
+import { DiffResultWithLineNumbers, FormattedDiff, UnifiedDiffLine } from './types';
+
+const isRealLine = (line?: DiffResultWithLineNumbers) => !!line && !line.spacer && !line.extraLine;
+
+// Interleave the aligned rows of a side-by-side diff into one column like `git diff`: unchanged lines once,
+// each run of changes as its original lines followed by its modified lines. Marker rows stay with their side.
+export function buildUnifiedLines(diff: FormattedDiff): UnifiedDiffLine[] {
+  const lines: UnifiedDiffLine[] = [];
+  let removed: UnifiedDiffLine[] = [];
+  let added: UnifiedDiffLine[] = [];
+
+  const flushChanges = () => {
+    lines.push(...removed, ...added);
+    removed = [];
+    added = [];
+  };
+
+  const rowCount = Math.max(diff.left.length, diff.right.length);
+  for (let row = 0; row < rowCount; row++) {
+    const left = diff.left[row];
+    const right = diff.right[row];
+
+    if (isRealLine(left) && isRealLine(right) && !left.removed && !right.added && !left.moved && !right.moved) {
+      flushChanges();
+      lines.push({ ...right, side: 'both', oldLineNumber: left.lineNumber, newLineNumber: right.lineNumber });
+      continue;
+    }
+
+    if (left && !left.spacer) removed.push({ ...left, side: 'left', oldLineNumber: left.extraLine ? undefined : left.lineNumber });
+    if (right && !right.spacer) added.push({ ...right, side: 'right', newLineNumber: right.extraLine ? undefined : right.lineNumber });
+  }
+  flushChanges();
+
+  return lines;
+}
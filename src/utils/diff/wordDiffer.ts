@@ -1,10 +1,14 @@
 import { diffChars, diffWords } from 'diff';
 import { xxHash32 } from 'js-xxhash';
 import { LRUCache } from '../lruCache';
-import { DiffResultWithLineNumbers } from './types';
+import { normalizeWithOffsets, type NormalizedText } from './normalizer';
+import { recordFallback } from './diagnostics';
+import { diffTokens, getTokenizer, type Tokenizer } from './tokenizer';
+import { cleanupInlineOps, type InlineOp } from './inlineCleanup';
+import { DiffResultWithLineNumbers, DiffOptions, DiffDiagnostics } from './types';
 
 // Optimized similarity calculation with early exit and length pre-check
-function calculateSimilarity(str1: string, str2: string): number {
+export function calculateSimilarity(str1: string, str2: string): number {
   if (str1 === str2) return 1;
   if (str1.length === 0 || str2.length === 0) return 0;
 
@@ -87,6 +91,8 @@ type DiffResult = DiffPart[];
 const diffCache = new LRUCache<string, DiffResult>(200); // Reduce cache size to avoid excessive memory usage
 const MAX_CACHEABLE_LENGTH = 500; // Only cache shorter texts to avoid hash collision issues with long texts
 const cacheStats = { hits: 0, misses: 0, collisions: 0 };
+const CHUNKED_DIFF_THRESHOLD = 50000; // Line pairs longer than this (chars) are diffed chunk by chunk
+const MAX_CHUNK_COUNT_DIFF = 2; // Larger chunk count differences skip the chunked inline diff
 
 // Unified hash function using xxHash32
 function computeHash(str: string, seed: number = 0): number {
@@ -166,13 +172,18 @@ function generateSecureCacheKey(leftText: string, rightText: string, diffType: s
 }
 
 // Refactored cached diff calculation function
-function cachedDiff(leftText: string, rightText: string, diffFn: typeof diffWords | typeof diffChars): DiffResult {
+function cachedDiff(
+  leftText: string,
+  rightText: string,
+  diffFn: (leftText: string, rightText: string) => DiffResult,
+  diffType: string = diffFn.name
+): DiffResult {
   // Early exit for identical texts
   if (leftText === rightText) {
     return leftText ? [{ value: leftText }] : [];
   }
 
-  const cacheKey = generateSecureCacheKey(leftText, rightText, diffFn.name);
+  const cacheKey = generateSecureCacheKey(leftText, rightText, diffType);
 
   // Empty cache key means no caching
   if (!cacheKey) {
@@ -261,7 +272,7 @@ function chunkText(text: string, maxChunkSize: number): string[] {
 }
 
 // Chunked diff processing - synchronous version
-function computeChunkedDiffSync(leftText: string, rightText: string, type: 'words' | 'chars'): DiffResult {
+function computeChunkedDiffSync(leftText: string, rightText: string, type: 'words' | 'chars', diagnostics?: DiffDiagnostics): DiffResult {
   const CHUNK_SIZE = 10000; // 10KB chunk size
 
   // If text is not very long, process directly (no caching)
@@ -279,7 +290,15 @@ function computeChunkedDiffSync(leftText: string, rightText: string, type: 'word
     const rightChunks = chunkText(rightMiddle, CHUNK_SIZE);
 
     // Simplified processing: if chunk count difference is too large, use simple diff
-    if (Math.abs(leftChunks.length - rightChunks.length) > 2) {
+    const chunkCountDiff = Math.abs(leftChunks.length - rightChunks.length);
+    if (chunkCountDiff > MAX_CHUNK_COUNT_DIFF) {
+      recordFallback(diagnostics, {
+        kind: 'chunked-inline-mismatch',
+        message: `Chunk counts differ by ${chunkCountDiff}, inline changes shown as one removed and one added part`,
+        degraded: true,
+        threshold: MAX_CHUNK_COUNT_DIFF,
+        value: chunkCountDiff,
+      });
       if (leftMiddle) middleResult.push({ value: leftMiddle, removed: true });
       if (rightMiddle) middleResult.push({ value: rightMiddle, added: true });
     } else {
@@ -341,7 +360,7 @@ function computeChunkedDiffSync(leftText: string, rightText: string, type: 'word
 }
 
 // Compute diff synchronously, optimized for performance
-function computeDiff(leftText: string, rightText: string, type: 'words' | 'chars'): DiffResult {
+function computeDiff(leftText: string, rightText: string, type: 'words' | 'chars', diagnostics?: DiffDiagnostics): DiffResult {
   // Early return for identical texts
   if (leftText === rightText) {
     return leftText ? [{ value: leftText }] : [];
@@ -350,15 +369,30 @@ function computeDiff(leftText: string, rightText: string, type: 'words' | 'chars
   const totalLength = leftText.length + rightText.length;
 
   // Use chunked processing for very long texts
-  if (totalLength > 50000) { // Increase threshold, use chunked processing
+  if (totalLength > CHUNKED_DIFF_THRESHOLD) { // Increase threshold, use chunked processing
     console.warn(`Text very long (${totalLength} chars), using chunked diff for ${type}`);
-    return computeChunkedDiffSync(leftText, rightText, type);
+    recordFallback(diagnostics, {
+      kind: 'chunked-inline-diff',
+      message: `Line pair too long (${totalLength} chars), inline changes computed chunk by chunk`,
+      degraded: false,
+      threshold: CHUNKED_DIFF_THRESHOLD,
+      value: totalLength,
+    });
+    return computeChunkedDiffSync(leftText, rightText, type, diagnostics);
   }
 
   // For all other texts, use cached diff directly
   return cachedDiff(leftText, rightText, type === 'words' ? diffWords : diffChars);
 }
 
+// Compute a token diff with a language tokenizer, very long texts use the chunked word diff
+function computeTokenDiff(leftText: string, rightText: string, tokenizer: Tokenizer, diagnostics?: DiffDiagnostics): DiffResult {
+  if (leftText.length + rightText.length > CHUNKED_DIFF_THRESHOLD) {
+    return computeDiff(leftText, rightText, 'words', diagnostics);
+  }
+  return cachedDiff(leftText, rightText, (left, right) => diffTokens(left, right, tokenizer), `tokens:${tokenizer.id}`);
+}
+
 // Extract common prefix and suffix from text
 function extractCommonParts(str1: string, str2: string): {
   prefix: string;
@@ -437,7 +471,10 @@ function shouldUseCharLevelDiff(leftText: string, rightText: string, wordDiffs:
 // Batch processing optimized applyWordDiffs function
 export function applyWordDiffs(
   leftLines: DiffResultWithLineNumbers[],
-  rightLines: DiffResultWithLineNumbers[]
+  rightLines: DiffResultWithLineNumbers[],
+  options: DiffOptions = {},
+  onProgress?: (fraction: number) => void,
+  diagnostics?: DiffDiagnostics
 ): void {
   // Identify corresponding modified line pairs
   const modifiedPairs: [number, number][] = [];
@@ -465,6 +502,9 @@ export function applyWordDiffs(
     rightIdx++;
   }
 
+  // Languages with a tokenizer diff sub-tokens directly instead of words refined by characters
+  const tokenizer = getTokenizer(options.language);
+
   // Batch processing: execute large number of diff tasks in batches
   const BATCH_SIZE = 10; // Process 10 lines per batch
   const batches: Array<[number, number][]> = [];
@@ -474,12 +514,17 @@ export function applyWordDiffs(
   }
 
   // Process batches sequentially
-  for (const batch of batches) {
+  batches.forEach((batch, batchIndex) => {
     batch.forEach(([leftIndex, rightIndex]) => {
       try {
         const leftLine = leftLines[leftIndex];
         const rightLine = rightLines[rightIndex];
 
+        // Moved lines are only compared with their own counterpart in the moved block
+        if (leftLine.moved !== rightLine.moved || leftLine.moveId !== rightLine.moveId) {
+          return;
+        }
+
         // If line already has inlineChanges, it's already been processed (e.g., indent-only diff), skip
         if ((leftLine.inlineChanges && leftLine.inlineChanges.length > 0 &&
              rightLine.inlineChanges && rightLine.inlineChanges.length > 0) ||
@@ -487,8 +532,11 @@ export function applyWordDiffs(
           return;
         }
 
-        const leftText = leftLine.value;
-        const rightText = rightLine.value;
+        // Compare case-folded/normalized text, highlights are mapped back onto the original characters
+        const leftNormalized = normalizeWithOffsets(leftLine.value, options);
+        const rightNormalized = normalizeWithOffsets(rightLine.value, options);
+        const leftText = leftNormalized.text;
+        const rightText = rightNormalized.text;
 
         // Early exit: if line content is identical
         if (leftText === rightText) {
@@ -501,30 +549,38 @@ export function applyWordDiffs(
         leftLine.inlineChanges = [];
         rightLine.inlineChanges = [];
 
-        // Prioritize word-level comparison
-        let wordDiffs: DiffResult;
-        try {
-          wordDiffs = computeDiff(leftText, rightText, 'words');
-        } catch (e) {
-          console.error('Word diff failed, falling back to cached diff:', e instanceof Error ? e.message : 'Unknown error');
-          wordDiffs = cachedDiff(leftText, rightText, diffWords);
-        }
-
-        // Check if character-level fine processing is needed
-        const needsCharDiff = shouldUseCharLevelDiff(leftText, rightText, wordDiffs);
+        let finalDiffs: DiffResult;
+        if (tokenizer) {
+          finalDiffs = computeTokenDiff(leftText, rightText, tokenizer, diagnostics);
+        } else {
+          // Prioritize word-level comparison
+          let wordDiffs: DiffResult;
+          try {
+            wordDiffs = computeDiff(leftText, rightText, 'words', diagnostics);
+          } catch (e) {
+            console.error('Word diff failed, falling back to cached diff:', e instanceof Error ? e.message : 'Unknown error');
+            wordDiffs = cachedDiff(leftText, rightText, diffWords);
+          }
 
-        let finalDiffs = wordDiffs;
+          finalDiffs = wordDiffs;
 
-        // Only perform character-level comparison when actually needed
-        if (needsCharDiff) {
-          finalDiffs = processCharLevelForSimilarWords(wordDiffs, leftText, rightText);
+          // Only perform character-level comparison when actually needed
+          if (shouldUseCharLevelDiff(leftText, rightText, wordDiffs)) {
+            finalDiffs = processCharLevelForSimilarWords(wordDiffs, leftText, rightText, diagnostics);
+          }
         }
 
-        // Build inlineChanges
-        buildInlineChanges(leftLine, rightLine, finalDiffs);
+        // Merge fragmented changes before building inlineChanges
+        const ops = cleanupInlineOps(toInlineOps(finalDiffs, leftText, rightText), options.inlineCleanup);
+        buildInlineChanges(leftLine, rightLine, ops, leftNormalized, rightNormalized);
 
       } catch (error) {
         console.error(`Failed to process diff for line pair ${leftIndex}:${rightIndex}:`, error instanceof Error ? error.message : 'Unknown error');
+        recordFallback(diagnostics, {
+          kind: 'inline-diff-error',
+          message: `Inline diff failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          degraded: true,
+        });
 
         // Ensure at least basic inlineChanges exist
         if (!leftLines[leftIndex].inlineChanges) {
@@ -535,11 +591,13 @@ export function applyWordDiffs(
         }
       }
     });
-  }
+
+    onProgress?.((batchIndex + 1) / batches.length);
+  });
 }
 
 // Process character-level for similar words
-function processCharLevelForSimilarWords(wordDiffs: DiffResult, leftText: string, rightText: string): DiffResult {
+function processCharLevelForSimilarWords(wordDiffs: DiffResult, leftText: string, rightText: string, diagnostics?: DiffDiagnostics): DiffResult {
   const result: DiffResult = [];
 
   for (let i = 0; i < wordDiffs.length; i++) {
@@ -553,7 +611,7 @@ function processCharLevelForSimilarWords(wordDiffs: DiffResult, leftText: string
       // Only perform character-level analysis for highly similar words
       if (similarity > 0.7) {
         try {
-          const charDiffs = computeDiff(current.value, next.value, 'chars');
+          const charDiffs = computeDiff(current.value, next.value, 'chars', diagnostics);
           // Clone each diff part to prevent reference sharing
           result.push(...charDiffs.map(part => ({ ...part })));
           i++; // Skip next one as we've already processed it
@@ -572,41 +630,97 @@ function processCharLevelForSimilarWords(wordDiffs: DiffResult, leftText: string
   return result;
 }
 
-// Build inline changes, ensuring word boundary priority
-function buildInlineChanges(
-  leftLine: DiffResultWithLineNumbers,
-  rightLine: DiffResultWithLineNumbers,
-  diffs: DiffPart[]
-): void {
-  // Process differences and build inlineChanges, maintaining word boundaries
+// Measure how much of the text at pos a common part covers.
+// diffWords takes whitespace of common parts from the right side, so whitespace runs match loosely.
+function matchCommonLength(partValue: string, text: string, pos: number): number {
+  let i = 0;
+  let j = pos;
+
+  while (i < partValue.length && j < text.length) {
+    if (/\s/.test(partValue[i])) {
+      while (i < partValue.length && /\s/.test(partValue[i])) i++;
+      while (j < text.length && /\s/.test(text[j])) j++;
+    } else {
+      i++;
+      j++;
+    }
+  }
+
+  return j - pos;
+}
+
+// Slice the original text covered by a range of the normalized text
+function sliceOriginal(original: string, normalized: NormalizedText, start: number, end: number): string {
+  return original.substring(normalized.offsets[start], normalized.offsets[end]);
+}
+
+// Resolve diff parts to the normalized text they cover on each side
+function toInlineOps(diffs: DiffPart[], leftText: string, rightText: string): InlineOp[] {
+  const ops: InlineOp[] = [];
+  let leftPos = 0;
+  let rightPos = 0;
+
   for (const part of diffs) {
     if (part.added) {
       // Added parts only appear on the right side
-      rightLine.inlineChanges!.push({
-        value: part.value,
-        added: true,
-        removed: false
-      });
+      const end = Math.min(rightPos + part.value.length, rightText.length);
+      ops.push({ type: 'insert', left: '', right: rightText.substring(rightPos, end) });
+      rightPos = end;
     } else if (part.removed) {
       // Removed parts only appear on the left side
-      leftLine.inlineChanges!.push({
-        value: part.value,
-        removed: true,
-        added: false
-      });
+      const end = Math.min(leftPos + part.value.length, leftText.length);
+      ops.push({ type: 'delete', left: leftText.substring(leftPos, end), right: '' });
+      leftPos = end;
     } else {
-      // Common parts appear on both sides - create separate objects to avoid reference sharing
-      leftLine.inlineChanges!.push({
-        value: part.value,
-        removed: false,
-        added: false
-      });
+      // Common parts appear on both sides, each with its own text
+      const leftEnd = leftPos + matchCommonLength(part.value, leftText, leftPos);
+      const rightEnd = rightPos + matchCommonLength(part.value, rightText, rightPos);
+      ops.push({ type: 'equal', left: leftText.substring(leftPos, leftEnd), right: rightText.substring(rightPos, rightEnd) });
+      leftPos = leftEnd;
+      rightPos = rightEnd;
+    }
+  }
 
-      rightLine.inlineChanges!.push({
-        value: part.value,
-        removed: false,
-        added: false
-      });
+  return ops;
+}
+
+// Build inline changes, mapping each step back onto the original text
+function buildInlineChanges(
+  leftLine: DiffResultWithLineNumbers,
+  rightLine: DiffResultWithLineNumbers,
+  ops: InlineOp[],
+  leftNormalized: NormalizedText,
+  rightNormalized: NormalizedText
+): void {
+  let leftPos = 0;
+  let rightPos = 0;
+
+  for (const op of ops) {
+    if (op.left) {
+      const end = leftPos + op.left.length;
+      const value = sliceOriginal(leftLine.value, leftNormalized, leftPos, end);
+      leftPos = end;
+      if (value) {
+        leftLine.inlineChanges!.push({ value, removed: op.type === 'delete', added: false });
+      }
+    }
+    if (op.right) {
+      const end = rightPos + op.right.length;
+      const value = sliceOriginal(rightLine.value, rightNormalized, rightPos, end);
+      rightPos = end;
+      if (value) {
+        rightLine.inlineChanges!.push({ value, added: op.type === 'insert', removed: false });
+      }
     }
   }
+
+  // Keep any unmatched tail visible so the rendered line always equals the original
+  if (leftPos < leftNormalized.text.length) {
+    const value = sliceOriginal(leftLine.value, leftNormalized, leftPos, leftNormalized.text.length);
+    if (value) leftLine.inlineChanges!.push({ value, removed: false, added: false });
+  }
+  if (rightPos < rightNormalized.text.length) {
+    const value = sliceOriginal(rightLine.value, rightNormalized, rightPos, rightNormalized.text.length);
+    if (value) rightLine.inlineChanges!.push({ value, added: false, removed: false });
+  }
 }
@@ -0,0 +1,38 @@
+import { computeLineDiff } from './index';
+import { DiffOptions, DiffProgress, FormattedDiff } from './types';
+
+// Message sent to the diff worker
+export interface DiffWorkerRequest {
+  id: number;
+  oldText: string;
+  newText: string;
+  options: DiffOptions;
+}
+
+// Messages sent back by the diff worker
+export type DiffWorkerResponse =
+  | { id: number; type: 'progress'; progress: DiffProgress }
+  | { id: number; type: 'result'; diff: FormattedDiff }
+  | { id: number; type: 'error'; message: string };
+
+// Run a diff request and post progress and the result, shared by the worker and the main-thread fallback
+export function runDiffRequest(request: DiffWorkerRequest, post: (response: DiffWorkerResponse) => void): void {
+  let lastProgress: DiffProgress | null = null;
+
+  try {
+    const diff = computeLineDiff(request.oldText, request.newText, request.options, (progress) => {
+      // Only post when the visible phase or percentage changes
+      if (lastProgress && progress.phase === lastProgress.phase && progress.percent === lastProgress.percent) return;
+      lastProgress = progress;
+      post({ id: request.id, type: 'progress', progress });
+    });
+
+    post({ id: request.id, type: 'result', diff });
+  } catch (error) {
+    post({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
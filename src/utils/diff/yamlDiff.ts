@@ -0,0 +1,95 @@
+import { parseAllDocuments } from 'yaml';
+import { diffStructures } from './structuralDiff';
+import { StructuralChange, StructuralDiff, StructuralNode } from './types';
+
+interface YamlDocument {
+  value: unknown;
+  label: string; // kind/name for Kubernetes-style documents, doc[index] otherwise
+  identity?: string; // Set when the document has kind and metadata.name
+}
+
+// Identify Kubernetes-style documents by kind, namespace and name
+function documentIdentity(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+  const { kind, metadata } = value as { kind?: unknown; metadata?: { name?: unknown; namespace?: unknown } };
+  if (typeof kind !== 'string' || typeof metadata?.name !== 'string') return undefined;
+  return typeof metadata.namespace === 'string' ? `${kind}/${metadata.namespace}/${metadata.name}` : `${kind}/${metadata.name}`;
+}
+
+// Parse every document of a YAML stream. Aliases and merge keys are resolved, comments and formatting dropped.
+export function parseYamlDocuments(text: string, side: string): YamlDocument[] {
+  return parseAllDocuments(text, { merge: true }).map((document, index) => {
+    const error = document.errors[0];
+    if (error) {
+      throw new Error(`${side} is not valid YAML: ${error.message}`);
+    }
+    const value = document.toJS();
+    const identity = documentIdentity(value);
+    return { value, identity, label: identity || `doc[${index}]` };
+  });
+}
+
+// Pair documents by identity, the remaining documents by their order
+function matchDocuments(oldDocs: YamlDocument[], newDocs: YamlDocument[]): [YamlDocument | null, YamlDocument | null][] {
+  const pairs: [YamlDocument | null, YamlDocument | null][] = [];
+  const unmatchedNew = new Set(newDocs);
+  const anonymousNew = newDocs.filter(doc => !doc.identity);
+
+  for (const oldDoc of oldDocs) {
+    const match = oldDoc.identity
+      ? newDocs.find(doc => doc.identity === oldDoc.identity && unmatchedNew.has(doc))
+      : anonymousNew.find(doc => unmatchedNew.has(doc));
+
+    if (match) unmatchedNew.delete(match);
+    pairs.push([oldDoc, match || null]);
+  }
+
+  for (const newDoc of unmatchedNew) {
+    pairs.push([null, newDoc]);
+  }
+
+  return pairs;
+}
+
+// Compare two YAML streams document by document, paths are prefixed with the document label when there are several
+export function diffYamlTexts(oldText: string, newText: string): StructuralDiff {
+  const oldDocs = parseYamlDocuments(oldText, 'Original');
+  const newDocs = parseYamlDocuments(newText, 'Modified');
+
+  if (oldDocs.length <= 1 && newDocs.length <= 1) {
+    return diffStructures(oldDocs[0]?.value ?? null, newDocs[0]?.value ?? null);
+  }
+
+  const changes: StructuralChange[] = [];
+  const children: StructuralNode[] = matchDocuments(oldDocs, newDocs).map(([oldDoc, newDoc]) => {
+    const label = (newDoc || oldDoc)!.label;
+    const path = `${label}:$`;
+
+    if (!newDoc) {
+      changes.push({ path, kind: 'removed', oldValue: oldDoc!.value });
+      return { key: label, path, status: 'removed', oldValue: oldDoc!.value };
+    }
+    if (!oldDoc) {
+      changes.push({ path, kind: 'added', newValue: newDoc.value });
+      return { key: label, path, status: 'added', newValue: newDoc.value };
+    }
+
+    const result = diffStructures(oldDoc.value, newDoc.value, path);
+    changes.push(...result.changes);
+    return { ...result.root, key: label };
+  });
+
+  const oldValues = oldDocs.map(doc => doc.value);
+  const newValues = newDocs.map(doc => doc.value);
+  return {
+    root: {
+      key: '$',
+      path: '$',
+      status: changes.length > 0 ? 'contains-changes' : 'unchanged',
+      oldValue: oldValues,
+      newValue: newValues,
+      children,
+    },
+    changes,
+  };
+}
@@ -0,0 +1,80 @@
+import Prism from 'prismjs';
+
+// Highlighted line: plain text, or a Prism token with the classes of its span around its content
+export type HighlightNode = string | { className: string; children: HighlightNode[] };
+
+// Class laid over the characters [start, end) of a line, such as an inline change or a masked token
+export interface LineOverlay {
+  start: number;
+  end: number;
+  className: string;
+}
+
+// Characters [start, end) covered by the same overlays, className is empty outside of them
+export interface OverlayRun {
+  start: number;
+  end: number;
+  className: string;
+}
+
+const toNodes = (stream: Prism.TokenStream): HighlightNode[] => {
+  if (typeof stream === 'string') return stream ? [stream] : [];
+  if (Array.isArray(stream)) return stream.flatMap(toNodes);
+  const aliases = Array.isArray(stream.alias) ? stream.alias : stream.alias ? [stream.alias] : [];
+  return [{ className: ['token', stream.type, ...aliases].join(' '), children: toNodes(stream.content) }];
+};
+
+/**
+ * Syntax highlight a whole line. Prism cannot tokenize a piece of a line, a string or comment
+ * loses its colors when cut, so lines are highlighted once and cut afterwards with sliceHighlight.
+ * @param text - Text of the line
+ * @param grammar - Prism grammar of the language
+ */
+export function highlightLine(text: string, grammar: Prism.Grammar): HighlightNode[] {
+  return toNodes(Prism.tokenize(text, grammar));
+}
+
+/**
+ * Characters [from, to) of a highlighted line. Tokens cut by the range keep their classes.
+ * @param nodes - Highlighted line
+ * @param from - Offset of the first character
+ * @param to - Offset after the last character
+ */
+export function sliceHighlight(nodes: HighlightNode[], from: number, to: number): HighlightNode[] {
+  let offset = 0;
+  const slice = (list: HighlightNode[]): HighlightNode[] => list.flatMap<HighlightNode>(node => {
+    if (typeof node === 'string') {
+      const start = offset;
+      offset += node.length;
+      return offset > from && start < to ? [node.slice(Math.max(from, start) - start, Math.min(to, offset) - start)] : [];
+    }
+    const children = slice(node.children);
+    return children.length > 0 ? [{ ...node, children }] : [];
+  });
+  return slice(nodes);
+}
+
+/**
+ * Split the characters [from, to) of a line into runs covered by the same overlays.
+ * Classes are joined in the order of the overlays, so later ones are laid over earlier ones.
+ * @param overlays - Overlays of the line, they may overlap
+ * @param from - Offset of the first character
+ * @param to - Offset after the last character
+ */
+export function overlayRuns(overlays: LineOverlay[], from: number, to: number): OverlayRun[] {
+  const cuts = new Set([from, to]);
+  for (const { start, end } of overlays) {
+    if (start > from && start < to) cuts.add(start);
+    if (end > from && end < to) cuts.add(end);
+  }
+
+  const points = Array.from(cuts).sort((a, b) => a - b);
+  return points.slice(0, -1).map((start, i) => {
+    const end = points[i + 1];
+    const className = overlays
+      .filter(overlay => overlay.start < end && overlay.end > start)
+      .map(overlay => overlay.className)
+      .join(' ');
+    return { start, end, className };
+  });
+}
@@ -0,0 +1,78 @@
+import { type DiffResultWithLineNumbers } from '@/utils/diff/types';
+
+// Tab stops of the code panes, matches the tab-size of the Prism theme
+const TAB_SIZE = 4;
+
+const isWhitespace = (char: string) => char === ' ' || char === '\t';
+const isLowSurrogate = (char: string) => char >= '\uDC00' && char <= '\uDFFF';
+
+const charWidth = (char: string, column: number) => char === '\t' ? TAB_SIZE - (column % TAB_SIZE) : 1;
+
+/**
+ * Offsets at which the visual rows of a soft wrapped line start, the first is always 0.
+ * Rows break after the last space that fits, words longer than a row are broken anywhere. Indentation is no
+ * break opportunity, and a space that does not fit hangs at the end of its row.
+ * Every visual row is rendered on its own, so tab stops restart on each of them.
+ * @param text - Text of the line
+ * @param columns - Characters that fit in a row of the pane
+ */
+export function wrapLine(text: string, columns: number): number[] {
+  const starts = [0];
+  if (columns <= 0) return starts;
+
+  let start = 0;
+  let column = 0;
+  let breakAt = -1; // Offset after the last space following text in the current row
+  let hasText = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (column > 0 && column + charWidth(char, column) > columns) {
+      if (breakAt <= start && isWhitespace(char)) {
+        if (i + 1 < text.length) starts.push(i + 1);
+        start = i + 1;
+        column = 0;
+        hasText = false;
+        continue;
+      }
+
+      let next = breakAt > start ? breakAt : i;
+      // Keep surrogate pairs together
+      if (next === i && isLowSurrogate(char) && i - 1 > start) next = i - 1;
+
+      starts.push(next);
+      start = next;
+      breakAt = -1;
+      column = 0;
+      for (let j = start; j < i; j++) column += charWidth(text[j], column);
+      hasText = column > 0;
+    }
+
+    column += charWidth(char, column);
+    if (!isWhitespace(char)) hasText = true;
+    else if (hasText) breakAt = i + 1;
+  }
+
+  return starts;
+}
+
+/**
+ * Visual rows taken by each aligned row when lines wrap: the most any pane needs for it,
+ * so the rows of the panes stay side by side
+ * @param panes - Lines of each pane with the characters that fit in its rows, null while unmeasured
+ * @param rowCount - Number of aligned rows
+ */
+export function wrappedRowSpans(panes: { lines: DiffResultWithLineNumbers[]; columns: number | null }[], rowCount: number): number[] {
+  const spans = new Array<number>(rowCount).fill(1);
+
+  for (const { lines, columns } of panes) {
+    if (!columns) continue;
+    for (let row = 0; row < rowCount; row++) {
+      const line = lines[row];
+      if (!line || line.spacer || line.value.length <= columns / TAB_SIZE) continue;
+      spans[row] = Math.max(spans[row], wrapLine(line.value, columns).length);
+    }
+  }
+
+  return spans;
+}
@@ -0,0 +1,85 @@
+import { type DisplayItem } from '@/utils/diff/folding';
+
+// Height of a code row in pixels, matches the h-6 rows of CodeView
+export const ROW_HEIGHT_PX = 24;
+
+// Smaller panes render every row, which keeps the browser's find in page working
+export const VIRTUALIZE_MIN_ROWS = 1000;
+
+// Rows rendered above and below the visible ones so that fast scrolling does not show blank rows
+const OVERSCAN_ROWS = 20;
+
+export interface RowRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Visual row at which each displayed item starts, followed by the total. Rows of wrapped lines
+ * take several visual rows, everything else takes one.
+ * @param items - Displayed items of a pane
+ * @param rowSpans - Visual rows of each diff row, every row takes one when omitted
+ */
+export function itemOffsets(items: DisplayItem[], rowSpans?: number[]): number[] {
+  const offsets = new Array<number>(items.length + 1);
+  offsets[0] = 0;
+  items.forEach((item, i) => {
+    offsets[i + 1] = offsets[i] + (rowSpans && item.kind === 'row' ? rowSpans[item.row] ?? 1 : 1);
+  });
+  return offsets;
+}
+
+// First index whose offset is at least value
+function firstOffsetAtLeast(offsets: number[], value: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (offsets[middle] < value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
+
+/**
+ * Rows [start, end) to render for the part of the row list between viewTop and viewBottom
+ * @param rowCount - Number of rows in the list
+ * @param viewTop - Top of the visible area in pixels, relative to the first row
+ * @param viewBottom - Bottom of the visible area in pixels, relative to the first row
+ * @param offsets - Visual row of each row from itemOffsets, when rows take several
+ */
+export function visibleRowRange(rowCount: number, viewTop: number, viewBottom: number, offsets?: number[]): RowRange {
+  let first = Math.floor(viewTop / ROW_HEIGHT_PX);
+  let last = Math.ceil(viewBottom / ROW_HEIGHT_PX);
+  if (offsets) {
+    first = firstOffsetAtLeast(offsets, first + 1) - 1;
+    last = firstOffsetAtLeast(offsets, last);
+  }
+
+  const start = Math.min(rowCount, Math.max(0, first - OVERSCAN_ROWS));
+  const end = Math.min(rowCount, Math.max(start, last + OVERSCAN_ROWS));
+  return { start, end };
+}
+
+/**
+ * Scroll a code pane so that displayed rows are centered, whether or not they are rendered.
+ * Rows taller than the pane are shown from their first row.
+ * @param container - Scroll container of the pane, holding the rows marked with data-rows
+ * @param index - Visual row of the first row, its index among the displayed rows unless lines wrap
+ * @param count - Number of visual rows to center
+ */
+export function scrollToDisplayRows(container: HTMLElement, index: number, count = 1, behavior: ScrollBehavior = 'smooth'): void {
+  const rows = container.querySelector('[data-rows]');
+  if (!rows) return;
+
+  const rowTop = rows.getBoundingClientRect().top + index * ROW_HEIGHT_PX;
+  const centering = (viewHeight: number) => Math.max(0, (viewHeight - count * ROW_HEIGHT_PX) / 2);
+
+  // An expanded pane does not scroll itself, the page does
+  if (container.scrollHeight > container.clientHeight) {
+    const offset = rowTop - container.getBoundingClientRect().top - centering(container.clientHeight);
+    container.scrollTo({ top: container.scrollTop + offset, behavior });
+  } else {
+    window.scrollBy({ top: rowTop - centering(window.innerHeight), behavior });
+  }
+}
@@ -0,0 +1,11 @@
+import { runDiffRequest, type DiffWorkerRequest, type DiffWorkerResponse } from '@/utils/diff/workerProtocol';
+
+// Minimal view of the dedicated worker scope, the app is compiled against the DOM lib
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<DiffWorkerRequest>) => void) | null;
+  postMessage: (message: DiffWorkerResponse) => void;
+};
+
+ctx.onmessage = (event) => {
+  runDiffRequest(event.data, (response) => ctx.postMessage(response));
+};
@@ -65,6 +65,10 @@ const config: Config = {
           bg: "hsl(var(--diff-extra-bg))",
           text: "hsl(var(--diff-extra-text))",
         },
+        "diff-moved": {
+          bg: "hsl(var(--diff-moved-bg))",
+          text: "hsl(var(--diff-moved-text))",
+        },
       },
       borderRadius: {
         lg: "var(--radius)",